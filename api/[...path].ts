@@ -48,6 +48,15 @@ async function buildServer() {
   // Note: WebSocket functionality will be limited in serverless environment
   // Consider using external WebSocket service for production
 
+  // Event streams stay open and receive events from the long-running server's rooms,
+  // which serverless functions can't do
+  fastify.get("/v1/events/stream", async (_req: any, reply: any) => {
+    return reply.status(501).send({
+      success: false,
+      error: "Event streams are only served by the long-running server (src/index.ts)"
+    });
+  });
+
   app = fastify;
   return fastify;
 }
@@ -10,6 +10,8 @@ import {
   BulkApplicationOperation,
   AdminResponse 
 } from '../types/adminTypes';
+import { APPLICATION_STATUSES } from '../../utils/applicationPipeline';
+import { getMemberEffortTotals, getProjectEffortTotals } from '../../utils/effort';
 
 export class DeptAdminController {
   /**
@@ -78,7 +80,7 @@ export class DeptAdminController {
           projectTypes: ['PROJECT', 'RESEARCH', 'PAPER_PUBLISH', 'OTHER'],
           moderationStatuses: ['PENDING_APPROVAL', 'APPROVED', 'REJECTED'],
           progressStatuses: ['OPEN', 'IN_PROGRESS', 'COMPLETED'],
-          applicationStatuses: ['PENDING', 'ACCEPTED', 'REJECTED'],
+          applicationStatuses: APPLICATION_STATUSES,
           taskStatuses: ['TODO', 'IN_PROGRESS', 'DONE'],
           sortOptions: [
             { value: 'createdAt', label: 'Date Created' },
@@ -415,7 +417,7 @@ export class DeptAdminController {
       const filters: any = {};
       
       // Status filter
-      if (query.status && ['PENDING', 'ACCEPTED', 'REJECTED'].includes(query.status)) {
+      if (query.status && APPLICATION_STATUSES.includes(query.status)) {
         filters.status = [query.status];
       }
       
@@ -552,7 +554,7 @@ export class DeptAdminController {
       }
 
       // Validate status
-      const validStatuses = ['ACCEPTED', 'REJECTED'];
+      const validStatuses = ['SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'WAITLISTED', 'ACCEPTED', 'REJECTED'];
       if (!body.status || !validStatuses.includes(body.status)) {
         const response: AdminResponse = {
           success: false,
@@ -691,7 +693,7 @@ export class DeptAdminController {
       }
 
       // Validate status
-      const validStatuses = ['ACCEPTED', 'REJECTED'];
+      const validStatuses = ['SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'WAITLISTED', 'ACCEPTED', 'REJECTED'];
       if (!body.status || !validStatuses.includes(body.status)) {
         const response: AdminResponse = {
           success: false,
@@ -817,15 +819,20 @@ export class DeptAdminController {
         case 'applications':
           analyticsData = await AdminApplicationService.getApplicationAnalytics(adminAuth, timeRange);
           break;
+        case 'milestones':
+          analyticsData = await AdminProjectService.getMilestoneAnalytics(adminAuth);
+          break;
         default:
           // Combined analytics for department
-          const [projectAnalytics, applicationAnalytics] = await Promise.all([
+          const [projectAnalytics, applicationAnalytics, milestoneAnalytics] = await Promise.all([
             AdminProjectService.getProjectAnalytics(adminAuth, timeRange),
-            AdminApplicationService.getApplicationAnalytics(adminAuth, timeRange)
+            AdminApplicationService.getApplicationAnalytics(adminAuth, timeRange),
+            AdminProjectService.getMilestoneAnalytics(adminAuth)
           ]);
           analyticsData = { 
             projects: projectAnalytics, 
             applications: applicationAnalytics,
+            milestones: milestoneAnalytics,
             department: adminAuth.scope.department
           };
       }
@@ -906,9 +913,13 @@ export class DeptAdminController {
             'Progress Status', 
             'Total Applications', 
             'Skills',
+            'Logged Hours',
+            'Approved Credit Hours',
             'Created Date',
             'Updated Date'
           ];
+
+          const projectEffort = await getProjectEffortTotals(projects.projects.map(project => project.id));
           
           // Get detailed author information for each project
           const projectRows = await Promise.all(
@@ -930,6 +941,8 @@ export class DeptAdminController {
                   project.progressStatus,
                   project.applicationCount || 0,
                   Array.isArray(project.skills) ? project.skills.join('; ') : 'N/A',
+                  Math.round((projectEffort.get(project.id)?.loggedMinutes || 0) / 60 * 100) / 100,
+                  projectEffort.get(project.id)?.creditHours || 0,
                   project.createdAt.toISOString().split('T')[0],
                   project.updatedAt.toISOString().split('T')[0]
                 ];
@@ -947,6 +960,8 @@ export class DeptAdminController {
                   project.progressStatus,
                   project.applicationCount || 0,
                   Array.isArray(project.skills) ? project.skills.join('; ') : 'N/A',
+                  Math.round((projectEffort.get(project.id)?.loggedMinutes || 0) / 60 * 100) / 100,
+                  projectEffort.get(project.id)?.creditHours || 0,
                   project.createdAt.toISOString().split('T')[0],
                   project.updatedAt.toISOString().split('T')[0]
                 ];
@@ -1113,6 +1128,61 @@ export class DeptAdminController {
           filename = `project-applications-${projectId}-${new Date().toISOString().split('T')[0]}.csv`;
           break;
 
+        case 'effort':
+          // Approved credit hours per student and project in the department
+          const effortProjects = await AdminProjectService.getProjects(
+            adminAuth.roles.includes("DEPT_ADMIN") && department ? { department } : {},
+            { page: 1, limit: 10000, sortBy: 'createdAt', sortOrder: 'desc' },
+            adminAuth
+          );
+          const effortProjectTitles = new Map(effortProjects.projects.map(project => [project.id, project.title]));
+          const memberEffort = await getMemberEffortTotals(Array.from(effortProjectTitles.keys()));
+
+          const effortHeaders = [
+            'Student Name',
+            'Email',
+            'Registration No',
+            'Project Title',
+            'Entries',
+            'Logged Hours',
+            'Pending Hours',
+            'Approved Credit Hours'
+          ];
+
+          const effortRows = await Promise.all(
+            memberEffort.map(async (member) => {
+              let email = 'N/A';
+              let registrationNo = 'N/A';
+              try {
+                const { getUserIdentity } = await import('../../clients/auth');
+                const memberData = await getUserIdentity(member.userId, request.headers.authorization || '');
+                email = memberData.email || 'N/A';
+                registrationNo = memberData.collegeMemberId || 'N/A';
+              } catch (error) {
+                console.error(`Error fetching member data for ${member.userId}:`, error);
+              }
+
+              return [
+                member.userName,
+                email,
+                registrationNo,
+                effortProjectTitles.get(member.projectId),
+                member.entries,
+                Math.round(member.loggedMinutes / 60 * 100) / 100,
+                Math.round(member.pendingMinutes / 60 * 100) / 100,
+                member.creditHours
+              ];
+            })
+          );
+
+          csvContent = [
+            effortHeaders.join(','),
+            ...effortRows.map((row: any[]) => row.map((cell: any) => `"${cell}"`).join(','))
+          ].join('\n');
+
+          filename = `dept-effort-${department}-${new Date().toISOString().split('T')[0]}.csv`;
+          break;
+
         default:
           throw new Error('Invalid export type');
       }
@@ -1156,17 +1226,22 @@ export class DeptAdminController {
         adminAuth
       );
 
+      const effortByProject = await getProjectEffortTotals(projects.projects.map(p => p.id));
+      const projectsWithEffort = projects.projects.map(p => ({ ...p, effort: effortByProject.get(p.id) }));
+
       const response: AdminResponse = {
         success: true,
         data: {
           facultyId,
           department: adminAuth.scope.department,
-          projects: projects.projects,
+          projects: projectsWithEffort,
           summary: {
             totalProjects: projects.projects.length,
             activeProjects: projects.projects.filter(p => p.progressStatus !== 'COMPLETED').length,
             completedProjects: projects.projects.filter(p => p.progressStatus === 'COMPLETED').length,
-            totalApplications: projects.projects.reduce((sum, p) => sum + (p.applicationCount || 0), 0)
+            totalApplications: projects.projects.reduce((sum, p) => sum + (p.applicationCount || 0), 0),
+            approvedCreditHours: projectsWithEffort.reduce((sum, p) => sum + (p.effort?.creditHours || 0), 0),
+            pendingEffortHours: Math.round(projectsWithEffort.reduce((sum, p) => sum + (p.effort?.pendingMinutes || 0), 0) / 60 * 100) / 100
           }
         }
       };
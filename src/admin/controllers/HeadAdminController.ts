@@ -2,8 +2,17 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { AdminProjectService } from '../services/AdminProjectService';
 import { AdminApplicationService } from '../services/AdminApplicationService';
 import { AuditLogger } from '../utils/auditLogger';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../db';
 import { getCache } from '../../utils/cache';
+import { formatAnswersForExport } from '../../utils/applicationForm';
+import {
+  DEFAULT_COLLEGE_QUOTA_MB,
+  DEFAULT_PROJECT_QUOTA_MB,
+  DEFAULT_UPLOADER_QUOTA_MB,
+  getStorageCleanupReport,
+  getStorageUsageSummary
+} from '../../utils/storageQuota';
 import { 
   ProjectFilters, 
   PaginationParams, 
@@ -29,7 +38,7 @@ export class HeadAdminController {
       const collegeId = adminAuth.scope.collegeId;
       const whereClause = collegeId ? { collegeId } : {};
 
-      const [dashboardStats, recentProjects] = await Promise.all([
+      const [dashboardStats, recentProjects, storageUsage] = await Promise.all([
         // Single aggregation query for all statistics
         prisma.$queryRaw`
           SELECT 
@@ -70,7 +79,9 @@ export class HeadAdminController {
           },
           orderBy: { createdAt: 'desc' },
           take: 5
-        })
+        }),
+        // Attachment storage against the college quota
+        getStorageUsageSummary(collegeId)
       ]);
 
       // Transform the raw query result into the expected format
@@ -110,12 +121,14 @@ export class HeadAdminController {
         data: {
           projectAnalytics,
           applicationAnalytics,
+          storageUsage,
           recentProjects: recentProjects,
           summary: {
             totalProjects: projectAnalytics.totalProjects,
             pendingApproval: projectAnalytics.projectsByStatus.pending,
             totalApplications: applicationAnalytics.totalApplications,
-            pendingApplications: applicationAnalytics.applicationsByStatus.pending
+            pendingApplications: applicationAnalytics.applicationsByStatus.pending,
+            storageUsedBytes: storageUsage.totalBytes
           }
         }
       };
@@ -806,7 +819,8 @@ export class HeadAdminController {
         'Project Author',
         'Application Status',
         'Applied Date',
-        'Cover Letter'
+        'Cover Letter',
+        'Form Answers'
       ];
 
       const csvRows = applications.map((app: any) => [
@@ -819,7 +833,8 @@ export class HeadAdminController {
         app.project?.authorName || 'N/A',
         app.status,
         new Date(app.appliedAt).toLocaleDateString(),
-        (app.message || '').replace(/"/g, '""') // Escape quotes for CSV
+        (app.message || '').replace(/"/g, '""'), // Escape quotes for CSV
+        formatAnswersForExport(app.formAnswers).replace(/"/g, '""')
       ]);
 
       const csvContent = [
@@ -991,4 +1006,129 @@ export class HeadAdminController {
       return reply.status(500).send(response);
     }
   }
+
+  /**
+   * Get the college's storage quota settings and the defaults they override
+   */
+  static async getStorageQuota(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminAuth = (request as any).adminAuth;
+      const collegeId = adminAuth.scope.collegeId;
+
+      const quota = collegeId
+        ? await prisma.collegeStorageQuota.findUnique({ where: { collegeId } })
+        : null;
+
+      const response: AdminResponse = {
+        success: true,
+        data: {
+          quota,
+          defaults: {
+            collegeLimitMb: DEFAULT_COLLEGE_QUOTA_MB,
+            uploaderLimitMb: DEFAULT_UPLOADER_QUOTA_MB,
+            projectLimitsMb: DEFAULT_PROJECT_QUOTA_MB
+          }
+        }
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to load storage quota'
+      };
+      return reply.status(500).send(response);
+    }
+  }
+
+  /**
+   * Set the college's storage limits (null restores a default)
+   */
+  static async updateStorageQuota(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminAuth = (request as any).adminAuth;
+      const collegeId = adminAuth.scope.collegeId;
+      const { collegeLimitMb, uploaderLimitMb, projectLimitsMb } = request.body as any;
+
+      if (!collegeId) {
+        const response: AdminResponse = {
+          success: false,
+          message: 'Storage quotas can only be set by a college admin'
+        };
+        return reply.status(400).send(response);
+      }
+
+      const existing = await prisma.collegeStorageQuota.findUnique({ where: { collegeId } });
+
+      const data = {
+        collegeLimitMb,
+        uploaderLimitMb,
+        projectLimitsMb: projectLimitsMb === null ? Prisma.DbNull : projectLimitsMb,
+        updatedById: adminAuth.userId
+      };
+
+      const quota = await prisma.collegeStorageQuota.upsert({
+        where: { collegeId },
+        create: { collegeId, ...data },
+        update: data
+      });
+
+      await AuditLogger.log({
+        adminId: adminAuth.userId,
+        adminName: adminAuth.name || adminAuth.email || 'Unknown Admin',
+        action: 'UPDATE_STORAGE_QUOTA',
+        entityType: 'COLLEGE',
+        entityId: collegeId,
+        oldValues: existing,
+        newValues: quota,
+        collegeId
+      }, request);
+
+      const response: AdminResponse = {
+        success: true,
+        data: { quota },
+        message: 'Storage quota updated successfully'
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to update storage quota'
+      };
+      return reply.status(500).send(response);
+    }
+  }
+
+  /**
+   * Largest and oldest stored files per project
+   */
+  static async getStorageCleanupReport(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const adminAuth = (request as any).adminAuth;
+      const query = request.query as any;
+
+      const projects = await getStorageCleanupReport(adminAuth.scope.collegeId, {
+        projectId: query.projectId,
+        limit: Math.min(parseInt(query.limit) || 5, 50)
+      });
+
+      const response: AdminResponse = {
+        success: true,
+        data: {
+          projects,
+          totalBytes: projects.reduce((sum, project) => sum + project.usedBytes, 0),
+          reclaimableBytes: projects.reduce((sum, project) => sum + project.reclaimableBytes, 0)
+        }
+      };
+
+      return reply.send(response);
+    } catch (error) {
+      const response: AdminResponse = {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to build storage cleanup report'
+      };
+      return reply.status(500).send(response);
+    }
+  }
 }
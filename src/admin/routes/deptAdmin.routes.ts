@@ -14,6 +14,7 @@ import {
   dashboardResponseSchema,
   errorResponseSchema
 } from '../validators/adminProjectSchemas';
+import { APPLICATION_STATUSES } from '../../utils/applicationPipeline';
 
 export async function deptAdminRoutes(app: FastifyInstance) {
   const f = app.withTypeProvider<ZodTypeProvider>();
@@ -88,7 +89,7 @@ export async function deptAdminRoutes(app: FastifyInstance) {
         properties: {
           page: { type: 'string', pattern: '^[1-9]\\d*$' },
           limit: { type: 'string', pattern: '^[1-9]\\d*$' },
-          status: { type: 'string', enum: ['PENDING', 'ACCEPTED', 'REJECTED'] },
+          status: { type: 'string', enum: APPLICATION_STATUSES },
           projectId: { type: 'string' },
           studentId: { type: 'string' },
           studentDepartment: { type: 'string' },
@@ -115,7 +116,7 @@ export async function deptAdminRoutes(app: FastifyInstance) {
                   studentId: { type: 'string' },
                   studentName: { type: 'string' },
                   studentDepartment: { type: 'string' },
-                  status: { type: 'string', enum: ['PENDING', 'ACCEPTED', 'REJECTED'] },
+                  status: { type: 'string', enum: APPLICATION_STATUSES },
                   message: { type: 'string', nullable: true },
                   appliedAt: { type: 'string', format: 'date-time' },
                   project: {
@@ -187,7 +188,7 @@ export async function deptAdminRoutes(app: FastifyInstance) {
                 studentId: { type: 'string' },
                 studentName: { type: 'string' },
                 studentDepartment: { type: 'string' },
-                status: { type: 'string', enum: ['PENDING', 'ACCEPTED', 'REJECTED'] },
+                status: { type: 'string', enum: APPLICATION_STATUSES },
                 message: { type: 'string', nullable: true },
                 appliedAt: { type: 'string', format: 'date-time' },
                 project: {
@@ -452,7 +453,7 @@ export async function deptAdminRoutes(app: FastifyInstance) {
     schema: {
       tags: ['dept-admin'],
       summary: 'Export department data',
-      description: 'Export department project and application data in CSV format'
+      description: 'Export department project, application and effort data in CSV format'
     }
   }, DeptAdminController.exportData);
 }
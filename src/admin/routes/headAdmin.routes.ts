@@ -7,7 +7,8 @@ import {
   validateApplicationStatusUpdate,
   validateBulkApplicationOperation,
   validateProjectUpdate,
-  validateAdminQueryParams
+  validateAdminQueryParams,
+  validateStorageQuotaUpdate
 } from '../../middlewares/adminValidation';
 import { adminExportRateLimit, adminBulkRateLimit } from '../../middlewares/adminRateLimit';
 
@@ -98,6 +99,20 @@ export async function headAdminRoutes(app: FastifyInstance) {
   app.get('/v1/admin/head/projects/:projectId/activity', {
     schema: { tags: ['head-admin'] }
   }, HeadAdminController.getProjectActivity);
+
+  // Attachment Storage
+  app.get('/v1/admin/head/storage/quota', {
+    schema: { tags: ['head-admin'] }
+  }, HeadAdminController.getStorageQuota);
+
+  app.put('/v1/admin/head/storage/quota', {
+    preHandler: [validateStorageQuotaUpdate],
+    schema: { tags: ['head-admin'] }
+  }, HeadAdminController.updateStorageQuota);
+
+  app.get('/v1/admin/head/storage/cleanup-report', {
+    schema: { tags: ['head-admin'] }
+  }, HeadAdminController.getStorageCleanupReport);
 }
 
 export default headAdminRoutes;
@@ -5,6 +5,7 @@ import placementsAdminRoutes from './placementsAdmin.routes';
 import { requireHeadAdmin } from '../middleware/adminAuth';
 import { prisma } from '../../db';
 import { AuditLogger } from '../utils/auditLogger';
+import { AdminProjectService } from '../services/AdminProjectService';
 
 /**
  * Register all admin routes for projects service
@@ -100,6 +101,10 @@ export async function adminRoutes(app: FastifyInstance) {
       return reply.status(403).send({ success: false, message: 'Access denied' });
     }
 
+    if (action === 'APPROVE' && AdminProjectService.isAwaitingSponsor(currentProject)) {
+      return reply.status(400).send({ success: false, message: 'Student proposal has no accepted faculty sponsor' });
+    }
+
     let updateData: any = {};
     switch (action) {
       case 'APPROVE': updateData.moderationStatus = 'APPROVED'; break;
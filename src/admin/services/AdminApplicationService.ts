@@ -8,6 +8,17 @@ import {
   ADMIN_LIMITS
 } from '../types/adminTypes';
 import { canManageApplication } from '../middleware/adminAuth';
+import { APPLICATION_FUNNEL } from '../../utils/applicationPipeline';
+import { changeApplicationStatus, announcePromotions } from '../../utils/waitlist';
+import { applyApplicationMembershipChange } from '../../utils/projectMembership';
+
+// Admin errors are reported by message
+function describeStatusChangeError(error: unknown): never {
+  if (error instanceof Error && error.message === 'PROJECT_FULL') {
+    throw new Error('Project has reached maximum number of students');
+  }
+  throw error;
+}
 
 export class AdminApplicationService {
   /**
@@ -146,18 +157,23 @@ export class AdminApplicationService {
     application: any;
   }> {
     const application = await this.getApplicationById(applicationId, adminAuth);
-    
-    const oldStatus = application.status;
-    
-    const updatedApplication = await prisma.appliedProject.update({
-      where: { id: applicationId },
-      data: {
-        status: statusUpdate.status
-      },
-      include: {
-        project: true
-      }
-    });
+
+    // The transition is checked on the application as it is under the project's slot lock
+    const { fromStatus: oldStatus, application: changed, promotions } = await prisma.$transaction((tx) =>
+      changeApplicationStatus(tx, {
+        applicationId,
+        toStatus: statusUpdate.status,
+        changedById: adminAuth.userId,
+        changedByRole: 'ADMIN',
+        reason: statusUpdate.reason
+      })
+    ).catch(describeStatusChangeError);
+
+    const updatedApplication = { ...changed, project: application.project };
+
+    await applyApplicationMembershipChange(application.projectId, application.studentId, oldStatus, statusUpdate.status);
+
+    await announcePromotions(promotions);
 
     return {
       oldStatus,
@@ -204,17 +220,19 @@ export class AdminApplicationService {
           throw new Error('Access denied');
         }
 
-        // Check if application is already in the target status
-        if (application.status === operation.status) {
-          throw new Error(`Application is already ${operation.status.toLowerCase()}`);
-        }
+        const { fromStatus, promotions } = await prisma.$transaction((tx) =>
+          changeApplicationStatus(tx, {
+            applicationId,
+            toStatus: operation.status,
+            changedById: adminAuth.userId,
+            changedByRole: 'ADMIN',
+            reason: operation.reason
+          })
+        ).catch(describeStatusChangeError);
 
-        await prisma.appliedProject.update({
-          where: { id: applicationId },
-          data: {
-            status: operation.status as ApplicationStatus
-          }
-        });
+        await applyApplicationMembershipChange(application.projectId, application.studentId, fromStatus, operation.status);
+
+        await announcePromotions(promotions);
 
         result.successful++;
       } catch (error) {
@@ -279,7 +297,8 @@ export class AdminApplicationService {
       totalApplications,
       applicationsByStatus,
       applicationsByDepartment,
-      topAppliedProjects
+      topAppliedProjects,
+      funnelApplications
     ] = await Promise.all([
       // Total applications
       prisma.appliedProject.count({
@@ -323,6 +342,17 @@ export class AdminApplicationService {
           }
         },
         take: 10
+      }),
+
+      // Stage history for funnel reporting
+      prisma.appliedProject.findMany({
+        where: applicationWhere,
+        select: {
+          status: true,
+          statusHistory: {
+            select: { toStatus: true }
+          }
+        }
       })
     ]);
 
@@ -351,17 +381,53 @@ export class AdminApplicationService {
       applicationsByStatus: this.formatApplicationStatusCounts(applicationsByStatus),
       applicationsByDepartment: this.formatDepartmentCounts(applicationsByDepartment),
       topAppliedProjects: topAppliedProjectsWithDetails,
-      acceptanceRate: Math.round(acceptanceRate * 100) / 100
+      acceptanceRate: Math.round(acceptanceRate * 100) / 100,
+      funnel: this.buildApplicationFunnel(funnelApplications)
     };
   }
 
+  /**
+   * Count how many applications reached each funnel stage and the conversion between stages
+   */
+  private static buildApplicationFunnel(
+    applications: { status: ApplicationStatus; statusHistory: { toStatus: ApplicationStatus }[] }[]
+  ) {
+    // Stages each application actually went through; all of them entered at PENDING.
+    // Stages can be skipped (a direct accept) or disabled, so reaching a later stage
+    // doesn't count the ones before it.
+    const stagesReached = applications.map(application => new Set<ApplicationStatus>([
+      'PENDING',
+      application.status,
+      ...application.statusHistory.map(h => h.toStatus)
+    ]));
+
+    return APPLICATION_FUNNEL.map((stage, i) => {
+      const reached = stagesReached.filter(stages => stages.has(stage));
+      // Share of applications at the previous stage that went on to this one
+      const previous = i === 0 ? stagesReached : stagesReached.filter(stages => stages.has(APPLICATION_FUNNEL[i - 1]));
+      const converted = previous.filter(stages => stages.has(stage)).length;
+      const conversionRate = previous.length > 0 ? (converted / previous.length) * 100 : 0;
+
+      return {
+        stage,
+        count: reached.length,
+        conversionRate: Math.round(conversionRate * 100) / 100
+      };
+    });
+  }
+
   /**
    * Format application status counts for consistent response
    */
   private static formatApplicationStatusCounts(statusCounts: any[]) {
     const formatted = {
       pending: 0,
+      shortlisted: 0,
+      interviewScheduled: 0,
+      offered: 0,
       accepted: 0,
+      offerDeclined: 0,
+      waitlisted: 0,
       rejected: 0
     };
 
@@ -370,9 +436,24 @@ export class AdminApplicationService {
         case 'PENDING':
           formatted.pending = item._count.id;
           break;
+        case 'SHORTLISTED':
+          formatted.shortlisted = item._count.id;
+          break;
+        case 'INTERVIEW_SCHEDULED':
+          formatted.interviewScheduled = item._count.id;
+          break;
+        case 'OFFERED':
+          formatted.offered = item._count.id;
+          break;
         case 'ACCEPTED':
           formatted.accepted = item._count.id;
           break;
+        case 'OFFER_DECLINED':
+          formatted.offerDeclined = item._count.id;
+          break;
+        case 'WAITLISTED':
+          formatted.waitlisted = item._count.id;
+          break;
         case 'REJECTED':
           formatted.rejected = item._count.id;
           break;
@@ -8,6 +8,7 @@ import {
   ADMIN_LIMITS
 } from '../types/adminTypes';
 import { canModerateProject } from '../middleware/adminAuth';
+import { computeProgress, isMilestoneOverdue, isProjectOverdue, overdueProjectFilter } from '../../utils/milestones';
 
 export class AdminProjectService {
   /**
@@ -24,7 +25,9 @@ export class AdminProjectService {
 
     // Build where clause with admin scope
     const where: any = {
-      archivedAt: null
+      archivedAt: null,
+      // Student proposals only reach moderation once a faculty sponsor accepts
+      AND: [{ OR: [{ proposedById: null }, { sponsoredAt: { not: null } }] }]
     };
 
     // Apply admin scope
@@ -87,10 +90,9 @@ export class AdminProjectService {
       if (filters.deadlineBefore) where.deadline.lte = filters.deadlineBefore;
     }
 
-    // Handle overdue projects
+    // Handle overdue projects (past deadline or with a slipping milestone)
     if (filters.isOverdue) {
-      where.deadline = { lt: new Date() };
-      where.progressStatus = { not: 'COMPLETED' };
+      where.AND.push(overdueProjectFilter());
     }
 
     const [projects, total] = await Promise.all([
@@ -110,6 +112,13 @@ export class AdminProjectService {
               appliedAt: true
             }
           },
+          milestones: {
+            select: { id: true, title: true, dueDate: true, completedAt: true },
+            orderBy: { dueDate: 'asc' }
+          },
+          tasks: {
+            select: { status: true }
+          },
           _count: {
             select: {
               applications: true,
@@ -123,12 +132,14 @@ export class AdminProjectService {
     ]);
 
     // Add computed fields
-    const enrichedProjects = projects.map(project => ({
+    const enrichedProjects = projects.map(({ tasks, ...project }) => ({
       ...project,
       applicationCount: project._count.applications,
       commentCount: project._count.comments,
       taskCount: project._count.tasks,
-      isOverdue: project.deadline ? new Date(project.deadline) < new Date() && project.progressStatus !== 'COMPLETED' : false,
+      progress: computeProgress(tasks),
+      overdueMilestoneCount: project.milestones.filter(milestone => isMilestoneOverdue(milestone)).length,
+      isOverdue: isProjectOverdue(project, project.milestones),
       capacityStatus: this.getCapacityStatus(project.applications.length, project.maxStudents)
     }));
 
@@ -159,6 +170,9 @@ export class AdminProjectService {
         tasks: {
           orderBy: { createdAt: 'desc' }
         },
+        milestones: {
+          orderBy: { dueDate: 'asc' }
+        },
         attachments: {
           orderBy: { createdAt: 'desc' }
         },
@@ -179,7 +193,13 @@ export class AdminProjectService {
 
     return {
       ...project,
-      isOverdue: project.deadline ? new Date(project.deadline) < new Date() && project.progressStatus !== 'COMPLETED' : false,
+      milestones: project.milestones.map(milestone => ({
+        ...milestone,
+        ...computeProgress(project.tasks.filter(task => task.milestoneId === milestone.id)),
+        isOverdue: isMilestoneOverdue(milestone)
+      })),
+      progress: computeProgress(project.tasks),
+      isOverdue: isProjectOverdue(project, project.milestones),
       capacityStatus: this.getCapacityStatus(project.applications.length, project.maxStudents)
     };
   }
@@ -231,7 +251,10 @@ export class AdminProjectService {
             id: true,
             title: true,
             status: true,
+            priority: true,
+            dueDate: true,
             assignedToId: true,
+            assigneeIds: true,
             createdAt: true
           }
         },
@@ -286,6 +309,10 @@ export class AdminProjectService {
       throw new Error('Access denied');
     }
 
+    if (moderation.action === 'APPROVE' && this.isAwaitingSponsor(currentProject)) {
+      throw new Error('Student proposal cannot be approved before a faculty sponsor accepts it');
+    }
+
     let updateData: any = {};
     
     switch (moderation.action) {
@@ -349,6 +376,10 @@ export class AdminProjectService {
           throw new Error('Access denied');
         }
 
+        if (operation.action === 'APPROVE' && this.isAwaitingSponsor(project)) {
+          throw new Error('Student proposal cannot be approved before a faculty sponsor accepts it');
+        }
+
         let updateData: any = {};
         
         switch (operation.action) {
@@ -460,6 +491,82 @@ export class AdminProjectService {
     };
   }
 
+  /**
+   * Milestone progress for active projects, listing the ones that are slipping
+   */
+  static async getMilestoneAnalytics(adminAuth: any) {
+    const where: any = {
+      archivedAt: null,
+      progressStatus: { not: 'COMPLETED' },
+      milestones: { some: {} }
+    };
+    if (adminAuth.scope.collegeId && !adminAuth.roles.includes("SUPER_ADMIN")) {
+      where.collegeId = adminAuth.scope.collegeId;
+    }
+    if (adminAuth.roles.includes("DEPT_ADMIN") && adminAuth.scope.department) {
+      where.authorDepartment = adminAuth.scope.department;
+    }
+
+    const projects = await prisma.project.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        authorId: true,
+        authorName: true,
+        authorDepartment: true,
+        deadline: true,
+        progressStatus: true,
+        tasks: { select: { status: true } },
+        milestones: {
+          select: {
+            id: true,
+            title: true,
+            dueDate: true,
+            completedAt: true,
+            tasks: { select: { status: true } }
+          },
+          orderBy: { dueDate: 'asc' }
+        }
+      }
+    });
+
+    const milestones = projects.flatMap(project => project.milestones);
+
+    const slippingProjects = projects
+      .filter(project => isProjectOverdue(project, project.milestones))
+      .map(project => ({
+        id: project.id,
+        title: project.title,
+        authorId: project.authorId,
+        authorName: project.authorName,
+        authorDepartment: project.authorDepartment,
+        deadline: project.deadline,
+        progress: computeProgress(project.tasks),
+        overdueMilestones: project.milestones
+          .filter(milestone => isMilestoneOverdue(milestone))
+          .map(({ tasks, ...milestone }) => ({ ...milestone, ...computeProgress(tasks) }))
+      }))
+      .sort((a, b) => b.overdueMilestones.length - a.overdueMilestones.length);
+
+    return {
+      totalMilestones: milestones.length,
+      completedMilestones: milestones.filter(milestone => milestone.completedAt).length,
+      overdueMilestones: milestones.filter(milestone => isMilestoneOverdue(milestone)).length,
+      averageProgress: projects.length > 0
+        ? Math.round(projects.reduce((sum, project) => sum + computeProgress(project.tasks).progressPercent, 0) / projects.length)
+        : 0,
+      slippingProjects
+    };
+  }
+
+  /**
+   * Student proposals stay out of moderation until a faculty sponsor accepts
+   */
+  static isAwaitingSponsor(project: { proposedById?: string | null; sponsoredAt?: Date | null }): boolean {
+    return !!project.proposedById && !project.sponsoredAt;
+  }
+
   // Private helper methods
   private static getCapacityStatus(applicationCount: number, maxStudents: number): string {
     if (applicationCount >= maxStudents) return 'full';
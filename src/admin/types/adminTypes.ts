@@ -62,14 +62,14 @@ export interface BulkProjectOperation {
 }
 
 export interface ApplicationStatusUpdate {
-  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
+  status: ApplicationStatus;
   reason?: string;
   feedback?: string;
 }
 
 export interface BulkApplicationOperation {
   applicationIds: string[];
-  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
+  status: ApplicationStatus;
   reason?: string;
   feedback?: string;
 }
@@ -157,7 +157,8 @@ export type ProjectAuditAction =
   | "UPDATE_PROJECT_STATUS" | "BULK_PROJECT_UPDATE"
   | "UPDATE_APPLICATION_STATUS" | "BULK_APPLICATION_UPDATE"
   | "EXPORT_DATA" | "GENERATE_REPORT"
-  | "VIEW_ANALYTICS";
+  | "VIEW_ANALYTICS"
+  | "SUBMIT_PROPOSAL" | "SPONSOR_PROPOSAL_ACCEPTED" | "SPONSOR_PROPOSAL_DECLINED";
 
 export interface AuditLogData {
   adminId: string;
@@ -247,4 +247,49 @@ export class AuditLogger {
       collegeId,
     }, req);
   }
+
+  static async logProposalSubmission(
+    studentId: string,
+    studentName: string,
+    projectId: string,
+    sponsorIds: string[],
+    collegeId?: string,
+    req?: FastifyRequest
+  ) {
+    await this.log({
+      adminId: studentId,
+      adminName: studentName,
+      action: 'SUBMIT_PROPOSAL',
+      entityType: 'PROJECT',
+      entityId: projectId,
+      newValues: {
+        moderationStatus: 'PENDING_APPROVAL',
+        invitedSponsors: sponsorIds
+      },
+      collegeId,
+    }, req);
+  }
+
+  static async logSponsorshipDecision(
+    facultyId: string,
+    facultyName: string,
+    projectId: string,
+    sponsorRequestId: string,
+    decision: 'ACCEPTED' | 'DECLINED',
+    reason?: string,
+    collegeId?: string,
+    req?: FastifyRequest
+  ) {
+    await this.log({
+      adminId: facultyId,
+      adminName: facultyName,
+      action: `SPONSOR_PROPOSAL_${decision}`,
+      entityType: 'PROJECT',
+      entityId: projectId,
+      oldValues: { sponsorRequestId, status: 'PENDING' },
+      newValues: { sponsorRequestId, status: decision },
+      reason,
+      collegeId,
+    }, req);
+  }
 }
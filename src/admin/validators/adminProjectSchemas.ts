@@ -46,7 +46,7 @@ export const projectModerationSchema = z.object({
 
 // Application status update schema
 export const applicationStatusSchema = z.object({
-  status: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']),
+  status: z.enum(['PENDING', 'SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'ACCEPTED', 'OFFER_DECLINED', 'WAITLISTED', 'REJECTED']),
   reason: z.string().optional(),
   feedback: z.string().optional()
 });
@@ -58,6 +58,25 @@ function validateEnv() {
     }
   }
 
+  if (env.STORAGE_DRIVER !== 'local' && env.STORAGE_DRIVER !== 's3') {
+    throw new Error('STORAGE_DRIVER must be "local" or "s3"');
+  }
+
+  if (env.STORAGE_DRIVER === 's3') {
+    const missing = ['S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'].filter(key => !process.env[key]);
+    if (missing.length > 0) {
+      throw new Error(`STORAGE_DRIVER=s3 requires: ${missing.join(', ')}`);
+    }
+  }
+
+  if (!['none', 'clamd', 'eicar'].includes(env.MALWARE_SCANNER)) {
+    throw new Error('MALWARE_SCANNER must be "none", "clamd" or "eicar"');
+  }
+
+  if (env.EMAIL_TRANSPORT !== 'none' && env.EMAIL_TRANSPORT !== 'smtp') {
+    throw new Error('EMAIL_TRANSPORT must be "none" or "smtp"');
+  }
+
   // Validate port
   if (isNaN(env.PORT) || env.PORT < 1 || env.PORT > 65535) {
     throw new Error('PORT must be a valid port number (1-65535)');
@@ -88,6 +107,34 @@ export const env = {
   AUTH_BASE_URL: process.env.AUTH_BASE_URL ?? "https://authaws-production.up.railway.app",
   REDIS_URL: process.env.REDIS_URL,
   FRONTEND_URL: process.env.FRONTEND_URL ?? "http://localhost:3000",
+
+  // Attachment storage ("local" or "s3"; s3 also covers MinIO and other S3-compatible stores)
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER ?? "local",
+  STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR ?? "./uploads",
+  STORAGE_URL_TTL_SECONDS: Number(process.env.STORAGE_URL_TTL_SECONDS ?? 300),
+  S3_ENDPOINT: process.env.S3_ENDPOINT,
+  S3_REGION: process.env.S3_REGION ?? "us-east-1",
+  S3_BUCKET: process.env.S3_BUCKET,
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+  S3_FORCE_PATH_STYLE: (process.env.S3_FORCE_PATH_STYLE ?? "true") === "true",
+
+  // Malware scanning of uploads ("none", "clamd", or "eicar" for the test stub)
+  MALWARE_SCANNER: process.env.MALWARE_SCANNER ?? "none",
+  CLAMD_HOST: process.env.CLAMD_HOST ?? "127.0.0.1",
+  CLAMD_PORT: Number(process.env.CLAMD_PORT ?? 3310),
+  CLAMD_SOCKET: process.env.CLAMD_SOCKET,
+  CLAMD_TIMEOUT_MS: Number(process.env.CLAMD_TIMEOUT_MS ?? 60000),
+
+  // Notification email ("none" or "smtp"; the defaults match a local mail catcher such as Mailpit)
+  EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT ?? "none",
+  EMAIL_FROM: process.env.EMAIL_FROM ?? "Nexus Projects <no-reply@nexus.edu>",
+  SMTP_HOST: process.env.SMTP_HOST ?? "127.0.0.1",
+  SMTP_PORT: Number(process.env.SMTP_PORT ?? 1025),
+  SMTP_SECURE: process.env.SMTP_SECURE === "true",
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+  SMTP_TIMEOUT_MS: Number(process.env.SMTP_TIMEOUT_MS ?? 30000),
   
   // Security
   INTERNAL_API_KEY: process.env.INTERNAL_API_KEY ?? "dev-internal-key-change-in-production",
@@ -3,25 +3,56 @@ import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
 import swagger from "@fastify/swagger";
 import swaggerUI from "@fastify/swagger-ui";
+import multipart from "@fastify/multipart";
 // Removed Zod type provider - using standard JSON Schema validation
 import { adminRoutes } from "./admin/routes/index";
 import publicRoutes from "./routes/public.routes";
 import facultyRoutes from "./routes/faculty.routes";
 import studentRoutes from "./routes/student.routes";
 import collaborationRoutes from "./routes/collaboration.routes";
+import attachmentRoutes from "./routes/attachments.routes";
+import commentRoutes from "./routes/comments.routes";
+import notificationRoutes from "./routes/notifications.routes";
+import eventRoutes from "./routes/events.routes";
+import keyRoutes from "./routes/keys.routes";
+import proposalRoutes from "./routes/proposals.routes";
+import collaboratorRoutes from "./routes/collaborators.routes";
+import invitationRoutes from "./routes/invitations.routes";
+import milestoneRoutes from "./routes/milestones.routes";
+import taskDependencyRoutes from "./routes/taskDependencies.routes";
+import effortRoutes from "./routes/effort.routes";
 import projectsRoutes from "./routes/projects.routes";
 import healthRoutes from "./routes/health.routes";
 import debugRoutes from "./routes/debug.routes";
 import { env } from "./config/env";
 import { rateLimitConfig, createRedisClientForRateLimit } from "./config/rateLimits";
 import { initializeWebSocket } from "./utils/enhancedWebSocket";
-import { errorHandler, notFoundHandler, setupGracefulShutdown } from "./middlewares/errorHandler";
+import { startWaitlistOfferExpiry } from "./utils/waitlist";
+import { startPendingScanSweep } from "./utils/malwareScanning";
+import { startNotificationDigests } from "./utils/notificationEmails";
+import { startAbandonedUploadSweep } from "./utils/presignedUploads";
+import { backfillKeyLog } from "./utils/keyTransparency";
+import { errorHandler, notFoundHandler, registerBackgroundJob, setupGracefulShutdown } from "./middlewares/errorHandler";
 import { responseFormatterPlugin } from "./middlewares/responseFormatter";
-import { createRequestLoggingMiddleware } from "./utils/logger";
+import { createRequestLoggingMiddleware, redactUrl } from "./utils/logger";
 import { createSecurityHeadersMiddleware, createRequestSanitizationMiddleware } from "./middlewares/securityHeaders";
+import { FILE_VALIDATION_CONFIG } from "./middlewares/fileValidation";
 
 async function buildServer() {
-  const app = Fastify({ logger: true });
+  const app = Fastify({
+    logger: {
+      serializers: {
+        // Fastify's default request serializer, minus credentials in the query string
+        req: (request) => ({
+          method: request.method,
+          url: redactUrl(request.url),
+          hostname: request.hostname,
+          remoteAddress: request.ip,
+          remotePort: request.socket?.remotePort
+        })
+      }
+    }
+  });
 
   // Using standard Fastify JSON Schema validation
 
@@ -50,6 +81,14 @@ async function buildServer() {
     skipOnError: true
   });
 
+  // Multipart parsing for attachment uploads (one file per request, capped at the attachment size limit)
+  await app.register(multipart, {
+    limits: {
+      fileSize: FILE_VALIDATION_CONFIG.maxFileSize,
+      files: 1
+    }
+  });
+
   // Register security middleware (enterprise compliance)
   app.addHook('preHandler', createSecurityHeadersMiddleware());
   app.addHook('preHandler', createRequestSanitizationMiddleware());
@@ -71,7 +110,7 @@ async function buildServer() {
         duration,
         responseSize,
         method: request.method,
-        url: request.url
+        url: redactUrl(request.url)
       }, 'Request completed');
     }
   });
@@ -108,6 +147,14 @@ async function buildServer() {
         { name: "tasks", description: "Tasks endpoints" },
         { name: "attachments", description: "Attachments endpoints" },
         { name: "comments", description: "Comments endpoints" },
+        { name: "proposals", description: "Student proposal and faculty sponsorship endpoints" },
+        { name: "collaborators", description: "Project co-supervisor and mentor endpoints" },
+        { name: "invitations", description: "Faculty invitations to students" },
+        { name: "milestones", description: "Project milestone endpoints" },
+        { name: "effort", description: "Task time tracking endpoints" },
+        { name: "notifications", description: "Notification inbox endpoints" },
+        { name: "events", description: "Server-Sent Events stream of realtime updates" },
+        { name: "e2ee", description: "End-to-end encryption key endpoints" },
         { name: "admin", description: "Head Admin endpoints" },
         { name: "head-admin", description: "HEAD_ADMIN project management endpoints" },
         { name: "dept-admin", description: "DEPT_ADMIN project management endpoints" },
@@ -131,6 +178,17 @@ async function buildServer() {
   await app.register(facultyRoutes);
   await app.register(studentRoutes);
   await app.register(collaborationRoutes);
+  await app.register(attachmentRoutes);
+  await app.register(commentRoutes);
+  await app.register(taskDependencyRoutes);
+  await app.register(proposalRoutes);
+  await app.register(collaboratorRoutes);
+  await app.register(invitationRoutes);
+  await app.register(milestoneRoutes);
+  await app.register(effortRoutes);
+  await app.register(notificationRoutes);
+  await app.register(eventRoutes);
+  await app.register(keyRoutes);
   await app.register(adminRoutes);
   await app.register(debugRoutes);
 
@@ -142,13 +200,34 @@ buildServer()
     // Setup graceful shutdown
     setupGracefulShutdown(app);
     
-    return app.listen({ port: env.PORT, host: "0.0.0.0" }).then((address) => {
+    return app.listen({ port: env.PORT, host: "0.0.0.0" }).then(async (address) => {
       console.log(`Projects service listening at ${address}`);
       
       // Initialize enhanced WebSocket after server starts
       const server = app.server;
-      initializeWebSocket(server);
+      await initializeWebSocket(server);
       console.log("Enhanced WebSocket initialized for real-time project updates");
+
+      // Expire unanswered waitlist offers and pass their slots on
+      registerBackgroundJob(startWaitlistOfferExpiry());
+
+      // Rescan uploads whose background malware scan never finished
+      registerBackgroundJob(startPendingScanSweep());
+
+      // Email daily/weekly digests of unread notifications
+      registerBackgroundJob(startNotificationDigests());
+
+      // Delete objects of presigned uploads that were never completed
+      registerBackgroundJob(startAbandonedUploadSweep());
+
+      // Log device keys registered before the key transparency log existed
+      backfillKeyLog()
+        .then(count => {
+          if (count > 0) console.log(`🔑 Logged ${count} existing device keys in the key transparency log`);
+        })
+        .catch(error => {
+          console.error('Key transparency backfill failed:', error);
+        });
       
       return address;
     });
@@ -15,13 +15,13 @@ export const adminSchemas = {
   }),
 
   applicationStatusUpdate: z.object({
-    status: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']),
+    status: z.enum(['PENDING', 'SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'ACCEPTED', 'OFFER_DECLINED', 'WAITLISTED', 'REJECTED']),
     reason: z.string().min(1).max(500).optional()
   }),
 
   bulkApplicationOperation: z.object({
     applicationIds: z.array(z.string().cuid()).min(1).max(50), // Limit bulk operations
-    status: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']),
+    status: z.enum(['PENDING', 'SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'ACCEPTED', 'OFFER_DECLINED', 'WAITLISTED', 'REJECTED']),
     reason: z.string().min(1).max(500)
   }),
 
@@ -49,6 +49,18 @@ export const adminSchemas = {
     projectId: z.string().cuid().optional(),
     startDate: z.string().datetime().optional(),
     endDate: z.string().datetime().optional()
+  }),
+
+  // Limits in MB; null restores the default
+  storageQuotaUpdate: z.object({
+    collegeLimitMb: z.number().int().min(1).max(10_000_000).nullable().optional(),
+    uploaderLimitMb: z.number().int().min(1).max(1_000_000).nullable().optional(),
+    projectLimitsMb: z.object({
+      PROJECT: z.number().int().min(1).max(1_000_000).optional(),
+      RESEARCH: z.number().int().min(1).max(1_000_000).optional(),
+      PAPER_PUBLISH: z.number().int().min(1).max(1_000_000).optional(),
+      OTHER: z.number().int().min(1).max(1_000_000).optional()
+    }).strict().nullable().optional()
   })
 };
 
@@ -196,3 +208,4 @@ export const validateApplicationStatusUpdate = createAdminValidationMiddleware(a
 export const validateBulkApplicationOperation = createAdminValidationMiddleware(adminSchemas.bulkApplicationOperation);
 export const validateProjectUpdate = createAdminValidationMiddleware(adminSchemas.projectUpdate);
 export const validateExportQuery = createAdminValidationMiddleware(adminSchemas.exportQuery);
+export const validateStorageQuotaUpdate = createAdminValidationMiddleware(adminSchemas.storageQuotaUpdate);
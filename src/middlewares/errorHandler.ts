@@ -1,5 +1,6 @@
 import { FastifyRequest, FastifyReply, FastifyError } from "fastify";
 import { env } from "../config/env";
+import { redactUrl } from "../utils/logger";
 
 // Enhanced error handler with proper logging and sanitization
 export async function errorHandler(error: FastifyError, request: FastifyRequest, reply: FastifyReply) {
@@ -11,7 +12,7 @@ export async function errorHandler(error: FastifyError, request: FastifyRequest,
     timestamp,
     requestId,
     method: request.method,
-    url: request.url,
+    url: redactUrl(request.url),
     statusCode: error.statusCode || 500,
     error: {
       name: error.name,
@@ -144,7 +145,7 @@ export async function notFoundHandler(request: FastifyRequest, reply: FastifyRep
     timestamp,
     requestId,
     method: request.method,
-    url: request.url,
+    url: redactUrl(request.url),
     ip: request.ip,
     userAgent: request.headers['user-agent']
   });
@@ -152,18 +153,31 @@ export async function notFoundHandler(request: FastifyRequest, reply: FastifyRep
   reply.status(404).send({
     success: false,
     error: 'Route not found',
-    message: `${request.method} ${request.url} not found`,
+    message: `${request.method} ${redactUrl(request.url)} not found`,
     timestamp,
     requestId
   });
 }
 
+// Periodic background jobs, stopped before shutdown so none runs against closed connections
+const backgroundJobs = new Set<NodeJS.Timeout>();
+
+export function registerBackgroundJob(timer: NodeJS.Timeout | undefined) {
+  if (timer) backgroundJobs.add(timer);
+  return timer;
+}
+
 // Graceful shutdown handler
 export function setupGracefulShutdown(app: any) {
   const gracefulShutdown = async (signal: string) => {
     console.log(`Received ${signal}, starting graceful shutdown...`);
     
     try {
+      for (const timer of backgroundJobs) {
+        clearInterval(timer);
+      }
+      backgroundJobs.clear();
+
       // Close server first to stop accepting new requests
       await app.close();
       console.log('Server closed successfully');
@@ -185,6 +199,15 @@ export function setupGracefulShutdown(app: any) {
         console.warn('Cache Redis cleanup warning:', redisError);
       }
 
+      // Drop this instance's WebSocket presence and close the adapter's Redis clients
+      try {
+        const { closeSocketCluster } = await import('../utils/socketCluster');
+        await closeSocketCluster();
+        console.log('WebSocket cluster connections closed');
+      } catch (socketClusterError) {
+        console.warn('WebSocket cluster cleanup warning:', socketClusterError);
+      }
+
       // Close rate limiting Redis client if available
       try {
         const { createRedisClientForRateLimit } = await import('../config/rateLimits');
@@ -1,4 +1,5 @@
 import { FastifyRequest, FastifyReply } from "fastify";
+import { env } from "../config/env";
 
 // File validation configuration
 export const FILE_VALIDATION_CONFIG = {
@@ -58,8 +59,8 @@ export const FILE_VALIDATION_CONFIG = {
   // Maximum filename length
   maxFilenameLength: 255,
   
-  // Virus scanning configuration (placeholder for future implementation)
-  virusScanEnabled: false
+  // Uploaded files are scanned asynchronously (see utils/malwareScanning); links are not fetched
+  virusScanEnabled: env.MALWARE_SCANNER !== 'none'
 };
 
 /**
@@ -72,7 +73,47 @@ export async function validateFileUpload(
   fileSize?: number
 ): Promise<{ isValid: boolean; error?: string }> {
   
-  // Validate filename
+  const nameValidation = validateFileName(fileName);
+  if (!nameValidation.isValid) {
+    return nameValidation;
+  }
+  
+  const fileExtension = getFileExtension(fileName).toLowerCase();
+  
+  // Validate MIME type
+  if (!fileType || !FILE_VALIDATION_CONFIG.allowedMimeTypes.includes(fileType.toLowerCase())) {
+    return { isValid: false, error: `File type ${fileType} not allowed` };
+  }
+  
+  // Cross-check MIME type with file extension
+  if (!isMimeTypeMatchingExtension(fileType, fileExtension)) {
+    return { isValid: false, error: 'File type does not match file extension' };
+  }
+  
+  // Validate file URL (basic check)
+  if (!fileUrl || !isValidUrl(fileUrl)) {
+    return { isValid: false, error: 'Invalid file URL' };
+  }
+  
+  // Validate file size if provided
+  if (fileSize !== undefined) {
+    if (fileSize > FILE_VALIDATION_CONFIG.maxFileSize) {
+      const maxSizeMB = FILE_VALIDATION_CONFIG.maxFileSize / (1024 * 1024);
+      return { isValid: false, error: `File size exceeds maximum allowed size of ${maxSizeMB}MB` };
+    }
+    
+    if (fileSize <= 0) {
+      return { isValid: false, error: 'File size must be greater than 0' };
+    }
+  }
+  
+  return { isValid: true };
+}
+
+/**
+ * Validates a filename and its extension
+ */
+export function validateFileName(fileName: string): { isValid: boolean; error?: string } {
   if (!fileName || fileName.trim().length === 0) {
     return { isValid: false, error: 'Filename is required' };
   }
@@ -87,7 +128,6 @@ export async function validateFileUpload(
     return { isValid: false, error: 'Filename contains invalid characters' };
   }
   
-  // Validate file extension
   const fileExtension = getFileExtension(fileName).toLowerCase();
   
   if (FILE_VALIDATION_CONFIG.blockedExtensions.includes(fileExtension)) {
@@ -98,39 +138,38 @@ export async function validateFileUpload(
     return { isValid: false, error: `File extension ${fileExtension} not allowed` };
   }
   
-  // Validate MIME type
-  if (!fileType || !FILE_VALIDATION_CONFIG.allowedMimeTypes.includes(fileType.toLowerCase())) {
-    return { isValid: false, error: `File type ${fileType} not allowed` };
+  return { isValid: true };
+}
+
+/**
+ * Validates bytes the service received itself. Unlike validateFileUpload, the MIME type
+ * here comes from detectMimeType rather than from the client.
+ */
+export function validateStoredFile(
+  fileName: string,
+  detectedMimeType: string,
+  fileSize: number
+): { isValid: boolean; error?: string } {
+  const nameValidation = validateFileName(fileName);
+  if (!nameValidation.isValid) {
+    return nameValidation;
   }
   
-  // Cross-check MIME type with file extension
-  if (!isMimeTypeMatchingExtension(fileType, fileExtension)) {
-    return { isValid: false, error: 'File type does not match file extension' };
+  if (!FILE_VALIDATION_CONFIG.allowedMimeTypes.includes(detectedMimeType)) {
+    return { isValid: false, error: `File content (${detectedMimeType}) is not an allowed type` };
   }
   
-  // Validate file URL (basic check)
-  if (!fileUrl || !isValidUrl(fileUrl)) {
-    return { isValid: false, error: 'Invalid file URL' };
+  if (!isMimeTypeMatchingExtension(detectedMimeType, getFileExtension(fileName))) {
+    return { isValid: false, error: 'File content does not match file extension' };
   }
   
-  // Validate file size if provided
-  if (fileSize !== undefined) {
-    if (fileSize > FILE_VALIDATION_CONFIG.maxFileSize) {
-      const maxSizeMB = FILE_VALIDATION_CONFIG.maxFileSize / (1024 * 1024);
-      return { isValid: false, error: `File size exceeds maximum allowed size of ${maxSizeMB}MB` };
-    }
-    
-    if (fileSize <= 0) {
-      return { isValid: false, error: 'File size must be greater than 0' };
-    }
+  if (fileSize <= 0) {
+    return { isValid: false, error: 'File size must be greater than 0' };
   }
   
-  // TODO: Implement virus scanning
-  if (FILE_VALIDATION_CONFIG.virusScanEnabled) {
-    const scanResult = await scanForViruses(fileUrl);
-    if (!scanResult.clean) {
-      return { isValid: false, error: 'File failed security scan' };
-    }
+  if (fileSize > FILE_VALIDATION_CONFIG.maxFileSize) {
+    const maxSizeMB = FILE_VALIDATION_CONFIG.maxFileSize / (1024 * 1024);
+    return { isValid: false, error: `File size exceeds maximum allowed size of ${maxSizeMB}MB` };
   }
   
   return { isValid: true };
@@ -229,16 +268,78 @@ function isMimeTypeMatchingExtension(mimeType: string, extension: string): boole
   return expectedExtensions ? expectedExtensions.includes(extension.toLowerCase()) : true;
 }
 
-// Placeholder for virus scanning (to be implemented with actual antivirus service)
-async function scanForViruses(fileUrl: string): Promise<{ clean: boolean; details?: string }> {
-  // TODO: Implement actual virus scanning
-  // This could integrate with services like:
-  // - ClamAV
-  // - VirusTotal API
-  // - AWS GuardDuty
-  // - Azure Defender
-  
-  return { clean: true };
+// Magic-byte signatures, checked in order against the start of the file
+const MAGIC_SIGNATURES: { mimeType: string; offset?: number; bytes: number[] }[] = [
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { mimeType: 'application/x-rar-compressed', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { mimeType: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mimeType: 'application/x-ole-storage', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { mimeType: 'application/x-msdownload', bytes: [0x4d, 0x5a] },
+  { mimeType: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] }
+];
+
+// Office formats are containers; the extension only picks between formats of the same container
+const CONTAINER_SUBTYPES: { [container: string]: { [extension: string]: string } } = {
+  'application/zip': {
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  },
+  'application/x-ole-storage': {
+    '.doc': 'application/msword',
+    '.xls': 'application/vnd.ms-excel',
+    '.ppt': 'application/vnd.ms-powerpoint'
+  }
+};
+
+// Text formats have no signature; UTF-8 content is typed by extension
+const TEXT_TYPES_BY_EXTENSION: { [extension: string]: string } = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.xml': 'application/xml',
+  '.svg': 'image/svg+xml'
+};
+
+/**
+ * Detects a file's MIME type from its leading bytes (the first few KB are enough)
+ */
+export function detectMimeType(head: Buffer, fileName: string): string {
+  const extension = getFileExtension(fileName).toLowerCase();
+
+  const signature = MAGIC_SIGNATURES.find(({ offset = 0, bytes }) =>
+    head.length >= offset + bytes.length && bytes.every((byte, i) => head[offset + i] === byte)
+  );
+
+  if (signature) {
+    return CONTAINER_SUBTYPES[signature.mimeType]?.[extension] ?? signature.mimeType;
+  }
+
+  if (isUtf8Text(head)) {
+    return TEXT_TYPES_BY_EXTENSION[extension] ?? 'text/plain';
+  }
+
+  return 'application/octet-stream';
+}
+
+function isUtf8Text(head: Buffer): boolean {
+  if (head.includes(0)) return false;
+
+  // A multi-byte character may be cut off at the end of the sample
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(head.subarray(0, Math.max(0, head.length - 3)));
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 // File type detection utilities
@@ -1,5 +1,6 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { env } from '../config/env';
+import { redactUrl } from '../utils/logger';
 
 /**
  * Enterprise Security Headers Middleware
@@ -215,7 +216,7 @@ export function logSecurityEvent(
     event,
     ip: request.ip,
     userAgent: request.headers['user-agent'],
-    url: request.url,
+    url: redactUrl(request.url),
     method: request.method,
     correlationId: (request as any).correlationId,
     ...details
@@ -0,0 +1,945 @@
+import { FastifyInstance } from "fastify";
+import type { Project, ProjectAttachment } from "@prisma/client";
+import { requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { env } from "../config/env";
+import { FILE_VALIDATION_CONFIG, validateFileName, validateStoredFile } from "../middlewares/fileValidation";
+import { rateLimitFileUpload } from "../middlewares/rateLimitMiddleware";
+import { emitProjectUpdate } from "../utils/enhancedWebSocket";
+import { initialScanStatus, isAwaitingScan, isQuarantined, queueAttachmentScan } from "../utils/malwareScanning";
+import { StorageQuotaExceededError, assertStorageQuota, lockStorageQuota } from "../utils/storageQuota";
+import { findPresignedUpload, releasePresignedUpload, trackPresignedUpload } from "../utils/presignedUploads";
+import { getProjectAccess, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import {
+  AttachmentFileFields,
+  addAttachmentVersion,
+  ensureInitialVersion,
+  restoreAttachmentVersion
+} from "../utils/attachmentVersions";
+import {
+  FileInspection,
+  attachmentKeyPrefix,
+  createAttachmentKey,
+  getStorage,
+  inspectFile,
+  inspectStoredObject,
+  storageUri,
+  withDownloadUrl
+} from "../utils/storage";
+
+/**
+ * File fields for an object that is already in storage
+ */
+function storedFileFields(storageKey: string, fileName: string, inspection: FileInspection): AttachmentFileFields {
+  return {
+    fileName,
+    fileUrl: storageUri(getStorage(), storageKey),
+    fileType: inspection.mimeType,
+    fileSize: inspection.size,
+    checksum: inspection.checksum,
+    storageDriver: getStorage().name,
+    storageKey,
+    scanStatus: initialScanStatus()
+  };
+}
+
+/**
+ * Read the single multipart file part, validate its bytes and write it to storage
+ */
+async function storeMultipartUpload(
+  req: any,
+  project: Project,
+  uploaderId: string
+): Promise<{ isValid: boolean; error?: string; file?: AttachmentFileFields }> {
+  const part = await req.file();
+
+  if (!part) {
+    return { isValid: false, error: "A file part is required" };
+  }
+
+  const body: Buffer = await part.toBuffer();
+  const inspection = inspectFile(body, part.filename);
+  const validation = validateStoredFile(part.filename, inspection.mimeType, inspection.size);
+
+  if (!validation.isValid) {
+    return validation;
+  }
+
+  // Early check so a file over quota is never written; recordStoredFile checks again under lock
+  await assertStorageQuota(project, uploaderId, inspection.size);
+
+  const storageKey = createAttachmentKey(project.id, uploaderId, part.filename);
+  await getStorage().put(storageKey, body, inspection.mimeType);
+
+  return { isValid: true, file: storedFileFields(storageKey, part.filename, inspection) };
+}
+
+/**
+ * Only the original uploader or project supervisors can change an attachment
+ */
+async function canModifyAttachment(attachment: ProjectAttachment & { project: Project }, userId: string) {
+  return attachment.uploaderId === userId ||
+    hasProjectPermission(await getProjectRole(attachment.project, userId), 'moderateContent');
+}
+
+/**
+ * 413 response for an upload that would take a storage quota over its limit
+ */
+function sendStorageQuotaExceeded(reply: any, error: StorageQuotaExceededError) {
+  return reply.status(413).send({
+    success: false,
+    error: error.message,
+    code: error.code,
+    quota: error.details
+  });
+}
+
+/**
+ * Record a new attachment, or a new version of an existing one, and announce it.
+ * Throws StorageQuotaExceededError if the file no longer fits its quotas.
+ */
+async function recordStoredFile(
+  project: Project,
+  user: any,
+  file: AttachmentFileFields,
+  existing?: ProjectAttachment
+) {
+  const { attachment, version } = await prisma.$transaction(async (tx) => {
+    await lockStorageQuota(tx, project.collegeId);
+    await assertStorageQuota(project, user.sub, file.fileSize ?? 0, tx);
+
+    if (existing) {
+      return addAttachmentVersion(tx, existing, user.sub, file);
+    }
+
+    const created = await tx.projectAttachment.create({
+      data: { projectId: project.id, uploaderId: user.sub, ...file }
+    });
+
+    return {
+      attachment: created,
+      version: await tx.projectAttachmentVersion.create({
+        data: { attachmentId: created.id, version: 1, uploaderId: user.sub, ...file }
+      })
+    };
+  });
+
+  queueAttachmentScan(version.id);
+
+  console.log('[attachments] Stored attachment file:', {
+    id: attachment.id,
+    version: attachment.currentVersion,
+    projectId: project.id,
+    storageDriver: file.storageDriver,
+    fileSize: file.fileSize,
+    fileType: file.fileType
+  });
+
+  const uploadedBy = {
+    id: user.sub,
+    name: user.displayName || user.scope?.displayName || user.name || "Unknown User"
+  };
+
+  emitProjectUpdate({
+    type: existing ? 'file-updated' : 'file-uploaded',
+    projectId: project.id,
+    collegeId: project.collegeId,
+    departments: project.departments,
+    visibleToAllDepts: project.visibleToAllDepts,
+    attachment: {
+      id: attachment.id,
+      fileName: attachment.fileName,
+      fileType: attachment.fileType,
+      version: attachment.currentVersion,
+      scanStatus: attachment.scanStatus,
+      uploadedBy: uploadedBy.name
+    },
+    ...(existing ? { updatedBy: uploadedBy } : { createdBy: uploadedBy }),
+    timestamp: new Date().toISOString()
+  });
+
+  return withDownloadUrl(attachment);
+}
+
+/**
+ * Serve a stored file: redirect to a presigned URL when the driver has them, otherwise stream it
+ */
+async function sendStoredFile(reply: any, file: AttachmentFileFields, redirect: boolean) {
+  // Link-only attachments point at a user-supplied URL; hand it back rather than redirect to it
+  if (!file.storageKey) {
+    return reply.send({ success: true, data: { url: file.fileUrl, external: true } });
+  }
+
+  if (isAwaitingScan(file.scanStatus)) {
+    return reply.status(409).send({
+      success: false,
+      error: "This file is still being scanned for malware. Try again shortly."
+    });
+  }
+
+  if (isQuarantined(file.scanStatus)) {
+    return reply.status(403).send({
+      success: false,
+      error: "This file has been quarantined and cannot be downloaded"
+    });
+  }
+
+  const storage = getStorage();
+
+  if (file.storageDriver !== storage.name) {
+    console.error(`[attachments] ${file.storageKey} is stored with ${file.storageDriver}, but ${storage.name} is configured`);
+    return reply.status(503).send({
+      success: false,
+      error: "Attachment storage is not available"
+    });
+  }
+
+  if (storage.getDownloadUrl) {
+    const url = await storage.getDownloadUrl(file.storageKey, file.fileName, env.STORAGE_URL_TTL_SECONDS);
+
+    if (!redirect) {
+      return reply.send({
+        success: true,
+        data: {
+          url,
+          expiresAt: new Date(Date.now() + env.STORAGE_URL_TTL_SECONDS * 1000).toISOString()
+        }
+      });
+    }
+    return reply.redirect(url);
+  }
+
+  const stream = await storage.get(file.storageKey);
+
+  reply.header('Content-Type', file.fileType);
+  reply.header('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+  reply.header('X-Content-Type-Options', 'nosniff');
+  if (file.fileSize) reply.header('Content-Length', file.fileSize);
+  if (file.checksum) reply.header('Digest', `sha-256=${Buffer.from(file.checksum, 'hex').toString('base64')}`);
+
+  return reply.send(stream);
+}
+
+export default async function attachmentRoutes(app: FastifyInstance) {
+
+  // Upload a file (multipart/form-data, single "file" part) - Project members only
+  app.post("/v1/projects/:id/attachments/upload", {
+    preHandler: [rateLimitFileUpload],
+    schema: {
+      tags: ["attachments"],
+      consumes: ['multipart/form-data'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const upload = await storeMultipartUpload(req, project, user.sub);
+
+      if (!upload.isValid || !upload.file) {
+        return reply.status(400).send({
+          success: false,
+          error: upload.error,
+          code: 'FILE_VALIDATION_FAILED'
+        });
+      }
+
+      try {
+        const attachment = await recordStoredFile(project, user, upload.file);
+
+        return reply.status(201).send({
+          success: true,
+          data: { attachment }
+        });
+      } catch (error) {
+        await getStorage().delete(upload.file.storageKey!).catch(() => undefined);
+        throw error;
+      }
+    } catch (error: any) {
+      console.error("Error uploading attachment file:", error);
+
+      if (error instanceof StorageQuotaExceededError) {
+        return sendStorageQuotaExceeded(reply, error);
+      }
+
+      if (error.code === 'FST_REQ_FILE_TOO_LARGE') {
+        const maxSizeMB = FILE_VALIDATION_CONFIG.maxFileSize / (1024 * 1024);
+        return reply.status(413).send({
+          success: false,
+          error: `File size exceeds maximum allowed size of ${maxSizeMB}MB`
+        });
+      }
+
+      if (error.code === 'FST_INVALID_MULTIPART_CONTENT_TYPE') {
+        return reply.status(400).send({
+          success: false,
+          error: "Request must be multipart/form-data"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to upload attachment"
+      });
+    }
+  });
+
+  // Start a direct-to-storage upload (S3 driver only) - Project members only
+  app.post("/v1/projects/:id/attachments/presign", {
+    preHandler: [rateLimitFileUpload],
+    schema: {
+      tags: ["attachments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          fileName: { type: 'string', minLength: 1, maxLength: 255 },
+          fileSize: { type: 'integer', minimum: 1, maximum: FILE_VALIDATION_CONFIG.maxFileSize }
+        },
+        required: ['fileName', 'fileSize']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+      const { fileName, fileSize } = req.body;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const storage = getStorage();
+
+      if (!storage.getUploadUrl) {
+        return reply.status(400).send({
+          success: false,
+          error: "Presigned uploads are not available with this storage driver. Use multipart upload instead."
+        });
+      }
+
+      const validation = validateFileName(fileName);
+
+      if (!validation.isValid) {
+        return reply.status(400).send({
+          success: false,
+          error: validation.error,
+          code: 'FILE_VALIDATION_FAILED'
+        });
+      }
+
+      // Checked again against the real size when the upload is completed
+      await assertStorageQuota(project, user.sub, fileSize);
+
+      const storageKey = createAttachmentKey(projectId, user.sub, fileName);
+      const uploadUrl = await storage.getUploadUrl(storageKey, env.STORAGE_URL_TTL_SECONDS, fileSize);
+      const expiresAt = new Date(Date.now() + env.STORAGE_URL_TTL_SECONDS * 1000);
+
+      await trackPresignedUpload({ storageKey, projectId, uploaderId: user.sub, fileSize, expiresAt });
+
+      return reply.send({
+        success: true,
+        data: {
+          method: 'PUT',
+          uploadUrl,
+          // The URL is signed for exactly the declared size
+          headers: { 'Content-Length': String(fileSize) },
+          storageKey,
+          expiresAt: expiresAt.toISOString()
+        }
+      });
+    } catch (error: any) {
+      console.error("Error presigning attachment upload:", error);
+
+      if (error instanceof StorageQuotaExceededError) {
+        return sendStorageQuotaExceeded(reply, error);
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to start upload"
+      });
+    }
+  });
+
+  // Finish a presigned upload: the stored bytes are inspected before the attachment is recorded.
+  // Pass attachmentId to record the upload as a new version of an existing attachment.
+  app.post("/v1/projects/:id/attachments/complete", {
+    schema: {
+      tags: ["attachments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          storageKey: { type: 'string', minLength: 1 },
+          fileName: { type: 'string', minLength: 1, maxLength: 255 },
+          attachmentId: { type: 'string' }
+        },
+        required: ['storageKey', 'fileName']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+      const { storageKey, fileName, attachmentId } = req.body;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      // Only keys issued to this user for this project can be claimed, and only once
+      if (!storageKey.startsWith(attachmentKeyPrefix(projectId, user.sub)) || storageKey.includes('..')) {
+        return reply.status(400).send({
+          success: false,
+          error: "Invalid storage key"
+        });
+      }
+
+      const alreadyRecorded = await prisma.projectAttachmentVersion.findUnique({
+        where: { storageKey },
+        select: { id: true }
+      });
+
+      if (alreadyRecorded) {
+        return reply.status(409).send({
+          success: false,
+          error: "This upload has already been completed"
+        });
+      }
+
+      const pendingUpload = await findPresignedUpload(storageKey, projectId, user.sub);
+
+      if (!pendingUpload) {
+        return reply.status(400).send({
+          success: false,
+          error: "No pending upload was found for this storage key"
+        });
+      }
+
+      let existing: ProjectAttachment | undefined;
+      if (attachmentId) {
+        const attachment = await prisma.projectAttachment.findFirst({
+          where: { id: attachmentId, projectId },
+          include: { project: true }
+        });
+
+        if (!attachment) {
+          return reply.status(404).send({
+            success: false,
+            error: "Attachment not found"
+          });
+        }
+
+        if (!(await canModifyAttachment(attachment, user.sub))) {
+          return reply.status(403).send({
+            success: false,
+            error: "Only the uploader or project supervisors can add versions to this attachment"
+          });
+        }
+
+        existing = attachment;
+      }
+
+      const inspection = await inspectStoredObject(storageKey, fileName);
+      const validation = inspection.size === pendingUpload.fileSize
+        ? validateStoredFile(fileName, inspection.mimeType, inspection.size)
+        : { isValid: false, error: "Uploaded file size does not match the size declared for this upload" };
+
+      if (!validation.isValid) {
+        await getStorage().delete(storageKey);
+        await releasePresignedUpload(storageKey);
+        return reply.status(400).send({
+          success: false,
+          error: validation.error,
+          code: 'FILE_VALIDATION_FAILED'
+        });
+      }
+
+      let attachment;
+      try {
+        attachment = await recordStoredFile(project, user, storedFileFields(storageKey, fileName, inspection), existing);
+      } catch (error) {
+        if (error instanceof StorageQuotaExceededError) {
+          await getStorage().delete(storageKey);
+          await releasePresignedUpload(storageKey);
+        }
+        throw error;
+      }
+      await releasePresignedUpload(storageKey);
+
+      return reply.status(201).send({
+        success: true,
+        data: { attachment }
+      });
+    } catch (error: any) {
+      console.error("Error completing attachment upload:", error);
+
+      if (error instanceof StorageQuotaExceededError) {
+        return sendStorageQuotaExceeded(reply, error);
+      }
+
+      if (error.message === "OBJECT_NOT_FOUND") {
+        return reply.status(400).send({
+          success: false,
+          error: "No uploaded file was found for this storage key"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to complete upload"
+      });
+    }
+  });
+
+  // Download the current version of an attachment - Project members only, checked on every request
+  app.get("/v1/attachments/:id/download", {
+    schema: {
+      tags: ["attachments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          // false returns the short-lived URL as JSON instead of redirecting (S3 driver)
+          redirect: { type: 'boolean', default: true }
+        }
+      }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+      const { redirect } = req.query as any;
+
+      const attachment = await prisma.projectAttachment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!attachment) {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment not found"
+        });
+      }
+
+      const role = await getProjectRole(attachment.project, user.sub);
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      return sendStoredFile(reply, attachment, redirect);
+    } catch (error: any) {
+      console.error("Error downloading attachment:", error);
+
+      if (error.message === "OBJECT_NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment file is missing from storage"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to download attachment"
+      });
+    }
+  });
+
+  // Version history of an attachment - Project members only
+  app.get("/v1/attachments/:id/versions", {
+    schema: {
+      tags: ["attachments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const attachment = await prisma.projectAttachment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!attachment) {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment not found"
+        });
+      }
+
+      const role = await getProjectRole(attachment.project, user.sub);
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      await ensureInitialVersion(prisma, attachment);
+
+      const versions = await prisma.projectAttachmentVersion.findMany({
+        where: { attachmentId: id },
+        orderBy: { version: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          currentVersion: attachment.currentVersion,
+          versions: versions.map(version => ({
+            ...version,
+            isCurrent: version.version === attachment.currentVersion,
+            downloadUrl: version.storageKey
+              ? `/v1/attachments/${id}/versions/${version.version}/download`
+              : version.fileUrl
+          }))
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching attachment versions:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch attachment versions"
+      });
+    }
+  });
+
+  // Upload a new version (multipart/form-data, single "file" part) - Uploader or project supervisors
+  app.post("/v1/attachments/:id/versions", {
+    preHandler: [rateLimitFileUpload],
+    schema: {
+      tags: ["attachments"],
+      consumes: ['multipart/form-data'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const attachment = await prisma.projectAttachment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!attachment) {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment not found"
+        });
+      }
+
+      if (!(await canModifyAttachment(attachment, user.sub))) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only the uploader or project supervisors can add versions to this attachment"
+        });
+      }
+
+      const upload = await storeMultipartUpload(req, attachment.project, user.sub);
+
+      if (!upload.isValid || !upload.file) {
+        return reply.status(400).send({
+          success: false,
+          error: upload.error,
+          code: 'FILE_VALIDATION_FAILED'
+        });
+      }
+
+      try {
+        const updated = await recordStoredFile(attachment.project, user, upload.file, attachment);
+
+        return reply.status(201).send({
+          success: true,
+          data: { attachment: updated }
+        });
+      } catch (error) {
+        await getStorage().delete(upload.file.storageKey!).catch(() => undefined);
+        throw error;
+      }
+    } catch (error: any) {
+      console.error("Error uploading attachment version:", error);
+
+      if (error instanceof StorageQuotaExceededError) {
+        return sendStorageQuotaExceeded(reply, error);
+      }
+
+      if (error.code === 'FST_REQ_FILE_TOO_LARGE') {
+        const maxSizeMB = FILE_VALIDATION_CONFIG.maxFileSize / (1024 * 1024);
+        return reply.status(413).send({
+          success: false,
+          error: `File size exceeds maximum allowed size of ${maxSizeMB}MB`
+        });
+      }
+
+      if (error.code === 'FST_INVALID_MULTIPART_CONTENT_TYPE') {
+        return reply.status(400).send({
+          success: false,
+          error: "Request must be multipart/form-data"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to upload attachment version"
+      });
+    }
+  });
+
+  // Download a specific version - Project members only
+  app.get("/v1/attachments/:id/versions/:version/download", {
+    schema: {
+      tags: ["attachments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          version: { type: 'integer', minimum: 1 }
+        },
+        required: ['id', 'version']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          redirect: { type: 'boolean', default: true }
+        }
+      }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id, version: versionNumber } = req.params;
+      const { redirect } = req.query as any;
+
+      const attachment = await prisma.projectAttachment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!attachment) {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment not found"
+        });
+      }
+
+      const role = await getProjectRole(attachment.project, user.sub);
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      await ensureInitialVersion(prisma, attachment);
+
+      const version = await prisma.projectAttachmentVersion.findUnique({
+        where: { attachmentId_version: { attachmentId: id, version: versionNumber } }
+      });
+
+      if (!version) {
+        return reply.status(404).send({
+          success: false,
+          error: "Version not found"
+        });
+      }
+
+      return sendStoredFile(reply, version, redirect);
+    } catch (error: any) {
+      console.error("Error downloading attachment version:", error);
+
+      if (error.message === "OBJECT_NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment file is missing from storage"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to download attachment version"
+      });
+    }
+  });
+
+  // Make an earlier version current again - Uploader or project supervisors
+  app.post("/v1/attachments/:id/versions/:version/restore", {
+    schema: {
+      tags: ["attachments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          version: { type: 'integer', minimum: 1 }
+        },
+        required: ['id', 'version']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id, version: versionNumber } = req.params;
+
+      const attachment = await prisma.projectAttachment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!attachment) {
+        return reply.status(404).send({
+          success: false,
+          error: "Attachment not found"
+        });
+      }
+
+      if (!(await canModifyAttachment(attachment, user.sub))) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only the uploader or project supervisors can restore versions of this attachment"
+        });
+      }
+
+      const { attachment: restored } = await prisma.$transaction(tx =>
+        restoreAttachmentVersion(tx, attachment, versionNumber)
+      );
+
+      emitProjectUpdate({
+        type: 'file-updated',
+        projectId: attachment.projectId,
+        collegeId: attachment.project.collegeId,
+        departments: attachment.project.departments,
+        visibleToAllDepts: attachment.project.visibleToAllDepts,
+        attachment: {
+          id: restored.id,
+          fileName: restored.fileName,
+          fileType: restored.fileType,
+          version: restored.currentVersion,
+          restored: true
+        },
+        updatedBy: {
+          id: user.sub,
+          name: user.displayName || user.scope?.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        data: { attachment: withDownloadUrl(restored) }
+      });
+    } catch (error: any) {
+      console.error("Error restoring attachment version:", error);
+
+      if (error.message === "VERSION_NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Version not found"
+        });
+      }
+
+      if (error.message === "VERSION_QUARANTINED") {
+        return reply.status(400).send({
+          success: false,
+          error: "Quarantined versions cannot be restored"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to restore attachment version"
+      });
+    }
+  });
+}
@@ -1,11 +1,29 @@
 import { FastifyInstance } from "fastify";
-import { requireFacultyOrStudent, requireFaculty, canAccessProject } from "../middlewares/unifiedAuth";
-import { fileUploadValidationMiddleware } from "../middlewares/fileValidation";
+import { requireFacultyOrStudent, canAccessProject } from "../middlewares/unifiedAuth";
+import { fileUploadValidationMiddleware, validateFileUpload } from "../middlewares/fileValidation";
 import { rateLimitFileUpload } from "../middlewares/rateLimitMiddleware";
 import { prisma } from "../db";
 import { emitProjectUpdate } from "../utils/enhancedWebSocket";
 import { CacheInvalidation } from "../utils/cacheInvalidation";
 import { getUserIdentity } from "../clients/auth";
+import { canCreateTasks, getProjectAccess, getProjectMembers, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import { syncMilestoneCompletion } from "../utils/milestones";
+import {
+  compactTaskColumn,
+  findInvalidAssignees,
+  moveTask,
+  notifyNewAssignees,
+  reserveTaskPosition,
+  resolveAssigneeIds,
+  toTaskEventPayload,
+  validateParentTask
+} from "../utils/tasks";
+import { STARTED_TASK_STATUSES, computeBlockedTaskIds, getOpenBlockers } from "../utils/taskDependencies";
+import { getStorage, withDownloadUrl } from "../utils/storage";
+import { addAttachmentVersion } from "../utils/attachmentVersions";
+import { presentComment, resolveThreadParent } from "../utils/comments";
+import { notifyMentionedUsers, resolveMentions } from "../utils/mentions";
+import { getProjectPresence } from "../utils/projectPresence";
 
 export default async function collaborationRoutes(app: FastifyInstance) {
   
@@ -28,21 +46,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       const { id: projectId } = req.params;
 
       // Verify project membership
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED'
-            },
-            select: {
-              studentId: true,
-              studentName: true,
-              studentDepartment: true
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -51,54 +55,30 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      // Check if user is project author or accepted member
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.some(app => 
-        app.studentId === user.sub
-      ); // No need to check status since query already filters by ACCEPTED
-
-      if (!isAuthor && !isAcceptedMember) {
+      // Check if user is an owner, collaborator or accepted member
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
         });
       }
 
-      // Build members list with fallback for "Unknown Student"
-      const members = [
-        // Project author (faculty)
-        {
-          id: project.authorId,
-          name: project.authorName,
-          role: 'faculty',
-          department: project.authorDepartment
-        }
-      ];
-
-      // Process accepted students and fetch real names if needed
-      for (const app of project.applications) {
-        let studentName = app.studentName;
-        
-        // If student name is "Unknown Student", try to fetch from auth service
-        if (studentName === "Unknown Student") {
+      const members = await getProjectMembers(project);
+
+      // Fetch real names for students stored as "Unknown Student"
+      for (const member of members) {
+        if (member.role === 'student' && member.name === "Unknown Student") {
           try {
-            console.log(`[DEBUG] Fetching real name for student ${app.studentId}`);
+            console.log(`[DEBUG] Fetching real name for student ${member.id}`);
             const authHeader = req.headers.authorization || '';
-            const userIdentity = await getUserIdentity(app.studentId, authHeader);
-            studentName = userIdentity.displayName || "Unknown Student";
-            console.log(`[DEBUG] Resolved name: ${studentName}`);
+            const userIdentity = await getUserIdentity(member.id, authHeader);
+            member.name = userIdentity.displayName || "Unknown Student";
+            console.log(`[DEBUG] Resolved name: ${member.name}`);
           } catch (error) {
-            console.warn(`Failed to fetch identity for student ${app.studentId}:`, error);
+            console.warn(`Failed to fetch identity for student ${member.id}:`, error);
             // Keep "Unknown Student" as fallback
           }
         }
-
-        members.push({
-          id: app.studentId,
-          name: studentName,
-          role: 'student',
-          department: app.studentDepartment
-        });
       }
 
       console.log('[GET /v1/projects/:id/members] Members data:', {
@@ -120,6 +100,75 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     }
   });
 
+  // Get who is online in a project - Project members only
+  app.get("/v1/projects/:id/presence", {
+    schema: {
+      tags: ["collaboration"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+
+      // Same check as joining the project's WebSocket room
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const [members, presence] = await Promise.all([
+        getProjectMembers(project),
+        getProjectPresence(projectId)
+      ]);
+      const byUser = new Map(presence.map(entry => [entry.userId, entry]));
+
+      const memberPresence = members.map(member => ({
+        ...member,
+        status: byUser.get(member.id)?.status ?? 'offline',
+        lastActivity: byUser.get(member.id)?.lastActivity ?? null,
+        connections: byUser.get(member.id)?.connections ?? 0
+      }));
+
+      return reply.send({
+        success: true,
+        data: {
+          projectId,
+          members: memberPresence,
+          counts: {
+            online: memberPresence.filter(member => member.status === 'online').length,
+            idle: memberPresence.filter(member => member.status === 'idle').length
+          },
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching project presence:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch project presence"
+      });
+    }
+  });
+
   // Get project tasks - Project members only
   app.get("/v1/projects/:id/tasks", {
     schema: {
@@ -130,6 +179,15 @@ export default async function collaborationRoutes(app: FastifyInstance) {
           id: { type: 'string' }
         },
         required: ['id']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          assigneeId: { type: 'string' },
+          label: { type: 'string' },
+          priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+          parentId: { type: 'string' }
+        }
       }
       // Remove restrictive response schema
     }
@@ -137,19 +195,10 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     try {
       const user = await requireFacultyOrStudent(req);
       const { id: projectId } = req.params;
+      const { assigneeId, label, priority, parentId } = req.query as any;
 
       // Verify project membership
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED',
-              studentId: user.sub 
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -158,27 +207,47 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      // Check if user is project author or accepted member
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.some(app => 
-        app.studentId === user.sub && app.status === 'ACCEPTED'
-      );
-
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
         });
       }
 
-      const tasks = await prisma.projectTask.findMany({
-        where: { projectId },
-        orderBy: { createdAt: 'desc' }
-      });
+      const where: any = { projectId };
+      if (assigneeId) where.assigneeIds = { has: assigneeId };
+      if (label) where.labels = { has: label };
+      if (priority) where.priority = priority;
+      if (parentId) where.parentId = parentId;
+
+      // Ordered for a kanban board: by column position, newest first on ties
+      const [tasks, dependencies] = await Promise.all([
+        prisma.projectTask.findMany({
+          where,
+          include: {
+            _count: { select: { subtasks: true } }
+          },
+          orderBy: [{ status: 'asc' }, { position: 'asc' }, { createdAt: 'desc' }]
+        }),
+        prisma.projectTaskDependency.findMany({
+          where: { projectId },
+          select: { taskId: true, dependsOnId: true, dependsOn: { select: { id: true, status: true } } }
+        })
+      ]);
+
+      // Blocked state is derived from the dependency graph on every read
+      const blockedTaskIds = computeBlockedTaskIds(dependencies.map(dependency => dependency.dependsOn), dependencies);
 
       return reply.send({
         success: true,
-        data: { tasks }
+        data: {
+          tasks: tasks.map(task => ({
+            ...task,
+            dependsOnIds: dependencies.filter(dependency => dependency.taskId === task.id).map(dependency => dependency.dependsOnId),
+            blocked: blockedTaskIds.has(task.id)
+          })),
+          taskCreationPolicy: project.taskCreationPolicy
+        }
       });
     } catch (error) {
       console.error("Error fetching tasks:", error);
@@ -189,7 +258,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     }
   });
 
-  // Create task - Faculty only
+  // Create task - Project supervisors and mentors, or accepted members when the project allows it
   app.post("/v1/projects/:id/tasks", {
     schema: {
       tags: ["tasks"],
@@ -204,7 +273,17 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         type: 'object',
         properties: {
           title: { type: 'string', minLength: 1, maxLength: 200 },
-          assignedToId: { type: 'string' }
+          description: { type: 'string', maxLength: 5000 },
+          assignedToId: { type: 'string' },
+          assigneeIds: { type: 'array', items: { type: 'string' }, maxItems: 20 },
+          milestoneId: { type: 'string' },
+          parentId: { type: 'string' },
+          status: { type: 'string', enum: ['TODO', 'IN_PROGRESS', 'DONE'] },
+          priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+          dueDate: { type: 'string', format: 'date-time' },
+          estimateHours: { type: 'number', minimum: 0, maximum: 1000 },
+          labels: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 50 }, maxItems: 20 },
+          position: { type: 'integer', minimum: 0 }
         },
         required: ['title']
       }
@@ -212,18 +291,12 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     }
   }, async (req: any, reply: any) => {
     try {
-      const user = await requireFaculty(req); // Only faculty can create tasks
+      const user = await requireFacultyOrStudent(req);
       const { id: projectId } = req.params;
       const taskData = req.body;
 
-      // Verify project membership - Faculty must be the project author
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: {
-          id: true,
-          authorId: true
-        }
-      });
+      // Verify project permissions - supervisors and mentors, members under the project's policy
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -232,44 +305,77 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      const isAuthor = project.authorId === user.sub;
-
-      if (!isAuthor) {
+      if (!canCreateTasks(project, role)) {
         return reply.status(403).send({
           success: false,
-          error: "Access denied. Only project authors can create tasks."
+          error: "Access denied. This project only allows supervisors and mentors to create tasks."
         });
       }
 
-      const task = await prisma.projectTask.create({
-        data: {
-          title: taskData.title,
-          projectId,
-          assignedToId: taskData.assignedToId || null,
-          status: 'TODO'
+      if (taskData.milestoneId) {
+        const milestone = await prisma.projectMilestone.findFirst({
+          where: { id: taskData.milestoneId, projectId },
+          select: { id: true }
+        });
+
+        if (!milestone) {
+          return reply.status(400).send({
+            success: false,
+            error: "Milestone not found in this project"
+          });
         }
-      });
+      }
 
-      // Get project info for WebSocket event
-      const projectInfo = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: { collegeId: true, departments: true, visibleToAllDepts: true }
+      const assigneeIds = resolveAssigneeIds(taskData) ?? [];
+      const status = taskData.status || 'TODO';
+
+      const task = await prisma.$transaction(async (tx) => {
+        const invalidAssignees = await findInvalidAssignees(tx, project, assigneeIds);
+        if (invalidAssignees.length > 0) {
+          throw new Error("INVALID_ASSIGNEES");
+        }
+
+        if (taskData.parentId) {
+          const parentError = await validateParentTask(tx, projectId, taskData.parentId);
+          if (parentError) {
+            throw new Error(parentError);
+          }
+        }
+
+        const position = await reserveTaskPosition(tx, projectId, status, taskData.position);
+
+        const created = await tx.projectTask.create({
+          data: {
+            title: taskData.title,
+            description: taskData.description,
+            projectId,
+            milestoneId: taskData.milestoneId || null,
+            parentId: taskData.parentId || null,
+            assigneeIds,
+            assignedToId: assigneeIds[0] || null,
+            status,
+            priority: taskData.priority,
+            dueDate: taskData.dueDate ? new Date(taskData.dueDate) : null,
+            estimateHours: taskData.estimateHours,
+            labels: Array.from(new Set<string>(taskData.labels || [])),
+            position,
+            createdById: user.sub
+          }
+        });
+
+        // A new open task reopens a completed milestone
+        await syncMilestoneCompletion(tx, created.milestoneId);
+        return created;
       });
 
       // Emit WebSocket event for new task
       emitProjectUpdate({
         type: 'task-created',
         projectId,
-        collegeId: projectInfo?.collegeId || '',
-        departments: projectInfo?.departments || [],
-        visibleToAllDepts: projectInfo?.visibleToAllDepts || false,
-        task: {
-          id: task.id,
-          title: task.title,
-          assignedToId: task.assignedToId,
-          status: task.status,
-          createdAt: task.createdAt
-        },
+        collegeId: project.collegeId,
+        departments: project.departments,
+        visibleToAllDepts: project.visibleToAllDepts,
+        task: toTaskEventPayload(task),
         createdBy: {
           id: user.sub,
           name: user.displayName || "Unknown User"
@@ -277,12 +383,31 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      await notifyNewAssignees(task, project, { id: user.sub, name: user.displayName || user.name || "Unknown User" });
+
       return reply.status(201).send({
         success: true,
         data: { task }
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error creating task:", error);
+
+      if (error.message === "INVALID_ASSIGNEES") {
+        return reply.status(400).send({
+          success: false,
+          error: "Tasks can only be assigned to project members"
+        });
+      }
+
+      if (error.message === "PARENT_NOT_FOUND" || error.message === "PARENT_IS_SUBTASK") {
+        return reply.status(400).send({
+          success: false,
+          error: error.message === "PARENT_NOT_FOUND"
+            ? "Parent task not found in this project"
+            : "Subtasks cannot have their own subtasks"
+        });
+      }
+
       return reply.status(500).send({
         success: false,
         error: "Failed to create task"
@@ -305,10 +430,23 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         type: 'object',
         properties: {
           title: { type: 'string', minLength: 1, maxLength: 200 },
-          assignedToId: { type: 'string' },
-          status: { 
-            type: 'string', 
-            enum: ['TODO', 'IN_PROGRESS', 'DONE'] 
+          description: { type: ['string', 'null'], maxLength: 5000 },
+          assignedToId: { type: ['string', 'null'] },
+          assigneeIds: { type: 'array', items: { type: 'string' }, maxItems: 20 },
+          milestoneId: { type: ['string', 'null'] },
+          parentId: { type: ['string', 'null'] },
+          status: {
+            type: 'string',
+            enum: ['TODO', 'IN_PROGRESS', 'DONE']
+          },
+          priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+          dueDate: { type: ['string', 'null'], format: 'date-time' },
+          estimateHours: { type: ['number', 'null'], minimum: 0, maximum: 1000 },
+          labels: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 50 }, maxItems: 20 },
+          position: { type: 'integer', minimum: 0 },
+          overrideDependencies: {
+            type: 'boolean',
+            description: 'Faculty only: start or finish the task while its dependencies are open'
           }
         }
       }
@@ -324,16 +462,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       const task = await prisma.projectTask.findUnique({
         where: { id: taskId },
         include: {
-          project: {
-            include: {
-              applications: {
-                where: { 
-                  status: 'ACCEPTED',
-                  studentId: user.sub 
-                }
-              }
-            }
-          }
+          project: true
         }
       });
 
@@ -345,27 +474,103 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       }
 
       // Verify project membership
-      const isAuthor = task.project.authorId === user.sub;
-      const isAcceptedMember = task.project.applications.some(app => 
-        app.studentId === user.sub && app.status === 'ACCEPTED'
-      );
+      const role = await getProjectRole(task.project, user.sub);
 
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
         });
       }
 
-      const updatedTask = await prisma.projectTask.update({
-        where: { id: taskId },
-        data: {
-          title: updateData.title,
-          assignedToId: updateData.assignedToId || null,
-          status: updateData.status
+      if (updateData.milestoneId) {
+        const milestone = await prisma.projectMilestone.findFirst({
+          where: { id: updateData.milestoneId, projectId: task.projectId },
+          select: { id: true }
+        });
+
+        if (!milestone) {
+          return reply.status(400).send({
+            success: false,
+            error: "Milestone not found in this project"
+          });
+        }
+      }
+
+      const assigneeIds = resolveAssigneeIds(updateData);
+
+      // Faculty supervisors may override open dependencies
+      const canOverride = user.roles.includes('FACULTY') && hasProjectPermission(role, 'manageTasks');
+      if (updateData.overrideDependencies && !canOverride) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only faculty supervisors can override task dependencies"
+        });
+      }
+
+      const isStarting = !!updateData.status && updateData.status !== task.status &&
+        STARTED_TASK_STATUSES.includes(updateData.status);
+
+      if (isStarting && !updateData.overrideDependencies) {
+        const blockers = await getOpenBlockers(prisma, task.id);
+        if (blockers.length > 0) {
+          return reply.status(409).send({
+            success: false,
+            error: "This task is blocked by dependencies that are not done yet",
+            blockers
+          });
+        }
+      }
+
+      const updatedTask = await prisma.$transaction(async (tx) => {
+
+        if (assigneeIds) {
+          const invalidAssignees = await findInvalidAssignees(tx, task.project, assigneeIds);
+          if (invalidAssignees.length > 0) {
+            throw new Error("INVALID_ASSIGNEES");
+          }
         }
+
+        if (updateData.parentId) {
+          const parentError = await validateParentTask(tx, task.projectId, updateData.parentId, task.id);
+          if (parentError) {
+            throw new Error(parentError);
+          }
+        }
+
+        const placement = await moveTask(tx, task, updateData.status || task.status, updateData.position);
+
+        const updated = await tx.projectTask.update({
+          where: { id: taskId },
+          data: {
+            title: updateData.title,
+            description: updateData.description,
+            assigneeIds,
+            assignedToId: assigneeIds ? assigneeIds[0] || null : undefined,
+            milestoneId: updateData.milestoneId,
+            parentId: updateData.parentId,
+            status: placement.status,
+            position: placement.position,
+            priority: updateData.priority,
+            dueDate: updateData.dueDate === undefined ? undefined : updateData.dueDate && new Date(updateData.dueDate),
+            estimateHours: updateData.estimateHours,
+            labels: updateData.labels ? Array.from(new Set<string>(updateData.labels)) : undefined
+          }
+        });
+
+        await syncMilestoneCompletion(tx, updated.milestoneId);
+        if (task.milestoneId !== updated.milestoneId) {
+          await syncMilestoneCompletion(tx, task.milestoneId);
+        }
+        return updated;
       });
 
+      const blocked = (await getOpenBlockers(prisma, updatedTask.id)).length > 0;
+
+      if (updateData.overrideDependencies && blocked) {
+        console.log(`Task ${updatedTask.id} moved to ${updatedTask.status} with open dependencies by ${user.sub}`);
+      }
+
       // Emit WebSocket event for task update
       emitProjectUpdate({
         type: 'task-updated',
@@ -373,13 +578,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         collegeId: task.project.collegeId,
         departments: task.project.departments,
         visibleToAllDepts: task.project.visibleToAllDepts,
-        task: {
-          id: updatedTask.id,
-          title: updatedTask.title,
-          assignedToId: updatedTask.assignedToId,
-          status: updatedTask.status,
-          createdAt: updatedTask.createdAt
-        },
+        task: toTaskEventPayload(updatedTask, blocked),
         updatedBy: {
           id: user.sub,
           name: user.displayName || user.scope.displayName || user.name || "Unknown User"
@@ -387,12 +586,41 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      await notifyNewAssignees(updatedTask, task.project, {
+        id: user.sub,
+        name: user.displayName || user.scope.displayName || user.name || "Unknown User"
+      }, task.assigneeIds);
+
       return reply.send({
         success: true,
-        data: { task: updatedTask }
+        data: { task: { ...updatedTask, blocked } }
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error updating task:", error);
+
+      if (error.message === "INVALID_ASSIGNEES") {
+        return reply.status(400).send({
+          success: false,
+          error: "Tasks can only be assigned to project members"
+        });
+      }
+
+      if (error.message === "PARENT_NOT_FOUND" || error.message === "PARENT_IS_SUBTASK") {
+        return reply.status(400).send({
+          success: false,
+          error: error.message === "PARENT_NOT_FOUND"
+            ? "Parent task not found in this project"
+            : "Subtasks cannot have their own subtasks"
+        });
+      }
+
+      if (error.message === "TASK_HAS_SUBTASKS") {
+        return reply.status(400).send({
+          success: false,
+          error: "A task with subtasks cannot become a subtask"
+        });
+      }
+
       return reply.status(500).send({
         success: false,
         error: "Failed to update task"
@@ -400,7 +628,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     }
   });
 
-  // Delete task - Project members only
+  // Delete task - Project members only (subtasks are deleted with their parent)
   app.delete("/v1/tasks/:id", {
     schema: {
       tags: ["tasks"],
@@ -422,16 +650,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       const task = await prisma.projectTask.findUnique({
         where: { id: taskId },
         include: {
-          project: {
-            include: {
-              applications: {
-                where: { 
-                  status: 'ACCEPTED',
-                  studentId: user.sub 
-                }
-              }
-            }
-          }
+          project: true
         }
       });
 
@@ -443,20 +662,30 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       }
 
       // Verify project membership
-      const isAuthor = task.project.authorId === user.sub;
-      const isAcceptedMember = task.project.applications.some(app => 
-        app.studentId === user.sub && app.status === 'ACCEPTED'
-      );
+      const role = await getProjectRole(task.project, user.sub);
 
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
         });
       }
 
-      await prisma.projectTask.delete({
-        where: { id: taskId }
+      await prisma.$transaction(async (tx) => {
+        const subtasks = await tx.projectTask.findMany({
+          where: { parentId: taskId },
+          select: { milestoneId: true }
+        });
+
+        await tx.projectTask.delete({
+          where: { id: taskId }
+        });
+        await compactTaskColumn(tx, task);
+
+        const milestoneIds = new Set([task.milestoneId, ...subtasks.map(subtask => subtask.milestoneId)]);
+        for (const milestoneId of milestoneIds) {
+          await syncMilestoneCompletion(tx, milestoneId);
+        }
       });
 
       return reply.send({
@@ -491,17 +720,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       const { id: projectId } = req.params;
 
       // Verify project membership
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED',
-              studentId: user.sub 
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -510,10 +729,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.length > 0;
-
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
@@ -527,7 +743,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
 
       return reply.send({
         success: true,
-        data: { attachments }
+        data: { attachments: attachments.map(withDownloadUrl) }
       });
     } catch (error) {
       console.error("Error fetching attachments:", error);
@@ -571,17 +787,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       const attachmentData = req.body;
 
       // Verify project membership
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED',
-              studentId: user.sub 
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -590,10 +796,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.length > 0;
-
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
@@ -613,8 +816,19 @@ export default async function collaborationRoutes(app: FastifyInstance) {
           fileName: attachmentData.fileName,
           fileUrl: attachmentData.fileUrl,
           fileType: attachmentData.fileType,
+          fileSize: attachmentData.fileSize,
           projectId,
-          uploaderId: user.sub
+          uploaderId: user.sub,
+          versions: {
+            create: {
+              version: 1,
+              uploaderId: user.sub,
+              fileName: attachmentData.fileName,
+              fileUrl: attachmentData.fileUrl,
+              fileType: attachmentData.fileType,
+              fileSize: attachmentData.fileSize
+            }
+          }
         }
       });
 
@@ -642,7 +856,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
 
       return reply.status(201).send({
         success: true,
-        data: { attachment }
+        data: { attachment: withDownloadUrl(attachment) }
       });
     } catch (error) {
       console.error("Error uploading attachment:", error);
@@ -653,7 +867,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     }
   });
 
-  // Update attachment - Project members only (uploader or project author)
+  // Update attachment - Project members only (uploader or project supervisors)
   app.put("/v1/attachments/:id", {
     schema: {
       tags: ["attachments"],
@@ -667,7 +881,11 @@ export default async function collaborationRoutes(app: FastifyInstance) {
       body: {
         type: 'object',
         properties: {
-          fileName: { type: 'string', minLength: 1, maxLength: 255 }
+          fileName: { type: 'string', minLength: 1, maxLength: 255 },
+          // A new link records a new version instead of overwriting the current one
+          fileUrl: { type: 'string', format: 'uri' },
+          fileType: { type: 'string' },
+          fileSize: { type: 'integer', minimum: 1, maximum: 52428800 }
         },
         required: ['fileName']
       },
@@ -677,7 +895,19 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     try {
       const user = await requireFacultyOrStudent(req);
       const { id: attachmentId } = req.params;
-      const { fileName } = req.body;
+      const { fileName, fileUrl, fileType, fileSize } = req.body;
+
+      if (fileUrl) {
+        const validation = await validateFileUpload(fileName, fileUrl, fileType, fileSize);
+
+        if (!validation.isValid) {
+          return reply.status(400).send({
+            success: false,
+            error: validation.error,
+            code: 'FILE_VALIDATION_FAILED'
+          });
+        }
+      }
 
       // Get attachment with project info
       const attachment = await prisma.projectAttachment.findUnique({
@@ -701,21 +931,33 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      // Only uploader or project author can update
+      // Only uploader or project supervisors can update
       const isUploader = attachment.uploaderId === user.sub;
-      const isProjectAuthor = attachment.project.authorId === user.sub;
+      const canModerate = !isUploader &&
+        hasProjectPermission(await getProjectRole({ id: attachment.projectId, authorId: attachment.project.authorId }, user.sub), 'moderateContent');
 
-      if (!isUploader && !isProjectAuthor) {
+      if (!isUploader && !canModerate) {
         return reply.status(403).send({
           success: false,
-          error: "Only the uploader or project author can update this attachment"
+          error: "Only the uploader or project supervisors can update this attachment"
         });
       }
 
-      const updatedAttachment = await prisma.projectAttachment.update({
-        where: { id: attachmentId },
-        data: { fileName }
-      });
+      const updatedAttachment = fileUrl
+        ? (await prisma.$transaction(tx => addAttachmentVersion(tx, attachment, user.sub, {
+            fileName,
+            fileUrl,
+            fileType,
+            fileSize: fileSize ?? null,
+            checksum: null,
+            storageDriver: null,
+            storageKey: null,
+            scanStatus: 'NOT_SCANNED'
+          }))).attachment
+        : await prisma.projectAttachment.update({
+            where: { id: attachmentId },
+            data: { fileName }
+          });
 
       console.log('[PUT /v1/attachments/:id] Attachment updated:', updatedAttachment.id);
 
@@ -729,7 +971,8 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         attachment: {
           id: updatedAttachment.id,
           fileName: updatedAttachment.fileName,
-          fileType: updatedAttachment.fileType
+          fileType: updatedAttachment.fileType,
+          version: updatedAttachment.currentVersion
         },
         updatedBy: {
           id: user.sub,
@@ -740,7 +983,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
 
       return reply.send({
         success: true,
-        data: { attachment: updatedAttachment }
+        data: { attachment: withDownloadUrl(updatedAttachment) }
       });
     } catch (error) {
       console.error("Error updating attachment:", error);
@@ -751,7 +994,7 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     }
   });
 
-  // Delete attachment - Project members only (uploader or project author)
+  // Delete attachment - Project members only (uploader or project supervisors)
   app.delete("/v1/attachments/:id", {
     schema: {
       tags: ["attachments"],
@@ -780,7 +1023,8 @@ export default async function collaborationRoutes(app: FastifyInstance) {
               departments: true,
               visibleToAllDepts: true
             }
-          }
+          },
+          versions: { select: { storageKey: true } }
         }
       });
 
@@ -791,14 +1035,15 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      // Only uploader or project author can delete
+      // Only uploader or project supervisors can delete
       const isUploader = attachment.uploaderId === user.sub;
-      const isProjectAuthor = attachment.project.authorId === user.sub;
+      const canModerate = !isUploader &&
+        hasProjectPermission(await getProjectRole({ id: attachment.projectId, authorId: attachment.project.authorId }, user.sub), 'moderateContent');
 
-      if (!isUploader && !isProjectAuthor) {
+      if (!isUploader && !canModerate) {
         return reply.status(403).send({
           success: false,
-          error: "Only the uploader or project author can delete this attachment"
+          error: "Only the uploader or project supervisors can delete this attachment"
         });
       }
 
@@ -815,6 +1060,15 @@ export default async function collaborationRoutes(app: FastifyInstance) {
 
       console.log('[DELETE /v1/attachments/:id] Attachment deleted:', attachmentId);
 
+      // Remove the stored files of every version
+      const storageKeys = new Set([attachment.storageKey, ...attachment.versions.map(version => version.storageKey)]);
+      for (const storageKey of storageKeys) {
+        if (!storageKey) continue;
+        await getStorage().delete(storageKey).catch((error) => {
+          console.error('[DELETE /v1/attachments/:id] Failed to remove stored file:', storageKey, error);
+        });
+      }
+
       // Emit WebSocket event for attachment deletion
       emitProjectUpdate({
         type: 'file-deleted',
@@ -862,7 +1116,8 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         type: 'object',
         properties: {
           body: { type: 'string', minLength: 1, maxLength: 2000 },
-          taskId: { type: 'string' }
+          taskId: { type: 'string' },
+          parentId: { type: 'string' }
         },
         required: ['body']
       }
@@ -872,20 +1127,11 @@ export default async function collaborationRoutes(app: FastifyInstance) {
     try {
       const user = await requireFacultyOrStudent(req);
       const { id: projectId } = req.params;
-      const { body, taskId } = req.body;
+      const { body, parentId } = req.body;
+      let { taskId } = req.body;
 
       // Verify project membership
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED',
-              studentId: user.sub 
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -894,18 +1140,23 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         });
       }
 
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.length > 0;
-
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied. You must be a project member."
         });
       }
 
+      // Replies join their parent's thread (and task)
+      let threadParentId: string | null = null;
+      if (parentId) {
+        const thread = await resolveThreadParent(projectId, parentId);
+        threadParentId = thread.parentId;
+        taskId = thread.taskId;
+      }
+
       // If taskId is provided, verify it belongs to this project
-      if (taskId) {
+      if (taskId && !threadParentId) {
         const task = await prisma.projectTask.findFirst({
           where: { 
             id: taskId,
@@ -921,13 +1172,17 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         }
       }
 
+      const mentionedUserIds = resolveMentions(body, await getProjectMembers(project));
+
       const comment = await prisma.comment.create({
         data: {
           projectId,
           taskId: taskId || null,
+          parentId: threadParentId,
           authorId: user.sub,
           authorName: user.displayName || user.scope.displayName || user.name || "Unknown User",
-          body
+          body,
+          mentionedUserIds
         }
       });
 
@@ -955,7 +1210,9 @@ export default async function collaborationRoutes(app: FastifyInstance) {
           authorName: comment.authorName,
           body: comment.body,
           createdAt: comment.createdAt,
-          taskId: comment.taskId
+          taskId: comment.taskId,
+          parentId: comment.parentId,
+          mentionedUserIds: comment.mentionedUserIds
         },
         createdBy: {
           id: user.sub,
@@ -964,6 +1221,8 @@ export default async function collaborationRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      await notifyMentionedUsers(comment, project, { id: user.sub, name: comment.authorName });
+
       // Invalidate project-related caches after comment creation
       await CacheInvalidation.invalidateByEntity('project', projectId, 'update', {
         collegeId: project.collegeId
@@ -971,9 +1230,23 @@ export default async function collaborationRoutes(app: FastifyInstance) {
 
       return reply.status(201).send({
         success: true,
-        data: { comment }
+        data: { comment: presentComment(comment) }
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message === "PARENT_NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Parent comment not found in this project"
+        });
+      }
+
+      if (error.message === "PARENT_DELETED") {
+        return reply.status(400).send({
+          success: false,
+          error: "Cannot reply to a deleted comment"
+        });
+      }
+
       console.error("Error creating comment:", error);
       return reply.status(500).send({
         success: false,
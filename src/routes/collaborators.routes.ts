@@ -0,0 +1,475 @@
+import { FastifyInstance } from "fastify";
+import { requireFaculty, requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { notifyUser } from "../utils/notifications";
+import { CacheInvalidation } from "../utils/cacheInvalidation";
+import { getUserIdentity } from "../clients/auth";
+import { getProjectAccess, hasProjectPermission } from "../utils/projectPermissions";
+import { applyMembershipChange } from "../utils/projectMembership";
+
+export default async function collaboratorRoutes(app: FastifyInstance) {
+
+  // List project collaborators - Project members only (pending invitations for owners)
+  app.get("/v1/projects/:id/collaborators", {
+    schema: {
+      tags: ["collaborators"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const canManage = hasProjectPermission(role, 'manageCollaborators');
+
+      const collaborators = await prisma.projectCollaborator.findMany({
+        where: {
+          projectId,
+          status: canManage ? { in: ['ACTIVE', 'INVITED'] } : 'ACTIVE'
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          owner: {
+            userId: project.authorId,
+            userName: project.authorName,
+            role: 'OWNER'
+          },
+          collaborators,
+          myRole: role
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching collaborators:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch collaborators"
+      });
+    }
+  });
+
+  // Invite a collaborator - Project owners only
+  app.post("/v1/projects/:id/collaborators", {
+    schema: {
+      tags: ["collaborators"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string', minLength: 1 },
+          role: { type: 'string', enum: ['OWNER', 'CO_SUPERVISOR', 'MENTOR'] },
+          message: { type: 'string', maxLength: 1000 }
+        },
+        required: ['userId', 'role']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id: projectId } = req.params;
+      const { userId, role, message } = req.body;
+
+      const { project, role: myRole } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(myRole, 'manageCollaborators')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only project owners can invite collaborators"
+        });
+      }
+
+      if (userId === project.authorId) {
+        return reply.status(400).send({
+          success: false,
+          error: "The project author is already an owner"
+        });
+      }
+
+      const existing = await prisma.projectCollaborator.findUnique({
+        where: { projectId_userId: { projectId, userId } }
+      });
+
+      if (existing && existing.status !== 'DECLINED') {
+        return reply.status(400).send({
+          success: false,
+          error: existing.status === 'ACTIVE'
+            ? "User is already a collaborator on this project"
+            : "User already has a pending invitation"
+        });
+      }
+
+      // Resolve the invitee's name for display; the invitation still works without it
+      let userName = "Unknown User";
+      try {
+        const identity = await getUserIdentity(userId, req.headers.authorization || '');
+        userName = identity.displayName || userName;
+      } catch (error) {
+        console.warn(`Failed to fetch identity for collaborator ${userId}:`, error);
+      }
+
+      const inviterName = user.displayName || user.name || "Unknown Faculty";
+
+      const collaborator = await prisma.projectCollaborator.upsert({
+        where: { projectId_userId: { projectId, userId } },
+        create: {
+          projectId,
+          userId,
+          userName,
+          role,
+          invitedById: user.sub,
+          invitedByName: inviterName,
+          message
+        },
+        update: {
+          userName,
+          role,
+          status: 'INVITED',
+          invitedById: user.sub,
+          invitedByName: inviterName,
+          message,
+          respondedAt: null
+        }
+      });
+
+      await notifyUser(userId, {
+        type: 'collaborator-invited',
+        projectId,
+        projectTitle: project.title,
+        invitationId: collaborator.id,
+        role,
+        invitedBy: { id: user.sub, name: inviterName }
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: { collaborator }
+      });
+    } catch (error) {
+      console.error("Error inviting collaborator:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to invite collaborator"
+      });
+    }
+  });
+
+  // Remove a collaborator - Project owners, or the collaborator leaving
+  app.delete("/v1/projects/:id/collaborators/:userId", {
+    schema: {
+      tags: ["collaborators"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          userId: { type: 'string' }
+        },
+        required: ['id', 'userId']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId, userId } = req.params;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      const isSelf = userId === user.sub;
+      if (!isSelf && !hasProjectPermission(role, 'manageCollaborators')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only project owners can remove collaborators"
+        });
+      }
+
+      if (userId === project.authorId) {
+        return reply.status(400).send({
+          success: false,
+          error: "The project author cannot be removed"
+        });
+      }
+
+      const collaborator = await prisma.projectCollaborator.findUnique({
+        where: { projectId_userId: { projectId, userId } }
+      });
+
+      if (!collaborator) {
+        return reply.status(404).send({
+          success: false,
+          error: "Collaborator not found"
+        });
+      }
+
+      await prisma.projectCollaborator.delete({
+        where: { id: collaborator.id }
+      });
+
+      await CacheInvalidation.invalidateByEntity('project', projectId, 'update', {
+        collegeId: project.collegeId,
+        authorId: userId
+      });
+
+      await notifyUser(userId, {
+        type: 'collaborator-removed',
+        projectId,
+        projectTitle: project.title,
+        removedBy: isSelf ? null : { id: user.sub, name: user.displayName || user.name || "Unknown Faculty" }
+      });
+
+      if (collaborator.status === 'ACTIVE') {
+        await applyMembershipChange(projectId, userId, 'left');
+      }
+
+      return reply.send({
+        success: true,
+        message: isSelf ? "You left the project" : "Collaborator removed successfully"
+      });
+    } catch (error) {
+      console.error("Error removing collaborator:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to remove collaborator"
+      });
+    }
+  });
+
+  // List my collaborator invitations
+  app.get("/v1/collaborator-invitations", {
+    schema: {
+      tags: ["collaborators"],
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+
+      const invitations = await prisma.projectCollaborator.findMany({
+        where: {
+          userId: user.sub,
+          status: 'INVITED',
+          project: { archivedAt: null }
+        },
+        include: {
+          project: {
+            select: {
+              id: true,
+              title: true,
+              description: true,
+              projectType: true,
+              authorName: true,
+              authorDepartment: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: { invitations }
+      });
+    } catch (error) {
+      console.error("Error fetching collaborator invitations:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch invitations"
+      });
+    }
+  });
+
+  // Accept a collaborator invitation - Invitee only
+  app.post("/v1/collaborator-invitations/:id/accept", {
+    schema: {
+      tags: ["collaborators"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const invitation = await prisma.projectCollaborator.findUnique({
+        where: { id },
+        include: {
+          project: { select: { title: true, collegeId: true } }
+        }
+      });
+
+      if (!invitation || invitation.userId !== user.sub) {
+        return reply.status(404).send({
+          success: false,
+          error: "Invitation not found"
+        });
+      }
+
+      if (invitation.status !== 'INVITED') {
+        return reply.status(400).send({
+          success: false,
+          error: "Invitation has already been answered"
+        });
+      }
+
+      if (user.scope.collegeId && invitation.project.collegeId !== user.scope.collegeId) {
+        return reply.status(403).send({
+          success: false,
+          error: "You can only collaborate on projects in your college"
+        });
+      }
+
+      const collaborator = await prisma.projectCollaborator.update({
+        where: { id },
+        data: {
+          status: 'ACTIVE',
+          userName: user.displayName || user.name || invitation.userName,
+          respondedAt: new Date()
+        }
+      });
+
+      await CacheInvalidation.invalidateByEntity('project', invitation.projectId, 'update', {
+        collegeId: invitation.project.collegeId,
+        authorId: user.sub
+      });
+
+      await notifyUser(invitation.invitedById, {
+        type: 'collaborator-joined',
+        projectId: invitation.projectId,
+        projectTitle: invitation.project.title,
+        collaborator: { id: user.sub, name: collaborator.userName, role: collaborator.role }
+      });
+
+      await applyMembershipChange(invitation.projectId, user.sub, 'joined');
+
+      return reply.send({
+        success: true,
+        data: { collaborator }
+      });
+    } catch (error) {
+      console.error("Error accepting collaborator invitation:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to accept invitation"
+      });
+    }
+  });
+
+  // Decline a collaborator invitation - Invitee only
+  app.post("/v1/collaborator-invitations/:id/decline", {
+    schema: {
+      tags: ["collaborators"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const invitation = await prisma.projectCollaborator.findUnique({
+        where: { id },
+        include: {
+          project: { select: { title: true } }
+        }
+      });
+
+      if (!invitation || invitation.userId !== user.sub) {
+        return reply.status(404).send({
+          success: false,
+          error: "Invitation not found"
+        });
+      }
+
+      if (invitation.status !== 'INVITED') {
+        return reply.status(400).send({
+          success: false,
+          error: "Invitation has already been answered"
+        });
+      }
+
+      const collaborator = await prisma.projectCollaborator.update({
+        where: { id },
+        data: {
+          status: 'DECLINED',
+          respondedAt: new Date()
+        }
+      });
+
+      await notifyUser(invitation.invitedById, {
+        type: 'collaborator-declined',
+        projectId: invitation.projectId,
+        projectTitle: invitation.project.title,
+        collaborator: { id: user.sub, name: collaborator.userName, role: collaborator.role }
+      });
+
+      return reply.send({
+        success: true,
+        data: { collaborator }
+      });
+    } catch (error) {
+      console.error("Error declining collaborator invitation:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to decline invitation"
+      });
+    }
+  });
+}
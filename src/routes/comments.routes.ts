@@ -0,0 +1,323 @@
+import { FastifyInstance } from "fastify";
+import { requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { emitProjectUpdate } from "../utils/enhancedWebSocket";
+import { getProjectMembers, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import { CommentContent, editComment, presentComment, softDeleteComment } from "../utils/comments";
+import { notifyMentionedUsers, resolveMentions } from "../utils/mentions";
+import { checkKeyEpoch } from "../utils/conversationKeys";
+import { verifySenderSignature } from "../utils/messageSignatures";
+
+export default async function commentRoutes(app: FastifyInstance) {
+
+  // Edit a comment - Author only. Encrypted comments replace ciphertext/nonce instead of body
+  app.put("/v1/comments/:id", {
+    schema: {
+      tags: ["comments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          body: { type: 'string', minLength: 1, maxLength: 2000 },
+          ciphertext: { type: 'string', minLength: 1 },
+          nonce: { type: 'string', minLength: 1 },
+          keyEpoch: { type: 'integer', minimum: 1 },
+          deviceId: { type: 'string', minLength: 1 },
+          timestamp: { type: 'string', minLength: 1 },
+          signature: { type: 'string' }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+      const { body, ciphertext, nonce, keyEpoch, deviceId, timestamp, signature } = req.body;
+
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!comment || comment.deletedAt) {
+        return reply.status(404).send({
+          success: false,
+          error: "Comment not found"
+        });
+      }
+
+      if (comment.authorId !== user.sub) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. Only the author can edit a comment."
+        });
+      }
+
+      // Authors who have left the project can no longer edit
+      if (!hasProjectPermission(await getProjectRole(comment.project, user.sub), 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      let content: CommentContent;
+      if (comment.isEncrypted) {
+        if (!ciphertext || !nonce || keyEpoch === undefined || !deviceId || !timestamp || body !== undefined) {
+          return reply.status(400).send({
+            success: false,
+            error: "Encrypted comments are edited with ciphertext, nonce, keyEpoch, deviceId and timestamp"
+          });
+        }
+
+        // Edits are re-encrypted under the current conversation key like new messages
+        const conversationKey = await prisma.conversationKey.findUnique({
+          where: { projectId: comment.projectId }
+        });
+        if (!conversationKey) {
+          return reply.status(409).send({
+            success: false,
+            error: "Conversation not encrypted"
+          });
+        }
+
+        const epochCheck = checkKeyEpoch(conversationKey, keyEpoch);
+        if (!epochCheck.ok) {
+          return reply.status(409).send({
+            success: false,
+            error: epochCheck.error,
+            code: epochCheck.code,
+            currentEpoch: epochCheck.currentEpoch
+          });
+        }
+
+        // Signed like a new message from the editing device
+        const signatureCheck = await verifySenderSignature({
+          senderId: user.sub,
+          deviceId,
+          projectId: comment.projectId,
+          taskId: comment.taskId,
+          parentId: comment.parentId,
+          keyEpoch,
+          messageType: 'text',
+          timestamp,
+          nonce,
+          ciphertext
+        }, signature);
+        if (!signatureCheck.ok) {
+          return reply.status(400).send({
+            success: false,
+            error: signatureCheck.error,
+            code: signatureCheck.code
+          });
+        }
+
+        content = {
+          ciphertext,
+          nonce,
+          keyEpoch,
+          messageSignature: signature,
+          signingDeviceId: deviceId,
+          signatureStatus: signatureCheck.status!,
+          signedTimestamp: timestamp
+        };
+      } else {
+        if (!body || ciphertext !== undefined || nonce !== undefined) {
+          return reply.status(400).send({
+            success: false,
+            error: "Body is required"
+          });
+        }
+        content = { body, mentionedUserIds: resolveMentions(body, await getProjectMembers(comment.project)) };
+      }
+
+      const updated = await prisma.$transaction((tx) => editComment(tx, comment, user.sub, content));
+
+      // Only people newly mentioned by the edit are notified
+      await notifyMentionedUsers(updated, comment.project, { id: user.sub, name: updated.authorName }, comment.mentionedUserIds);
+
+      emitProjectUpdate({
+        type: 'comment-edited',
+        projectId: comment.projectId,
+        collegeId: comment.project.collegeId,
+        departments: comment.project.departments,
+        visibleToAllDepts: comment.project.visibleToAllDepts,
+        comment: {
+          id: updated.id,
+          taskId: updated.taskId,
+          parentId: updated.parentId,
+          isEncrypted: updated.isEncrypted,
+          ...(updated.isEncrypted
+            ? {
+                ciphertext: updated.ciphertext,
+                nonce: updated.nonce,
+                keyEpoch: updated.keyEpoch,
+                signature: updated.messageSignature,
+                deviceId: updated.signingDeviceId,
+                timestamp: updated.signedTimestamp,
+                signatureStatus: updated.signatureStatus
+              }
+            : { body: updated.body, mentionedUserIds: updated.mentionedUserIds }),
+          editedAt: updated.editedAt
+        },
+        updatedBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        data: { comment: presentComment(updated) }
+      });
+    } catch (error) {
+      console.error("Error editing comment:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to edit comment"
+      });
+    }
+  });
+
+  // Delete a comment - Author or project supervisors. Leaves a tombstone so replies keep their thread
+  app.delete("/v1/comments/:id", {
+    schema: {
+      tags: ["comments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!comment || comment.deletedAt) {
+        return reply.status(404).send({
+          success: false,
+          error: "Comment not found"
+        });
+      }
+
+      const role = await getProjectRole(comment.project, user.sub);
+      const canDelete = hasProjectPermission(role, 'moderateContent') ||
+        (comment.authorId === user.sub && hasProjectPermission(role, 'view'));
+
+      if (!canDelete) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. Only the author or project supervisors can delete a comment."
+        });
+      }
+
+      const deleted = await prisma.$transaction((tx) => softDeleteComment(tx, comment, user.sub));
+
+      emitProjectUpdate({
+        type: 'comment-deleted',
+        projectId: comment.projectId,
+        collegeId: comment.project.collegeId,
+        departments: comment.project.departments,
+        visibleToAllDepts: comment.project.visibleToAllDepts,
+        comment: {
+          id: deleted.id,
+          taskId: deleted.taskId,
+          parentId: deleted.parentId,
+          deletedAt: deleted.deletedAt
+        },
+        deletedBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        data: { comment: presentComment(deleted) },
+        message: "Comment deleted successfully"
+      });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to delete comment"
+      });
+    }
+  });
+
+  // Get a comment's edit history, newest first - Project members only
+  app.get("/v1/comments/:id/history", {
+    schema: {
+      tags: ["comments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+        include: {
+          project: { select: { id: true, authorId: true } },
+          revisions: { orderBy: { createdAt: 'desc' } }
+        }
+      });
+
+      if (!comment) {
+        return reply.status(404).send({
+          success: false,
+          error: "Comment not found"
+        });
+      }
+
+      if (!hasProjectPermission(await getProjectRole(comment.project, user.sub), 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const { project, revisions, ...current } = comment;
+
+      return reply.send({
+        success: true,
+        data: {
+          comment: presentComment(current),
+          revisions
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching comment history:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch comment history"
+      });
+    }
+  });
+}
@@ -135,7 +135,7 @@ export default async function debugRoutes(app: FastifyInstance) {
       
       // Get WebSocket status first
       const wsHealth = getWebSocketHealth();
-      const wsStats = getConnectionStats();
+      const wsStats = await getConnectionStats();
       
       console.log('🔍 WebSocket Health:', wsHealth);
       console.log('📊 WebSocket Stats:', wsStats);
@@ -287,7 +287,7 @@ export default async function debugRoutes(app: FastifyInstance) {
       
       const wsInstance = getWebSocketInstance();
       const wsHealth = getWebSocketHealth();
-      const wsStats = getConnectionStats();
+      const wsStats = await getConnectionStats();
 
       // Get detailed room information
       const roomDetails: { [room: string]: string[] } = {};
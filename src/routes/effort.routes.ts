@@ -0,0 +1,387 @@
+import { FastifyInstance } from "fastify";
+import { requireFaculty, requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { notifyUser } from "../utils/notifications";
+import { getProjectAccess, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import { MAX_EFFORT_MINUTES_PER_ENTRY, applyEffortReview, summarizeEffort } from "../utils/effort";
+
+export default async function effortRoutes(app: FastifyInstance) {
+
+  // Project effort report with per-member and per-task totals - Project members only
+  app.get("/v1/projects/:id/effort", {
+    schema: {
+      tags: ["effort"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+          taskId: { type: 'string' },
+          status: { type: 'string', enum: ['PENDING', 'APPROVED', 'ADJUSTED', 'REJECTED'] },
+          from: { type: 'string', format: 'date' },
+          to: { type: 'string', format: 'date' }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+      const { userId, taskId, status, from, to } = req.query as any;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const where: any = { projectId };
+      if (userId) where.userId = userId;
+      if (taskId) where.taskId = taskId;
+      if (status) where.status = status;
+      if (from || to) {
+        where.workDate = {};
+        if (from) where.workDate.gte = new Date(from);
+        if (to) where.workDate.lte = new Date(to);
+      }
+
+      const entries = await prisma.taskEffortLog.findMany({
+        where,
+        include: { task: { select: { title: true } } },
+        orderBy: [{ workDate: 'desc' }, { createdAt: 'desc' }]
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          ...summarizeEffort(entries),
+          entries,
+          canReview: user.roles.includes('FACULTY') && hasProjectPermission(role, 'reviewEffort')
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching project effort:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch effort"
+      });
+    }
+  });
+
+  // Log time against a task - Project members only
+  app.post("/v1/tasks/:id/effort", {
+    schema: {
+      tags: ["effort"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          minutes: { type: 'integer', minimum: 1, maximum: MAX_EFFORT_MINUTES_PER_ENTRY },
+          workDate: { type: 'string', format: 'date' },
+          note: { type: 'string', maxLength: 1000 }
+        },
+        required: ['minutes', 'workDate']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: taskId } = req.params;
+      const { minutes, workDate, note } = req.body;
+
+      const task = await prisma.projectTask.findUnique({
+        where: { id: taskId },
+        include: { project: true }
+      });
+
+      if (!task) {
+        return reply.status(404).send({
+          success: false,
+          error: "Task not found"
+        });
+      }
+
+      const role = await getProjectRole(task.project, user.sub);
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const date = new Date(workDate);
+      if (date > new Date()) {
+        return reply.status(400).send({
+          success: false,
+          error: "Effort cannot be logged for a future date"
+        });
+      }
+
+      const entry = await prisma.taskEffortLog.create({
+        data: {
+          projectId: task.projectId,
+          taskId,
+          userId: user.sub,
+          userName: user.displayName || user.name || user.scope?.displayName || "Unknown User",
+          minutes,
+          workDate: date,
+          note
+        }
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: { entry }
+      });
+    } catch (error) {
+      console.error("Error logging effort:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to log effort"
+      });
+    }
+  });
+
+  // Edit my own entry while it is pending review
+  app.put("/v1/effort/:id", {
+    schema: {
+      tags: ["effort"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          minutes: { type: 'integer', minimum: 1, maximum: MAX_EFFORT_MINUTES_PER_ENTRY },
+          workDate: { type: 'string', format: 'date' },
+          note: { type: ['string', 'null'], maxLength: 1000 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+      const { minutes, workDate, note } = req.body;
+
+      const existing = await prisma.taskEffortLog.findUnique({
+        where: { id }
+      });
+
+      if (!existing || existing.userId !== user.sub) {
+        return reply.status(404).send({
+          success: false,
+          error: "Effort entry not found"
+        });
+      }
+
+      if (existing.status !== 'PENDING') {
+        return reply.status(400).send({
+          success: false,
+          error: "Reviewed entries can no longer be edited"
+        });
+      }
+
+      if (workDate && new Date(workDate) > new Date()) {
+        return reply.status(400).send({
+          success: false,
+          error: "Effort cannot be logged for a future date"
+        });
+      }
+
+      const entry = await prisma.taskEffortLog.update({
+        where: { id },
+        data: {
+          minutes,
+          workDate: workDate ? new Date(workDate) : undefined,
+          note
+        }
+      });
+
+      return reply.send({
+        success: true,
+        data: { entry }
+      });
+    } catch (error) {
+      console.error("Error updating effort entry:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to update effort entry"
+      });
+    }
+  });
+
+  // Delete my own entry while it is pending review
+  app.delete("/v1/effort/:id", {
+    schema: {
+      tags: ["effort"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const existing = await prisma.taskEffortLog.findUnique({
+        where: { id }
+      });
+
+      if (!existing || existing.userId !== user.sub) {
+        return reply.status(404).send({
+          success: false,
+          error: "Effort entry not found"
+        });
+      }
+
+      if (existing.status !== 'PENDING') {
+        return reply.status(400).send({
+          success: false,
+          error: "Reviewed entries can no longer be deleted"
+        });
+      }
+
+      await prisma.taskEffortLog.delete({
+        where: { id }
+      });
+
+      return reply.send({
+        success: true,
+        message: "Effort entry deleted successfully"
+      });
+    } catch (error) {
+      console.error("Error deleting effort entry:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to delete effort entry"
+      });
+    }
+  });
+
+  // Approve, adjust or reject an entry - Faculty owners and co-supervisors
+  app.post("/v1/effort/:id/review", {
+    schema: {
+      tags: ["effort"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['APPROVE', 'ADJUST', 'REJECT'] },
+          approvedMinutes: { type: 'integer', minimum: 0, maximum: MAX_EFFORT_MINUTES_PER_ENTRY },
+          note: { type: 'string', maxLength: 1000 }
+        },
+        required: ['action']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id } = req.params;
+      const { action, approvedMinutes, note } = req.body;
+
+      if (action === 'ADJUST' && approvedMinutes === undefined) {
+        return reply.status(400).send({
+          success: false,
+          error: "approvedMinutes is required when adjusting an entry"
+        });
+      }
+
+      const existing = await prisma.taskEffortLog.findUnique({
+        where: { id },
+        include: { task: { include: { project: true } } }
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: "Effort entry not found"
+        });
+      }
+
+      const role = await getProjectRole(existing.task.project, user.sub);
+
+      if (!hasProjectPermission(role, 'reviewEffort')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only project owners and co-supervisors can review effort"
+        });
+      }
+
+      const entry = await prisma.taskEffortLog.update({
+        where: { id },
+        data: {
+          ...applyEffortReview(existing, action, approvedMinutes),
+          reviewedById: user.sub,
+          reviewedByName: user.displayName || user.name || "Unknown Faculty",
+          reviewNote: note,
+          reviewedAt: new Date()
+        }
+      });
+
+      if (entry.userId !== user.sub) {
+        await notifyUser(entry.userId, {
+          type: 'effort-reviewed',
+          projectId: entry.projectId,
+          taskId: entry.taskId,
+          entryId: entry.id,
+          status: entry.status,
+          approvedMinutes: entry.approvedMinutes
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { entry }
+      });
+    } catch (error) {
+      console.error("Error reviewing effort entry:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to review effort entry"
+      });
+    }
+  });
+}
@@ -0,0 +1,224 @@
+import { FastifyInstance } from "fastify";
+import { decodeJwt } from "jose";
+import { authenticateUser } from "../middlewares/unifiedAuth";
+import { canUserAccessProject } from "../utils/projectPermissions";
+import { getUserRooms } from "../utils/enhancedWebSocket";
+import { getEventLog, LoggedEvent, replayRooms, RoomEvent, subscribeToRoomEvents } from "../utils/eventLog";
+
+// Server-Sent Events fallback for clients that can't open a WebSocket. A stream gets the same
+// room events as a socket of the same user; project rooms are picked with ?projects=. Each SSE
+// id is a cursor of the last eventId per room, so the browser's Last-Event-ID resumes every
+// room at once. A stream ends when the access token it was opened with expires, and drops a
+// project room as soon as the user loses access to the project.
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RETRY_MS = 5000;
+const MAX_PROJECT_ROOMS = 20;
+// setTimeout's limit; tokens live far shorter
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function encodeCursor(position: Record<string, number>): string {
+  return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+function decodeCursor(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'string' || !value) return {};
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// When the bearer token expires, in epoch milliseconds (null if it never does)
+function tokenExpiry(authorization: string): number | null {
+  const { exp } = decodeJwt(authorization.substring('Bearer '.length));
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+function writeEvent(raw: NodeJS.WritableStream, event: string, data: unknown, id?: string) {
+  raw.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export default async function eventRoutes(app: FastifyInstance) {
+
+  // Stream realtime updates - EventSource can't send headers, so ?token= is accepted too
+  app.get("/v1/events/stream", {
+    schema: {
+      tags: ["events"],
+      querystring: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+          projects: { type: 'string' },
+          lastEventId: { type: 'string' }
+        }
+      }
+    }
+  }, async (req: any, reply: any) => {
+    if (!req.headers.authorization && req.query.token) {
+      req.headers.authorization = `Bearer ${req.query.token}`;
+    }
+
+    let unsubscribe: (() => void) | null = null;
+    let closed = false;
+    reply.raw.on('close', () => {
+      closed = true;
+      unsubscribe?.();
+    });
+
+    let rooms: Set<string>;
+    let expiresAt: number | null;
+    const position: Record<string, number> = {};
+    const replayed: RoomEvent[] = [];
+    const resyncRequired: { room: string; lastEventId: number; latestEventId: number }[] = [];
+    const pending: RoomEvent[] = [];
+    let deliver: ((event: RoomEvent, isReplay?: boolean) => void) | null = null;
+
+    try {
+      let user;
+      try {
+        user = await authenticateUser(req);
+        expiresAt = tokenExpiry(req.headers.authorization);
+      } catch (error: any) {
+        return reply.status(error.statusCode || 401).send({
+          success: false,
+          error: error.message || "Authentication required"
+        });
+      }
+
+      const projectIds: string[] = Array.from(new Set<string>(
+        (req.query.projects || '').split(',').map((id: string) => id.trim()).filter(Boolean)
+      ));
+
+      if (projectIds.length > MAX_PROJECT_ROOMS) {
+        return reply.status(400).send({
+          success: false,
+          error: `At most ${MAX_PROJECT_ROOMS} projects can be streamed at once`
+        });
+      }
+
+      for (const projectId of projectIds) {
+        if (!(await canUserAccessProject(user.sub, projectId))) {
+          return reply.status(403).send({
+            success: false,
+            error: "Access denied to project",
+            projectId
+          });
+        }
+      }
+
+      rooms = new Set([
+        ...getUserRooms({
+          userId: user.sub,
+          collegeId: user.scope.collegeId,
+          department: user.scope.department,
+          roles: user.roles
+        }),
+        ...projectIds.map(projectId => `project:${projectId}`)
+      ]);
+
+      // Rooms missing from the cursor start from their current eventId
+      const cursor = decodeCursor(req.headers['last-event-id'] ?? req.query.lastEventId);
+      const log = getEventLog();
+      const start: Record<string, number> = {};
+      for (const room of rooms) {
+        const lastEventId = cursor[room];
+        start[room] = typeof lastEventId === 'number' && Number.isInteger(lastEventId) && lastEventId >= 0
+          ? lastEventId
+          : await log.latest(room);
+      }
+
+      // Subscribe before reading the log so nothing falls between the replay and live events
+      unsubscribe = await subscribeToRoomEvents(event => {
+        if (!rooms.has(event.room)) return;
+        if (deliver) deliver(event);
+        else pending.push(event);
+      });
+      if (closed) {
+        unsubscribe();
+        return reply;
+      }
+
+      for (const replay of await replayRooms(start, rooms)) {
+        position[replay.room] = replay.resyncRequired ? replay.latestId : replay.lastEventId;
+        if (replay.resyncRequired) {
+          resyncRequired.push({ room: replay.room, lastEventId: replay.lastEventId, latestEventId: replay.latestId });
+        } else {
+          replayed.push(...replay.events.map((entry: LoggedEvent) => ({ ...entry, room: replay.room })));
+        }
+      }
+    } catch (error) {
+      unsubscribe?.();
+      console.error("Error opening event stream:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to open event stream"
+      });
+    }
+
+    reply.hijack();
+    const raw = reply.raw;
+    raw.writeHead(200, {
+      ...reply.getHeaders(),
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    raw.write(`retry: ${RETRY_MS}\n\n`);
+
+    // Events at or below a room's position were already sent (replay and live can overlap)
+    deliver = (event: RoomEvent, isReplay = false) => {
+      if (event.id <= (position[event.room] ?? 0)) return;
+      position[event.room] = event.id;
+      writeEvent(raw, event.event, {
+        ...event.data,
+        eventId: event.id,
+        room: event.room,
+        ...(isReplay ? { replayed: true } : {})
+      }, encodeCursor(position));
+
+      // Sent to the user's notification rooms when they leave or are removed from a project.
+      // Replayed ones predate the access check made when the stream opened.
+      if (event.event === 'project-access-revoked' && !isReplay) {
+        rooms.delete(`project:${event.data.projectId}`);
+      }
+    };
+
+    for (const resync of resyncRequired) {
+      writeEvent(raw, 'resync-required', { ...resync, timestamp: new Date().toISOString() }, encodeCursor(position));
+    }
+    for (const event of replayed) {
+      deliver(event, true);
+    }
+    for (const event of pending.splice(0)) {
+      deliver(event);
+    }
+
+    writeEvent(raw, 'ready', {
+      rooms: Array.from(rooms),
+      lastEventIds: position,
+      timestamp: new Date().toISOString()
+    }, encodeCursor(position));
+
+    if (closed) return;
+
+    // Keeps proxies from closing an idle stream and lets clients detect a dead one
+    const heartbeat = setInterval(() => {
+      writeEvent(raw, 'heartbeat', { timestamp: new Date().toISOString() });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Clients reconnect with a fresh token; the expired one would be refused
+    const expiry = expiresAt === null ? null : setTimeout(() => {
+      writeEvent(raw, 'token-expired', { timestamp: new Date().toISOString() });
+      raw.end();
+    }, Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMER_MS));
+
+    raw.on('close', () => {
+      clearInterval(heartbeat);
+      if (expiry) clearTimeout(expiry);
+    });
+  });
+}
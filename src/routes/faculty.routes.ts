@@ -1,9 +1,21 @@
 import { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
 import { requireFaculty, requireFacultyOrStudent, canAccessProject, UnifiedAuthPayload } from "../middlewares/unifiedAuth";
 import { prisma } from "../db";
 import { emitProjectUpdate, emitApplicationUpdate } from "../utils/enhancedWebSocket";
+import { notifyUser } from "../utils/notifications";
 import { CacheInvalidation } from "../utils/cacheInvalidation";
 import { projectValidationMiddleware } from "../middlewares/inputValidation";
+import {
+  APPLICATION_STATUSES,
+  CONFIGURABLE_APPLICATION_STAGES,
+  InvalidTransitionError,
+  getAllowedTransitions
+} from "../utils/applicationPipeline";
+import { parseApplicationForm, getProjectForm } from "../utils/applicationForm";
+import { changeApplicationStatus, fillOpenSlots, announcePromotions } from "../utils/waitlist";
+import { applyApplicationMembershipChange } from "../utils/projectMembership";
+import { getProjectAccess, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
 import { 
   projectSchemas, 
   applicationSchemas, 
@@ -43,11 +55,25 @@ export default async function facultyRoutes(app: FastifyInstance) {
   }, async (req: any, reply: any) => {
     try {
       const user: UnifiedAuthPayload = await requireFaculty(req);
-      const projectData = req.body;
+      const { applicationForm, ...projectData } = req.body;
+
+      let form: Prisma.InputJsonValue | undefined;
+      if (applicationForm) {
+        const parsedForm = parseApplicationForm(applicationForm);
+        if (!parsedForm.valid) {
+          return reply.status(400).send({
+            success: false,
+            error: "Invalid application form",
+            details: parsedForm.errors
+          });
+        }
+        form = parsedForm.form;
+      }
 
       const project = await prisma.project.create({
         data: {
           ...projectData,
+          applicationForm: form,
           authorId: user.sub,
           authorName: user.displayName || user.name || "Unknown Faculty",
           authorDepartment: user.scope.department,
@@ -165,7 +191,21 @@ export default async function facultyRoutes(app: FastifyInstance) {
           progressStatus: { 
             type: 'string', 
             enum: ['OPEN', 'IN_PROGRESS', 'COMPLETED'] 
-          }
+          },
+          applicationStages: {
+            type: 'array',
+            items: { type: 'string', enum: CONFIGURABLE_APPLICATION_STAGES },
+            uniqueItems: true
+          },
+          applicationForm: {
+            type: 'array',
+            items: { type: 'object', additionalProperties: true },
+            nullable: true
+          },
+          waitlistEnabled: { type: 'boolean' },
+          waitlistPromotion: { type: 'string', enum: ['AUTO_ACCEPT', 'OFFER'] },
+          offerWindowHours: { type: 'integer', minimum: 1, maximum: 336 },
+          taskCreationPolicy: { type: 'string', enum: ['SUPERVISORS_ONLY', 'MEMBERS'] }
         }
       },
       response: { 200: { type: 'object' } }
@@ -174,12 +214,26 @@ export default async function facultyRoutes(app: FastifyInstance) {
     try {
       const user = await requireFaculty(req);
       const { id } = req.params;
-      const updateData = req.body;
+      const { applicationForm, ...updateData } = req.body;
+
+      if (applicationForm !== undefined) {
+        if (applicationForm === null) {
+          updateData.applicationForm = Prisma.JsonNull;
+        } else {
+          const parsedForm = parseApplicationForm(applicationForm);
+          if (!parsedForm.valid) {
+            return reply.status(400).send({
+              success: false,
+              error: "Invalid application form",
+              details: parsedForm.errors
+            });
+          }
+          updateData.applicationForm = parsedForm.form;
+        }
+      }
 
-      // Verify project ownership
-      const existingProject = await prisma.project.findUnique({
-        where: { id }
-      });
+      // Verify project permissions (owners and co-supervisors)
+      const { project: existingProject, role } = await getProjectAccess(id, user.sub);
 
       if (!existingProject) {
         return reply.status(404).send({
@@ -188,16 +242,24 @@ export default async function facultyRoutes(app: FastifyInstance) {
         });
       }
 
-      if (existingProject.authorId !== user.sub) {
+      if (!hasProjectPermission(role, 'edit')) {
         return reply.status(403).send({
           success: false,
-          error: "Only project author can update the project"
+          error: "Only project owners and co-supervisors can update the project"
         });
       }
 
-      const updatedProject = await prisma.project.update({
-        where: { id },
-        data: updateData
+      // Extra capacity or a newly enabled waitlist may let queued students in
+      const capacityChanged = updateData.maxStudents !== undefined || updateData.waitlistEnabled !== undefined;
+
+      const { updatedProject, promotions } = await prisma.$transaction(async (tx) => {
+        const updatedProject = await tx.project.update({
+          where: { id },
+          data: updateData
+        });
+
+        const promotions = capacityChanged ? await fillOpenSlots(tx, id) : [];
+        return { updatedProject, promotions };
       });
 
       // CRITICAL: Clear cache BEFORE sending response
@@ -218,6 +280,8 @@ export default async function facultyRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      await announcePromotions(promotions);
+
       return reply.send({
         success: true,
         data: { project: updatedProject }
@@ -249,10 +313,8 @@ export default async function facultyRoutes(app: FastifyInstance) {
       const user = await requireFaculty(req);
       const { id } = req.params;
 
-      // Verify project ownership
-      const existingProject = await prisma.project.findUnique({
-        where: { id }
-      });
+      // Verify project permissions (owners only)
+      const { project: existingProject, role } = await getProjectAccess(id, user.sub);
 
       if (!existingProject) {
         return reply.status(404).send({
@@ -261,10 +323,10 @@ export default async function facultyRoutes(app: FastifyInstance) {
         });
       }
 
-      if (existingProject.authorId !== user.sub) {
+      if (!hasProjectPermission(role, 'delete')) {
         return reply.status(403).send({
           success: false,
-          error: "Only project author can delete the project"
+          error: "Only project owners can delete the project"
         });
       }
 
@@ -341,11 +403,9 @@ export default async function facultyRoutes(app: FastifyInstance) {
       
       const { id } = req.params;
 
-      // Verify project ownership
-      console.log('[DEBUG] Checking project ownership for project:', id);
-      const project = await prisma.project.findUnique({
-        where: { id }
-      });
+      // Verify project permissions
+      console.log('[DEBUG] Checking project permissions for project:', id);
+      const { project, role } = await getProjectAccess(id, user.sub);
       console.log('[DEBUG] Project found:', project ? {
         id: project.id,
         title: project.title,
@@ -360,11 +420,11 @@ export default async function facultyRoutes(app: FastifyInstance) {
         });
       }
 
-      if (project.authorId !== user.sub) {
-        console.log('[DEBUG] User not authorized - project author:', project.authorId, 'user:', user.sub);
+      if (!hasProjectPermission(role, 'reviewApplications')) {
+        console.log('[DEBUG] User not authorized - project role:', role, 'user:', user.sub);
         return reply.status(403).send({
           success: false,
-          error: "Only project author can view applications"
+          error: "Only project owners and co-supervisors can view applications"
         });
       }
 
@@ -385,7 +445,10 @@ export default async function facultyRoutes(app: FastifyInstance) {
 
       const response = {
         success: true,
-        data: { applications }
+        data: {
+          applications,
+          applicationForm: getProjectForm(project.applicationForm)
+        }
       };
       
       console.log('[DEBUG] Sending response:', JSON.stringify(response, null, 2));
@@ -435,9 +498,9 @@ export default async function facultyRoutes(app: FastifyInstance) {
         properties: {
           status: { 
             type: 'string', 
-            enum: ['PENDING', 'ACCEPTED', 'REJECTED'] 
+            enum: APPLICATION_STATUSES
           },
-          reason: { type: 'string' }
+          reason: { type: 'string', maxLength: 500 }
         },
         required: ['status']
       },
@@ -466,20 +529,25 @@ export default async function facultyRoutes(app: FastifyInstance) {
         });
       }
 
-      // Verify project ownership
-      if (application.project.authorId !== facultyAuth.sub) {
+      // Verify project permissions
+      const role = await getProjectRole({ id: application.projectId, authorId: application.project.authorId }, facultyAuth.sub);
+      if (!hasProjectPermission(role, 'reviewApplications')) {
         return reply.status(403).send({
           success: false,
-          error: "Only project author can update application status"
+          error: "Only project owners and co-supervisors can update application status"
         });
       }
 
-      const updatedApplication = await prisma.appliedProject.update({
-        where: { id },
-        data: { 
-          status
-        }
-      });
+      // The transition is checked on the application as it is under the project's slot lock
+      const { fromStatus, application: updatedApplication, promotions } = await prisma.$transaction((tx) =>
+        changeApplicationStatus(tx, {
+          applicationId: id,
+          toStatus: status,
+          changedById: facultyAuth.sub,
+          changedByRole: 'FACULTY',
+          reason
+        })
+      );
 
       // CRITICAL: Clear cache BEFORE sending response
       await CacheInvalidation.invalidateByEntity('application', id, 'update', {
@@ -497,11 +565,46 @@ export default async function facultyRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      if (updatedApplication.status !== fromStatus) {
+        await notifyUser(updatedApplication.studentId, {
+          type: 'application-status-changed',
+          projectId: updatedApplication.projectId,
+          projectTitle: application.project.title,
+          applicationId: updatedApplication.id,
+          fromStatus,
+          status: updatedApplication.status
+        });
+      }
+
+      await applyApplicationMembershipChange(
+        updatedApplication.projectId,
+        updatedApplication.studentId,
+        fromStatus,
+        updatedApplication.status
+      );
+
+      await announcePromotions(promotions);
+
       return reply.send({
         success: true,
         data: { application: updatedApplication }
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error instanceof InvalidTransitionError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+          allowedStatuses: getAllowedTransitions(error.fromStatus, error.applicationStages, 'FACULTY')
+        });
+      }
+
+      if (error.message === "PROJECT_FULL") {
+        return reply.status(400).send({
+          success: false,
+          error: "Project has reached maximum number of students"
+        });
+      }
+
       console.error("Error updating application status:", error);
       return reply.status(500).send({
         success: false,
@@ -166,7 +166,7 @@ export default async function healthRoutes(app: FastifyInstance) {
       cpu: process.cpuUsage(),
       
       // WebSocket metrics
-      websocket: getConnectionStats(),
+      websocket: await getConnectionStats(),
       
       // Process metrics
       process: {
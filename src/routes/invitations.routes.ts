@@ -0,0 +1,650 @@
+import { FastifyInstance } from "fastify";
+import { requireFaculty, requireStudent, UnifiedAuthPayload } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { emitInvitationUpdate, emitApplicationUpdate } from "../utils/enhancedWebSocket";
+import { CacheInvalidation } from "../utils/cacheInvalidation";
+import { getProjectAccess, hasProjectPermission } from "../utils/projectPermissions";
+import { recordStatusChange } from "../utils/applicationPipeline";
+import { hasOpenSlot, syncWaitlist, announcePromotions } from "../utils/waitlist";
+import { applyMembershipChange } from "../utils/projectMembership";
+import { notifyUser } from "../utils/notifications";
+
+const DEFAULT_INVITATION_DAYS = 7;
+const MAX_INVITATION_DAYS = 30;
+
+// Invitations addressed to a student, either directly or through their college member ID
+function invitationsForStudent(user: UnifiedAuthPayload) {
+  const recipients: any[] = [{ studentId: user.sub }];
+
+  if (user.scope.collegeMemberId && user.scope.collegeId) {
+    recipients.push({
+      studentId: null,
+      studentMemberId: user.scope.collegeMemberId,
+      project: { collegeId: user.scope.collegeId }
+    });
+  }
+
+  return { OR: recipients };
+}
+
+// Tell a student about an invitation once it is addressed to their user id
+async function announceInvitation(
+  studentId: string,
+  invitation: { id: string; invitedById: string; invitedByName: string; expiresAt: Date },
+  project: { id: string; title: string; collegeId: string }
+) {
+  emitInvitationUpdate(studentId, 'student', {
+    type: 'invitation-received',
+    projectId: project.id,
+    collegeId: project.collegeId,
+    invitation: { ...invitation, project: { id: project.id, title: project.title } },
+    timestamp: new Date().toISOString()
+  });
+
+  await notifyUser(studentId, {
+    type: 'invitation-received',
+    projectId: project.id,
+    projectTitle: project.title,
+    invitationId: invitation.id,
+    expiresAt: invitation.expiresAt,
+    invitedBy: { id: invitation.invitedById, name: invitation.invitedByName }
+  });
+}
+
+// Address member-ID invitations to the student who holds that member ID, and announce them
+async function claimMemberInvitations(user: UnifiedAuthPayload) {
+  if (!user.scope.collegeMemberId || !user.scope.collegeId) return;
+
+  const unclaimed = await prisma.projectInvitation.findMany({
+    where: {
+      studentId: null,
+      studentMemberId: user.scope.collegeMemberId,
+      project: { collegeId: user.scope.collegeId }
+    },
+    include: { project: { select: { id: true, title: true, collegeId: true } } }
+  });
+
+  for (const { project, ...invitation } of unclaimed) {
+    const claimed = await prisma.projectInvitation.updateMany({
+      where: { id: invitation.id, studentId: null },
+      data: { studentId: user.sub }
+    });
+
+    if (claimed.count > 0 && invitation.status === 'PENDING' && invitation.expiresAt > new Date()) {
+      await announceInvitation(user.sub, invitation, project);
+    }
+  }
+}
+
+export default async function invitationRoutes(app: FastifyInstance) {
+
+  // Invite a student to a project - Project owners and co-supervisors
+  app.post("/v1/projects/:id/invitations", {
+    schema: {
+      tags: ["invitations"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          studentId: { type: 'string', minLength: 1 },
+          collegeMemberId: { type: 'string', minLength: 1 },
+          message: { type: 'string', maxLength: 1000 },
+          expiresInDays: { type: 'integer', minimum: 1, maximum: MAX_INVITATION_DAYS, default: DEFAULT_INVITATION_DAYS }
+        }
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id: projectId } = req.params;
+      const { studentId, collegeMemberId, message, expiresInDays = DEFAULT_INVITATION_DAYS } = req.body;
+
+      if (!studentId === !collegeMemberId) {
+        return reply.status(400).send({
+          success: false,
+          error: "Provide either studentId or collegeMemberId"
+        });
+      }
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'reviewApplications')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only project owners and co-supervisors can invite students"
+        });
+      }
+
+      if (project.moderationStatus !== 'APPROVED' || project.archivedAt) {
+        return reply.status(400).send({
+          success: false,
+          error: "Students can only be invited to approved, active projects"
+        });
+      }
+
+      const invitation = await prisma.$transaction(async (tx) => {
+        if (!(await hasOpenSlot(tx, projectId, project.maxStudents))) {
+          throw new Error("PROJECT_FULL");
+        }
+
+        const recipient = studentId ? { studentId } : { studentMemberId: collegeMemberId };
+
+        const pending = await tx.projectInvitation.findFirst({
+          where: { projectId, ...recipient, status: 'PENDING', expiresAt: { gt: new Date() } }
+        });
+
+        if (pending) {
+          throw new Error("ALREADY_INVITED");
+        }
+
+        if (studentId) {
+          const membership = await tx.appliedProject.findFirst({
+            where: { projectId, studentId, status: 'ACCEPTED' }
+          });
+
+          if (membership) {
+            throw new Error("ALREADY_MEMBER");
+          }
+        }
+
+        return tx.projectInvitation.create({
+          data: {
+            projectId,
+            ...recipient,
+            invitedById: user.sub,
+            invitedByName: user.displayName || user.name || "Unknown Faculty",
+            message,
+            expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+          }
+        });
+      });
+
+      // Member-ID invitations are announced once the student claims them (see claimMemberInvitations)
+      if (invitation.studentId) {
+        await announceInvitation(invitation.studentId, invitation, project);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: { invitation }
+      });
+    } catch (error: any) {
+      console.error("Error inviting student:", error);
+
+      if (error.message === "PROJECT_FULL") {
+        return reply.status(400).send({
+          success: false,
+          error: "Project has reached maximum number of students"
+        });
+      }
+
+      if (error.message === "ALREADY_INVITED") {
+        return reply.status(400).send({
+          success: false,
+          error: "This student already has a pending invitation"
+        });
+      }
+
+      if (error.message === "ALREADY_MEMBER") {
+        return reply.status(400).send({
+          success: false,
+          error: "This student is already a project member"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to invite student"
+      });
+    }
+  });
+
+  // List invitations sent for a project - Project owners and co-supervisors
+  app.get("/v1/projects/:id/invitations", {
+    schema: {
+      tags: ["invitations"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id: projectId } = req.params;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'reviewApplications')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only project owners and co-supervisors can view invitations"
+        });
+      }
+
+      const invitations = await prisma.projectInvitation.findMany({
+        where: { projectId },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: { invitations }
+      });
+    } catch (error) {
+      console.error("Error fetching project invitations:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch invitations"
+      });
+    }
+  });
+
+  // Cancel a pending invitation - Project owners and co-supervisors
+  app.delete("/v1/invitations/:id", {
+    schema: {
+      tags: ["invitations"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id } = req.params;
+
+      const invitation = await prisma.projectInvitation.findUnique({
+        where: { id }
+      });
+
+      if (!invitation) {
+        return reply.status(404).send({
+          success: false,
+          error: "Invitation not found"
+        });
+      }
+
+      const { project, role } = await getProjectAccess(invitation.projectId, user.sub);
+
+      if (!project || !hasProjectPermission(role, 'reviewApplications')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only project owners and co-supervisors can cancel invitations"
+        });
+      }
+
+      if (invitation.status !== 'PENDING') {
+        return reply.status(400).send({
+          success: false,
+          error: "Only pending invitations can be cancelled"
+        });
+      }
+
+      const cancelled = await prisma.projectInvitation.update({
+        where: { id },
+        data: { status: 'CANCELLED', respondedAt: new Date() }
+      });
+
+      if (cancelled.studentId) {
+        emitInvitationUpdate(cancelled.studentId, 'student', {
+          type: 'invitation-cancelled',
+          projectId: cancelled.projectId,
+          collegeId: project.collegeId,
+          invitation: cancelled,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { invitation: cancelled }
+      });
+    } catch (error) {
+      console.error("Error cancelling invitation:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to cancel invitation"
+      });
+    }
+  });
+
+  // Student invitation inbox - Student only
+  app.get("/v1/invitations/mine", {
+    schema: {
+      tags: ["invitations"],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'string',
+            enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED', 'CANCELLED'],
+            default: 'PENDING'
+          }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+      const { status = 'PENDING' } = req.query as any;
+
+      // Claim member-ID invitations and lapse expired ones before listing
+      await claimMemberInvitations(user);
+      await prisma.projectInvitation.updateMany({
+        where: { studentId: user.sub, status: 'PENDING', expiresAt: { lte: new Date() } },
+        data: { status: 'EXPIRED' }
+      });
+
+      const invitations = await prisma.projectInvitation.findMany({
+        where: {
+          studentId: user.sub,
+          status,
+          project: { archivedAt: null }
+        },
+        include: {
+          project: {
+            select: {
+              id: true,
+              title: true,
+              description: true,
+              projectType: true,
+              skills: true,
+              authorName: true,
+              authorDepartment: true,
+              maxStudents: true,
+              deadline: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: { invitations }
+      });
+    } catch (error) {
+      console.error("Error fetching invitation inbox:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch invitations"
+      });
+    }
+  });
+
+  // Accept an invitation - Invited student only
+  app.post("/v1/invitations/:id/accept", {
+    schema: {
+      tags: ["invitations"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+      const { id } = req.params;
+
+      const result = await prisma.$transaction(async (tx) => {
+        const invitation = await tx.projectInvitation.findFirst({
+          where: { id, ...invitationsForStudent(user) },
+          include: {
+            project: {
+              select: { id: true, title: true, authorId: true, collegeId: true, maxStudents: true, archivedAt: true }
+            }
+          }
+        });
+
+        if (!invitation || invitation.project.archivedAt) {
+          throw new Error("NOT_FOUND");
+        }
+
+        if (invitation.status !== 'PENDING') {
+          throw new Error("NOT_PENDING");
+        }
+
+        if (invitation.expiresAt <= new Date()) {
+          await tx.projectInvitation.update({
+            where: { id },
+            data: { status: 'EXPIRED' }
+          });
+          throw new Error("EXPIRED");
+        }
+
+        const existing = await tx.appliedProject.findUnique({
+          where: { projectId_studentId: { projectId: invitation.projectId, studentId: user.sub } }
+        });
+
+        if (existing?.status === 'ACCEPTED') {
+          throw new Error("ALREADY_MEMBER");
+        }
+
+        // A live waitlist offer held by this student already counts towards capacity
+        const holdsSlot = existing?.status === 'OFFERED' && !!existing.offerExpiresAt && existing.offerExpiresAt > new Date();
+        if (!holdsSlot && !(await hasOpenSlot(tx, invitation.projectId, invitation.project.maxStudents))) {
+          throw new Error("PROJECT_FULL");
+        }
+
+        const application = existing
+          ? await tx.appliedProject.update({
+              where: { id: existing.id },
+              data: { status: 'ACCEPTED' }
+            })
+          : await tx.appliedProject.create({
+              data: {
+                projectId: invitation.projectId,
+                studentId: user.sub,
+                studentName: user.displayName || user.name || user.scope?.displayName || "Unknown Student",
+                studentDepartment: user.scope.department || "",
+                message: invitation.message || "Accepted faculty invitation",
+                status: 'ACCEPTED'
+              }
+            });
+
+        await recordStatusChange(tx, {
+          applicationId: application.id,
+          fromStatus: existing?.status ?? null,
+          toStatus: 'ACCEPTED',
+          changedById: user.sub,
+          changedByRole: 'STUDENT',
+          reason: 'Accepted faculty invitation'
+        });
+
+        const promotions = existing
+          ? await syncWaitlist(tx, {
+              projectId: invitation.projectId,
+              applicationId: existing.id,
+              fromStatus: existing.status,
+              toStatus: 'ACCEPTED',
+              waitlistPosition: existing.waitlistPosition,
+              offerExpiresAt: existing.offerExpiresAt
+            })
+          : [];
+
+        const accepted = await tx.projectInvitation.update({
+          where: { id },
+          data: {
+            status: 'ACCEPTED',
+            studentId: user.sub,
+            studentName: application.studentName,
+            respondedAt: new Date()
+          }
+        });
+
+        return { invitation: accepted, application, project: invitation.project, promotions };
+      });
+
+      await CacheInvalidation.invalidateByEntity('application', result.application.id, 'update', {
+        projectId: result.project.id,
+        studentId: user.sub,
+        collegeId: result.project.collegeId
+      });
+
+      emitApplicationUpdate(result.project.authorId, {
+        type: 'application-status-changed',
+        application: result.application,
+        projectId: result.project.id,
+        collegeId: result.project.collegeId,
+        timestamp: new Date().toISOString()
+      });
+
+      emitInvitationUpdate(result.invitation.invitedById, 'faculty', {
+        type: 'invitation-accepted',
+        projectId: result.project.id,
+        collegeId: result.project.collegeId,
+        invitation: result.invitation,
+        timestamp: new Date().toISOString()
+      });
+
+      await applyMembershipChange(result.project.id, user.sub, 'joined');
+
+      await announcePromotions(result.promotions);
+
+      return reply.send({
+        success: true,
+        data: { invitation: result.invitation, application: result.application }
+      });
+    } catch (error: any) {
+      console.error("Error accepting invitation:", error);
+
+      if (error.message === "NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Invitation not found"
+        });
+      }
+
+      if (error.message === "NOT_PENDING") {
+        return reply.status(400).send({
+          success: false,
+          error: "Invitation has already been answered"
+        });
+      }
+
+      if (error.message === "EXPIRED") {
+        return reply.status(400).send({
+          success: false,
+          error: "This invitation has expired"
+        });
+      }
+
+      if (error.message === "ALREADY_MEMBER") {
+        return reply.status(400).send({
+          success: false,
+          error: "You are already a member of this project"
+        });
+      }
+
+      if (error.message === "PROJECT_FULL") {
+        return reply.status(400).send({
+          success: false,
+          error: "Project has reached maximum number of students"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to accept invitation"
+      });
+    }
+  });
+
+  // Decline an invitation - Invited student only
+  app.post("/v1/invitations/:id/decline", {
+    schema: {
+      tags: ["invitations"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+      const { id } = req.params;
+
+      const invitation = await prisma.projectInvitation.findFirst({
+        where: { id, ...invitationsForStudent(user) },
+        include: { project: { select: { collegeId: true } } }
+      });
+
+      if (!invitation) {
+        return reply.status(404).send({
+          success: false,
+          error: "Invitation not found"
+        });
+      }
+
+      if (invitation.status !== 'PENDING') {
+        return reply.status(400).send({
+          success: false,
+          error: "Invitation has already been answered"
+        });
+      }
+
+      const declined = await prisma.projectInvitation.update({
+        where: { id },
+        data: { status: 'DECLINED', studentId: user.sub, respondedAt: new Date() }
+      });
+
+      emitInvitationUpdate(declined.invitedById, 'faculty', {
+        type: 'invitation-declined',
+        projectId: declined.projectId,
+        collegeId: invitation.project.collegeId,
+        invitation: declined,
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        data: { invitation: declined }
+      });
+    } catch (error) {
+      console.error("Error declining invitation:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to decline invitation"
+      });
+    }
+  });
+}
@@ -4,6 +4,27 @@
 import { FastifyInstance } from "fastify";
 import { requireFacultyOrStudent } from "../middlewares/unifiedAuth";
 import { prisma } from "../db";
+import { CryptoManager } from "../utils/crypto";
+import { getProjectAccess, getProjectMembers, hasProjectPermission } from "../utils/projectPermissions";
+import {
+  deviceRef,
+  getActiveDevices,
+  listRecipientDevices,
+  requireKeyRotationForRevokedDevice,
+  WrappedKeyBlobs
+} from "../utils/conversationKeys";
+import { emitConversationKeyUpdate } from "../utils/enhancedWebSocket";
+import { notifyUser } from "../utils/notifications";
+import {
+  appendKeyLogEntry,
+  getConsistencyProof,
+  getInclusionProof,
+  getTreeHead,
+  KeyLogAction,
+  listKeyLogEntries
+} from "../utils/keyTransparency";
+
+const MAX_DEVICES_PER_USER = 10;
 
 export default async function keyRoutes(app: FastifyInstance) {
   
@@ -30,6 +51,17 @@ export default async function keyRoutes(app: FastifyInstance) {
             type: 'string', 
             enum: ['x25519'], 
             default: 'x25519' 
+          },
+          signingPublicKey: {
+            type: 'string',
+            pattern: '^[A-Za-z0-9+/=]+$',
+            description: 'Base64 encoded Ed25519 public key the device signs messages with'
+          },
+          name: {
+            type: 'string',
+            minLength: 1,
+            maxLength: 100,
+            description: 'Friendly device name, e.g. "Work laptop"'
           }
         },
         required: ['publicKey', 'deviceId']
@@ -39,7 +71,13 @@ export default async function keyRoutes(app: FastifyInstance) {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            message: { type: 'string' }
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                logIndex: { type: 'integer', nullable: true }
+              }
+            }
           }
         }
       }
@@ -47,7 +85,7 @@ export default async function keyRoutes(app: FastifyInstance) {
   }, async (req: any, reply: any) => {
     try {
       const user = await requireFacultyOrStudent(req);
-      const { publicKey, deviceId, keyType = 'x25519' } = req.body;
+      const { publicKey, deviceId, keyType = 'x25519', signingPublicKey, name } = req.body;
 
       // Validate key format (basic validation)
       if (!isValidBase64(publicKey) || publicKey.length !== 44) {
@@ -57,38 +95,308 @@ export default async function keyRoutes(app: FastifyInstance) {
         });
       }
 
-      // Upsert public key (replace if exists for same device)
-      await prisma.userPublicKey.upsert({
-        where: {
-          userId_deviceId: {
+      if (signingPublicKey !== undefined && !CryptoManager.isValidSigningPublicKey(signingPublicKey)) {
+        return reply.status(400).send({
+          success: false,
+          error: "Invalid signing public key format"
+        });
+      }
+
+      // Device checks and the write share one transaction under a per-user lock, so
+      // concurrent registrations can't get past the device limit together
+      const { logIndex, logAction } = await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`user-devices:${user.sub}`}))`;
+
+        const existing = await tx.userPublicKey.findUnique({
+          where: {
+            userId_deviceId: {
+              userId: user.sub,
+              deviceId
+            }
+          }
+        });
+
+        if (existing?.revokedAt) {
+          throw new Error("DEVICE_REVOKED");
+        }
+
+        if (!existing) {
+          const activeDevices = await tx.userPublicKey.count({
+            where: { userId: user.sub, revokedAt: null }
+          });
+
+          if (activeDevices >= MAX_DEVICES_PER_USER) {
+            throw new Error("TOO_MANY_DEVICES");
+          }
+        }
+
+        // New or changed keys are published in the transparency log
+        const effectiveSigningKey = signingPublicKey ?? existing?.signingPublicKey ?? null;
+        const logAction: KeyLogAction | null = !existing || existing.logIndex === null
+          ? 'REGISTERED'
+          : existing.publicKey !== publicKey || existing.keyType !== keyType || existing.signingPublicKey !== effectiveSigningKey
+            ? 'ROTATED'
+            : null;
+
+        const logIndex = logAction
+          ? await appendKeyLogEntry(tx, {
+              action: logAction,
+              userId: user.sub,
+              deviceId,
+              keyType,
+              publicKey,
+              signingPublicKey: effectiveSigningKey
+            })
+          : existing?.logIndex ?? null;
+
+        // Upsert public key (replace if exists for same device)
+        await tx.userPublicKey.upsert({
+          where: {
+            userId_deviceId: {
+              userId: user.sub,
+              deviceId
+            }
+          },
+          create: {
             userId: user.sub,
-            deviceId
+            deviceId,
+            publicKey,
+            keyType,
+            signingPublicKey,
+            name,
+            logIndex,
+            lastSeenAt: new Date(),
+            createdAt: new Date()
+          },
+          update: {
+            publicKey,
+            keyType,
+            ...(signingPublicKey !== undefined ? { signingPublicKey } : {}),
+            ...(name !== undefined ? { name } : {}),
+            logIndex,
+            lastSeenAt: new Date(),
+            updatedAt: new Date()
           }
-        },
-        create: {
-          userId: user.sub,
+        });
+
+        return { logIndex, logAction };
+      });
+
+      // A session that registers or replaces a device's keys can read future messages, so
+      // the user's other devices hear about it (e.g. from a stolen session after a revoke)
+      if (logAction) {
+        await notifyUser(user.sub, {
+          type: 'device-registered',
+          action: logAction,
           deviceId,
-          publicKey,
-          keyType,
-          createdAt: new Date()
+          deviceName: name ?? null,
+          logIndex
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        message: "Public key registered successfully",
+        data: { logIndex }
+      });
+
+    } catch (error: any) {
+      if (error.message === "DEVICE_REVOKED") {
+        return reply.status(409).send({
+          success: false,
+          error: "This device was revoked; register it again under a new deviceId"
+        });
+      }
+
+      if (error.message === "TOO_MANY_DEVICES") {
+        return reply.status(409).send({
+          success: false,
+          error: `At most ${MAX_DEVICES_PER_USER} devices can be registered; revoke one first`,
+          maxDevices: MAX_DEVICES_PER_USER
+        });
+      }
+
+      console.error("Error uploading public key:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to register public key"
+      });
+    }
+  });
+
+  // List my devices, including revoked ones
+  app.get("/v1/profile/keys", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "List my registered devices",
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+
+      const devices = await prisma.userPublicKey.findMany({
+        where: { userId: user.sub },
+        select: {
+          deviceId: true,
+          name: true,
+          keyType: true,
+          signingPublicKey: true,
+          createdAt: true,
+          updatedAt: true,
+          lastSeenAt: true,
+          revokedAt: true
         },
-        update: {
-          publicKey,
-          keyType,
-          updatedAt: new Date()
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          devices: devices.map(device => ({ ...device, isRevoked: device.revokedAt !== null })),
+          activeCount: devices.filter(device => !device.revokedAt).length,
+          maxDevices: MAX_DEVICES_PER_USER
         }
       });
 
-      return reply.status(201).send({
+    } catch (error) {
+      console.error("Error listing devices:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to list devices"
+      });
+    }
+  });
+
+  // Rename one of my devices
+  app.patch("/v1/profile/keys/:deviceId", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "Rename a device",
+      params: {
+        type: 'object',
+        properties: {
+          deviceId: { type: 'string' }
+        },
+        required: ['deviceId']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100 }
+        },
+        required: ['name']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { deviceId } = req.params;
+      const { name } = req.body;
+
+      const { count } = await prisma.userPublicKey.updateMany({
+        where: { userId: user.sub, deviceId, revokedAt: null },
+        data: { name }
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: "Device not found"
+        });
+      }
+
+      return reply.send({
         success: true,
-        message: "Public key registered successfully"
+        data: { deviceId, name }
       });
 
     } catch (error) {
-      console.error("Error uploading public key:", error);
+      console.error("Error renaming device:", error);
       return reply.status(500).send({
         success: false,
-        error: "Failed to register public key"
+        error: "Failed to rename device"
+      });
+    }
+  });
+
+  // Revoke one of my devices - it stops receiving wrapped keys and every conversation it holds a key for is rotated
+  app.delete("/v1/profile/keys/:deviceId", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "Revoke a device",
+      params: {
+        type: 'object',
+        properties: {
+          deviceId: { type: 'string' }
+        },
+        required: ['deviceId']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { deviceId } = req.params;
+
+      const device = await prisma.userPublicKey.findUnique({
+        where: { userId_deviceId: { userId: user.sub, deviceId } }
+      });
+
+      if (!device || device.revokedAt) {
+        return reply.status(404).send({
+          success: false,
+          error: "Device not found"
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.userPublicKey.updateMany({
+          where: { userId: user.sub, deviceId, revokedAt: null },
+          data: { revokedAt: new Date() }
+        });
+
+        if (count === 0) {
+          throw new Error("ALREADY_REVOKED");
+        }
+
+        const logIndex = await appendKeyLogEntry(tx, {
+          action: 'REVOKED',
+          userId: user.sub,
+          deviceId,
+          keyType: device.keyType,
+          publicKey: device.publicKey,
+          signingPublicKey: device.signingPublicKey
+        });
+
+        await tx.userPublicKey.update({
+          where: { userId_deviceId: { userId: user.sub, deviceId } },
+          data: { logIndex }
+        });
+      });
+
+      const rotatedProjectIds = await requireKeyRotationForRevokedDevice(user.sub, deviceId);
+
+      console.log(`🔑 Device ${deviceId} of ${user.sub} revoked; rotation required in ${rotatedProjectIds.length} conversations`);
+
+      return reply.send({
+        success: true,
+        message: "Device revoked",
+        data: { deviceId, rotationRequiredProjectIds: rotatedProjectIds }
+      });
+
+    } catch (error: any) {
+      if (error.message === "ALREADY_REVOKED") {
+        return reply.status(404).send({
+          success: false,
+          error: "Device not found"
+        });
+      }
+      console.error("Error revoking device:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to revoke device"
       });
     }
   });
@@ -121,9 +429,22 @@ export default async function keyRoutes(app: FastifyInstance) {
                       deviceId: { type: 'string' },
                       publicKey: { type: 'string' },
                       keyType: { type: 'string' },
-                      createdAt: { type: 'string' }
+                      signingPublicKey: { type: 'string', nullable: true },
+                      createdAt: { type: 'string' },
+                      transparency: {
+                        type: 'object',
+                        description: 'Log entry for this key and its inclusion proof against treeHead',
+                        additionalProperties: true
+                      }
                     }
                   }
+                },
+                treeHead: {
+                  type: 'object',
+                  properties: {
+                    treeSize: { type: 'integer' },
+                    rootHash: { type: 'string' }
+                  }
                 }
               }
             }
@@ -136,20 +457,46 @@ export default async function keyRoutes(app: FastifyInstance) {
       const { userId } = req.params;
       
       // Get all public keys for user
+      // Revoked devices must not be sent new keys
       const keys = await prisma.userPublicKey.findMany({
-        where: { userId },
+        where: { userId, revokedAt: null },
         select: {
           deviceId: true,
           publicKey: true,
           keyType: true,
+          signingPublicKey: true,
+          logIndex: true,
           createdAt: true
         },
         orderBy: { createdAt: 'desc' }
       });
 
+      // Every proof is against the same tree head, so the client checks one root
+      const treeHead = await getTreeHead();
+      const logIndexes = keys.flatMap(key => key.logIndex !== null ? [key.logIndex] : []);
+      const logEntries = await prisma.keyTransparencyEntry.findMany({
+        where: { index: { in: logIndexes } },
+        select: { index: true, action: true, createdAt: true }
+      });
+
+      // Only logged keys are served: a key without an inclusion proof could have been
+      // swapped in by the server. Keys are logged when registered, or by the startup backfill.
+      const loggedKeys = keys.flatMap(({ logIndex, ...key }) => {
+        const entry = logEntries.find(logEntry => logEntry.index === logIndex);
+        return logIndex !== null && entry && logIndex < treeHead.treeSize ? [{ key, logIndex, entry }] : [];
+      });
+
+      const keysWithProofs = await Promise.all(loggedKeys.map(async ({ key, logIndex, entry }) => {
+        const { auditPath, leafHash } = await getInclusionProof(logIndex, treeHead.treeSize);
+        return {
+          ...key,
+          transparency: { ...entry, leafHash, auditPath }
+        };
+      }));
+
       return reply.send({
         success: true,
-        data: { keys }
+        data: { keys: keysWithProofs, treeHead }
       });
 
     } catch (error) {
@@ -161,11 +508,129 @@ export default async function keyRoutes(app: FastifyInstance) {
     }
   });
 
-  // Initialize conversation keys for a project
+  // Current key transparency tree head, or the root of an earlier tree size
+  app.get("/v1/keys/transparency/head", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "Get the key transparency log tree head",
+      querystring: {
+        type: 'object',
+        properties: {
+          treeSize: { type: 'integer', minimum: 0 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      await requireFacultyOrStudent(req);
+
+      return reply.send({
+        success: true,
+        data: await getTreeHead(req.query.treeSize)
+      });
+
+    } catch (error: any) {
+      return sendTransparencyError(reply, error, "Failed to fetch tree head");
+    }
+  });
+
+  // Log entries in order, for clients auditing their own keys and for monitors
+  app.get("/v1/keys/transparency/entries", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "List key transparency log entries",
+      querystring: {
+        type: 'object',
+        properties: {
+          start: { type: 'integer', minimum: 0, default: 0 },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      await requireFacultyOrStudent(req);
+      const { start = 0, limit = 100 } = req.query;
+
+      const entries = await listKeyLogEntries(start, limit);
+
+      return reply.send({
+        success: true,
+        data: { entries }
+      });
+
+    } catch (error: any) {
+      return sendTransparencyError(reply, error, "Failed to fetch log entries");
+    }
+  });
+
+  // Inclusion proof of one entry, against the latest tree or an earlier tree size
+  app.get("/v1/keys/transparency/proof", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "Get an inclusion proof for a key transparency log entry",
+      querystring: {
+        type: 'object',
+        properties: {
+          leafIndex: { type: 'integer', minimum: 0 },
+          treeSize: { type: 'integer', minimum: 1 }
+        },
+        required: ['leafIndex']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      await requireFacultyOrStudent(req);
+      const { leafIndex, treeSize } = req.query;
+
+      return reply.send({
+        success: true,
+        data: await getInclusionProof(leafIndex, treeSize)
+      });
+
+    } catch (error: any) {
+      return sendTransparencyError(reply, error, "Failed to build inclusion proof");
+    }
+  });
+
+  // Consistency proof that the log only grew from firstSize to secondSize (default: latest)
+  app.get("/v1/keys/transparency/consistency", {
+    schema: {
+      tags: ["e2ee"],
+      summary: "Get a consistency proof between two key transparency tree sizes",
+      querystring: {
+        type: 'object',
+        properties: {
+          firstSize: { type: 'integer', minimum: 0 },
+          secondSize: { type: 'integer', minimum: 0 }
+        },
+        required: ['firstSize']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      await requireFacultyOrStudent(req);
+      const { firstSize, secondSize } = req.query;
+
+      return reply.send({
+        success: true,
+        data: await getConsistencyProof(firstSize, secondSize)
+      });
+
+    } catch (error: any) {
+      return sendTransparencyError(reply, error, "Failed to build consistency proof");
+    }
+  });
+
+  // Initialize conversation keys for a project, or rotate them to the next epoch
   app.post("/v1/conversations/:projectId/keys", {
     schema: {
       tags: ["e2ee"],
-      summary: "Initialize E2EE for project conversation",
+      summary: "Initialize E2EE for a project conversation or rotate its key",
       params: {
         type: 'object',
         properties: {
@@ -178,8 +643,16 @@ export default async function keyRoutes(app: FastifyInstance) {
         properties: {
           encryptedKeyBlobs: {
             type: 'object',
-            description: 'Encrypted symmetric key for each participant',
-            additionalProperties: { type: 'string' }
+            description: 'Fresh symmetric key wrapped for each active device of each current member: {userId: {deviceId: blob}}',
+            additionalProperties: {
+              type: 'object',
+              additionalProperties: { type: 'string' }
+            }
+          },
+          epoch: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Epoch being created: 1 to initialize, current epoch + 1 to rotate'
           }
         },
         required: ['encryptedKeyBlobs']
@@ -189,20 +662,10 @@ export default async function keyRoutes(app: FastifyInstance) {
     try {
       const user = await requireFacultyOrStudent(req);
       const { projectId } = req.params;
-      const { encryptedKeyBlobs } = req.body;
+      const { encryptedKeyBlobs, epoch } = req.body as { encryptedKeyBlobs: WrappedKeyBlobs; epoch?: number };
 
       // Verify user can access project
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED',
-              studentId: user.sub 
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -211,37 +674,126 @@ export default async function keyRoutes(app: FastifyInstance) {
         });
       }
 
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.length > 0;
-
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied"
         });
       }
 
-      // Create or update conversation keys
-      await prisma.conversationKey.upsert({
-        where: { projectId },
-        create: {
-          projectId,
-          encryptedKeyBlobs,
-          isEncrypted: true,
-          createdAt: new Date()
-        },
-        update: {
-          encryptedKeyBlobs,
-          rotatedAt: new Date()
+      const existing = await prisma.conversationKey.findUnique({
+        where: { projectId }
+      });
+
+      // Keys are never overwritten in place; each upload is the next epoch
+      const nextEpoch = existing ? existing.epoch + 1 : 1;
+      if ((existing && epoch === undefined) || (epoch !== undefined && epoch !== nextEpoch)) {
+        return reply.status(409).send({
+          success: false,
+          error: existing
+            ? `Conversation keys can only be replaced by rotating to epoch ${nextEpoch}`
+            : "A new conversation starts at epoch 1",
+          code: 'STALE_KEY_EPOCH',
+          currentEpoch: existing?.epoch ?? null
+        });
+      }
+
+      // The new key must be wrapped for exactly the active devices of the current members
+      const memberIds = (await getProjectMembers(project)).map(member => member.id);
+      const activeDevices = await getActiveDevices(memberIds);
+      const recipients = Object.keys(encryptedKeyBlobs);
+      const recipientDevices = listRecipientDevices(encryptedKeyBlobs);
+      const expectedDevices = Array.from(activeDevices, ([userId, deviceIds]) =>
+        deviceIds.map(deviceId => deviceRef(userId, deviceId))
+      ).flat();
+
+      const nonMembers = recipients.filter(userId => !memberIds.includes(userId));
+      const missingMembers = Array.from(activeDevices.keys()).filter(userId => !recipients.includes(userId));
+      const missingDevices = expectedDevices.filter(device => !recipientDevices.includes(device));
+      const unknownDevices = recipientDevices.filter(device => !expectedDevices.includes(device));
+
+      if (nonMembers.length > 0 || missingDevices.length > 0 || unknownDevices.length > 0) {
+        return reply.status(400).send({
+          success: false,
+          error: "The key must be wrapped for every active device of every current project member, and nothing else",
+          nonMembers,
+          missingMembers,
+          missingDevices,
+          unknownDevices
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        if (existing) {
+          // Conditional on the epoch we read, so concurrent rotations can't both win
+          const { count } = await tx.conversationKey.updateMany({
+            where: { projectId, epoch: existing.epoch },
+            data: {
+              epoch: nextEpoch,
+              encryptedKeyBlobs,
+              memberIds: recipients,
+              recipientDevices,
+              rotationRequired: false,
+              rotationReason: null,
+              rotationRequestedAt: null,
+              rotatedAt: new Date()
+            }
+          });
+
+          if (count === 0) {
+            throw new Error("EPOCH_CONFLICT");
+          }
+        } else {
+          await tx.conversationKey.create({
+            data: {
+              projectId,
+              encryptedKeyBlobs,
+              memberIds: recipients,
+              recipientDevices,
+              isEncrypted: true,
+              epoch: nextEpoch
+            }
+          });
         }
+
+        await tx.conversationKeyEpoch.create({
+          data: {
+            projectId,
+            epoch: nextEpoch,
+            encryptedKeyBlobs,
+            memberIds: recipients,
+            recipientDevices,
+            createdById: user.sub
+          }
+        });
+      });
+
+      emitConversationKeyUpdate({
+        type: 'key-rotated',
+        projectId,
+        collegeId: project.collegeId,
+        epoch: nextEpoch,
+        rotatedBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
       });
 
       return reply.status(201).send({
         success: true,
-        message: "Conversation encryption initialized"
+        message: existing ? "Conversation key rotated" : "Conversation encryption initialized",
+        data: { epoch: nextEpoch }
       });
 
-    } catch (error) {
+    } catch (error: any) {
+      if (error.message === "EPOCH_CONFLICT" || error.code === 'P2002') {
+        return reply.status(409).send({
+          success: false,
+          error: "Another member rotated the conversation key first; fetch the current epoch and retry",
+          code: 'STALE_KEY_EPOCH'
+        });
+      }
       console.error("Error initializing conversation keys:", error);
       return reply.status(500).send({
         success: false,
@@ -250,7 +802,7 @@ export default async function keyRoutes(app: FastifyInstance) {
     }
   });
 
-  // Get conversation keys for a project
+  // Get my wrapped conversation key for the current epoch, or an earlier one I was given
   app.get("/v1/conversations/:projectId/keys", {
     schema: {
       tags: ["e2ee"],
@@ -261,25 +813,24 @@ export default async function keyRoutes(app: FastifyInstance) {
           projectId: { type: 'string' }
         },
         required: ['projectId']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          deviceId: { type: 'string', minLength: 1 },
+          epoch: { type: 'integer', minimum: 1 }
+        },
+        required: ['deviceId']
       }
     }
   }, async (req: any, reply: any) => {
     try {
       const user = await requireFacultyOrStudent(req);
       const { projectId } = req.params;
+      const { deviceId, epoch } = req.query;
 
       // Verify access (same as above)
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          applications: {
-            where: { 
-              status: 'ACCEPTED',
-              studentId: user.sub 
-            }
-          }
-        }
-      });
+      const { project, role } = await getProjectAccess(projectId, user.sub);
 
       if (!project) {
         return reply.status(404).send({
@@ -288,25 +839,29 @@ export default async function keyRoutes(app: FastifyInstance) {
         });
       }
 
-      const isAuthor = project.authorId === user.sub;
-      const isAcceptedMember = project.applications.length > 0;
-
-      if (!isAuthor && !isAcceptedMember) {
+      if (!hasProjectPermission(role, 'view')) {
         return reply.status(403).send({
           success: false,
           error: "Access denied"
         });
       }
 
+      // Revoked devices get no keys, not even for earlier epochs
+      const { count: activeDevice } = await prisma.userPublicKey.updateMany({
+        where: { userId: user.sub, deviceId, revokedAt: null },
+        data: { lastSeenAt: new Date() }
+      });
+
+      if (activeDevice === 0) {
+        return reply.status(403).send({
+          success: false,
+          error: "Device is revoked or not registered"
+        });
+      }
+
       // Get conversation keys
       const conversationKeys = await prisma.conversationKey.findUnique({
-        where: { projectId },
-        select: {
-          encryptedKeyBlobs: true,
-          isEncrypted: true,
-          createdAt: true,
-          rotatedAt: true
-        }
+        where: { projectId }
       });
 
       if (!conversationKeys) {
@@ -316,13 +871,39 @@ export default async function keyRoutes(app: FastifyInstance) {
         });
       }
 
-      // Return only the user's encrypted key blob
-      const userKeyBlob = (conversationKeys.encryptedKeyBlobs as any)[user.sub];
+      const requestedEpoch = epoch ?? conversationKeys.epoch;
+      const keyBlobs = requestedEpoch === conversationKeys.epoch
+        ? conversationKeys.encryptedKeyBlobs
+        : (await prisma.conversationKeyEpoch.findUnique({
+            where: { projectId_epoch: { projectId, epoch: requestedEpoch } }
+          }))?.encryptedKeyBlobs;
+
+      // Return only this device's encrypted key blob
+      const userKeyBlob = (keyBlobs as WrappedKeyBlobs | undefined)?.[user.sub]?.[deviceId];
+
+      if (epoch !== undefined && !userKeyBlob) {
+        return reply.status(404).send({
+          success: false,
+          error: "This device holds no key for this epoch"
+        });
+      }
+
+      // Epochs this device was given a key in
+      const heldEpochs = await prisma.conversationKeyEpoch.findMany({
+        where: { projectId, recipientDevices: { has: deviceRef(user.sub, deviceId) } },
+        select: { epoch: true },
+        orderBy: { epoch: 'asc' }
+      });
 
       return reply.send({
         success: true,
         data: {
           encryptedKeyBlob: userKeyBlob,
+          epoch: requestedEpoch,
+          currentEpoch: conversationKeys.epoch,
+          rotationRequired: conversationKeys.rotationRequired,
+          rotationReason: conversationKeys.rotationReason,
+          heldEpochs: heldEpochs.map(entry => entry.epoch),
           isEncrypted: conversationKeys.isEncrypted,
           createdAt: conversationKeys.createdAt,
           rotatedAt: conversationKeys.rotatedAt
@@ -339,6 +920,29 @@ export default async function keyRoutes(app: FastifyInstance) {
   });
 }
 
+// Errors from the transparency log helpers and auth, as responses
+function sendTransparencyError(reply: any, error: any, fallback: string) {
+  if (error.message === "INVALID_TREE_SIZE" || error.message === "INVALID_LEAF_INDEX") {
+    return reply.status(400).send({
+      success: false,
+      error: error.message === "INVALID_TREE_SIZE"
+        ? "Tree size is larger than the log"
+        : "Leaf index is outside the tree"
+    });
+  }
+  if (error.statusCode) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message
+    });
+  }
+  console.error(`${fallback}:`, error);
+  return reply.status(500).send({
+    success: false,
+    error: fallback
+  });
+}
+
 // Helper function to validate base64
 function isValidBase64(str: string): boolean {
   try {
@@ -0,0 +1,375 @@
+import { FastifyInstance } from "fastify";
+import { requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { emitProjectUpdate } from "../utils/enhancedWebSocket";
+import { getProjectAccess, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import { computeProgress, isProjectOverdue, summarizeMilestone, syncMilestoneCompletion } from "../utils/milestones";
+
+export default async function milestoneRoutes(app: FastifyInstance) {
+
+  // Get project milestones with progress - Project members only
+  app.get("/v1/projects/:id/milestones", {
+    schema: {
+      tags: ["milestones"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const [milestones, tasks] = await Promise.all([
+        prisma.projectMilestone.findMany({
+          where: { projectId },
+          include: {
+            tasks: {
+              select: { id: true, title: true, status: true, assigneeIds: true }
+            }
+          },
+          orderBy: { dueDate: 'asc' }
+        }),
+        prisma.projectTask.findMany({
+          where: { projectId },
+          select: { status: true }
+        })
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          milestones: milestones.map(summarizeMilestone),
+          progress: computeProgress(tasks),
+          isOverdue: isProjectOverdue(project, milestones)
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching milestones:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch milestones"
+      });
+    }
+  });
+
+  // Create milestone - Project supervisors and mentors
+  app.post("/v1/projects/:id/milestones", {
+    schema: {
+      tags: ["milestones"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1, maxLength: 200 },
+          description: { type: 'string', maxLength: 2000 },
+          dueDate: { type: 'string', format: 'date-time' },
+          taskIds: { type: 'array', items: { type: 'string' }, maxItems: 100 }
+        },
+        required: ['title', 'dueDate']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+      const { title, description, dueDate, taskIds = [] } = req.body;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'manageTasks')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. Only project supervisors and mentors can manage milestones."
+        });
+      }
+
+      const milestone = await prisma.$transaction(async (tx) => {
+        const created = await tx.projectMilestone.create({
+          data: {
+            projectId,
+            title,
+            description,
+            dueDate: new Date(dueDate),
+            createdById: user.sub
+          }
+        });
+
+        if (taskIds.length > 0) {
+          const linked = await tx.projectTask.updateMany({
+            where: { id: { in: taskIds }, projectId },
+            data: { milestoneId: created.id }
+          });
+
+          if (linked.count !== new Set(taskIds).size) {
+            throw new Error("INVALID_TASKS");
+          }
+        }
+
+        await syncMilestoneCompletion(tx, created.id);
+
+        return tx.projectMilestone.findUniqueOrThrow({
+          where: { id: created.id },
+          include: { tasks: { select: { id: true, title: true, status: true, assigneeIds: true } } }
+        });
+      });
+
+      emitProjectUpdate({
+        type: 'milestone-created',
+        projectId,
+        collegeId: project.collegeId,
+        departments: project.departments,
+        visibleToAllDepts: project.visibleToAllDepts,
+        milestone: summarizeMilestone(milestone),
+        createdBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: { milestone: summarizeMilestone(milestone) }
+      });
+    } catch (error: any) {
+      console.error("Error creating milestone:", error);
+
+      if (error.message === "INVALID_TASKS") {
+        return reply.status(400).send({
+          success: false,
+          error: "All linked tasks must belong to this project"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to create milestone"
+      });
+    }
+  });
+
+  // Update milestone - Project supervisors and mentors
+  app.put("/v1/milestones/:id", {
+    schema: {
+      tags: ["milestones"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1, maxLength: 200 },
+          description: { type: ['string', 'null'], maxLength: 2000 },
+          dueDate: { type: 'string', format: 'date-time' },
+          taskIds: { type: 'array', items: { type: 'string' }, maxItems: 100 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+      const { title, description, dueDate, taskIds } = req.body;
+
+      const existing = await prisma.projectMilestone.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: "Milestone not found"
+        });
+      }
+
+      const role = await getProjectRole(existing.project, user.sub);
+
+      if (!hasProjectPermission(role, 'manageTasks')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. Only project supervisors and mentors can manage milestones."
+        });
+      }
+
+      const milestone = await prisma.$transaction(async (tx) => {
+        await tx.projectMilestone.update({
+          where: { id },
+          data: {
+            title,
+            description,
+            dueDate: dueDate ? new Date(dueDate) : undefined
+          }
+        });
+
+        // taskIds replaces the linked task set
+        if (taskIds) {
+          await tx.projectTask.updateMany({
+            where: { milestoneId: id, id: { notIn: taskIds } },
+            data: { milestoneId: null }
+          });
+
+          const linked = await tx.projectTask.updateMany({
+            where: { id: { in: taskIds }, projectId: existing.projectId },
+            data: { milestoneId: id }
+          });
+
+          if (linked.count !== new Set(taskIds).size) {
+            throw new Error("INVALID_TASKS");
+          }
+        }
+
+        await syncMilestoneCompletion(tx, id);
+
+        return tx.projectMilestone.findUniqueOrThrow({
+          where: { id },
+          include: { tasks: { select: { id: true, title: true, status: true, assigneeIds: true } } }
+        });
+      });
+
+      emitProjectUpdate({
+        type: 'milestone-updated',
+        projectId: existing.projectId,
+        collegeId: existing.project.collegeId,
+        departments: existing.project.departments,
+        visibleToAllDepts: existing.project.visibleToAllDepts,
+        milestone: summarizeMilestone(milestone),
+        updatedBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        data: { milestone: summarizeMilestone(milestone) }
+      });
+    } catch (error: any) {
+      console.error("Error updating milestone:", error);
+
+      if (error.message === "INVALID_TASKS") {
+        return reply.status(400).send({
+          success: false,
+          error: "All linked tasks must belong to this project"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to update milestone"
+      });
+    }
+  });
+
+  // Delete milestone - Project supervisors and mentors (linked tasks are kept)
+  app.delete("/v1/milestones/:id", {
+    schema: {
+      tags: ["milestones"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const milestone = await prisma.projectMilestone.findUnique({
+        where: { id },
+        include: { project: true }
+      });
+
+      if (!milestone) {
+        return reply.status(404).send({
+          success: false,
+          error: "Milestone not found"
+        });
+      }
+
+      const role = await getProjectRole(milestone.project, user.sub);
+
+      if (!hasProjectPermission(role, 'manageTasks')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. Only project supervisors and mentors can manage milestones."
+        });
+      }
+
+      await prisma.projectMilestone.delete({
+        where: { id }
+      });
+
+      emitProjectUpdate({
+        type: 'milestone-deleted',
+        projectId: milestone.projectId,
+        collegeId: milestone.project.collegeId,
+        departments: milestone.project.departments,
+        visibleToAllDepts: milestone.project.visibleToAllDepts,
+        milestone: { id: milestone.id, title: milestone.title },
+        deletedBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        message: "Milestone deleted successfully"
+      });
+    } catch (error) {
+      console.error("Error deleting milestone:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to delete milestone"
+      });
+    }
+  });
+}
@@ -0,0 +1,238 @@
+import { FastifyInstance } from "fastify";
+import type { NotificationPreference } from "@prisma/client";
+import { requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  markNotificationsRead,
+  presentNotification,
+  resolveChannel
+} from "../utils/notifications";
+
+// Preferences with every known type filled in
+function presentPreferences(preference: NotificationPreference | null) {
+  return {
+    channels: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, resolveChannel(preference, type)])),
+    digestFrequency: preference?.digestFrequency ?? 'DAILY',
+    email: preference?.email ?? null,
+    lastDigestAt: preference?.lastDigestAt ?? null,
+    availableChannels: NOTIFICATION_CHANNELS
+  };
+}
+
+export default async function notificationRoutes(app: FastifyInstance) {
+
+  // Get my notifications, newest first
+  app.get("/v1/notifications", {
+    schema: {
+      tags: ["notifications"],
+      querystring: {
+        type: 'object',
+        properties: {
+          unread: { type: 'boolean' },
+          type: { type: 'string' },
+          projectId: { type: 'string' },
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { unread, type, projectId, page = 1, limit = 20 } = req.query;
+
+      const where = {
+        userId: user.sub,
+        ...(unread ? { readAt: null } : {}),
+        ...(type ? { type } : {}),
+        ...(projectId ? { projectId } : {})
+      };
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { userId: user.sub, readAt: null } })
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          notifications: notifications.map(presentNotification),
+          unreadCount,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch notifications"
+      });
+    }
+  });
+
+  // Mark one notification read
+  app.post("/v1/notifications/:id/read", {
+    schema: {
+      tags: ["notifications"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id } = req.params;
+
+      const notification = await prisma.notification.findUnique({
+        where: { id }
+      });
+
+      if (!notification || notification.userId !== user.sub) {
+        return reply.status(404).send({
+          success: false,
+          error: "Notification not found"
+        });
+      }
+
+      const { unreadCount } = await markNotificationsRead(user.sub, [id]);
+
+      return reply.send({
+        success: true,
+        data: { unreadCount }
+      });
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to mark notification read"
+      });
+    }
+  });
+
+  // Mark all of my notifications read
+  app.post("/v1/notifications/read-all", {
+    schema: {
+      tags: ["notifications"],
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+
+      const { updated, unreadCount } = await markNotificationsRead(user.sub);
+
+      return reply.send({
+        success: true,
+        data: { updated, unreadCount }
+      });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to mark notifications read"
+      });
+    }
+  });
+
+  // Get my notification preferences
+  app.get("/v1/notifications/preferences", {
+    schema: {
+      tags: ["notifications"],
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+
+      const preference = await prisma.notificationPreference.findUnique({
+        where: { userId: user.sub }
+      });
+
+      return reply.send({
+        success: true,
+        data: { preferences: presentPreferences(preference) }
+      });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch notification preferences"
+      });
+    }
+  });
+
+  // Update my notification preferences; only the types sent are changed
+  app.put("/v1/notifications/preferences", {
+    schema: {
+      tags: ["notifications"],
+      body: {
+        type: 'object',
+        properties: {
+          channels: {
+            type: 'object',
+            properties: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, { type: 'string', enum: NOTIFICATION_CHANNELS }])),
+            additionalProperties: false
+          },
+          digestFrequency: { type: 'string', enum: ['DAILY', 'WEEKLY'] }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { channels = {}, digestFrequency } = req.body;
+
+      const existing = await prisma.notificationPreference.findUnique({
+        where: { userId: user.sub }
+      });
+
+      const merged = { ...((existing?.channels ?? {}) as Record<string, string>), ...channels };
+      const email = user.email || existing?.email || null;
+
+      const wantsEmail = Object.values(merged).some(channel => channel === 'EMAIL' || channel === 'DIGEST');
+      if (wantsEmail && !email) {
+        return reply.status(400).send({
+          success: false,
+          error: "Your account has no email address, so email and digest delivery are unavailable"
+        });
+      }
+
+      const preference = await prisma.notificationPreference.upsert({
+        where: { userId: user.sub },
+        create: { userId: user.sub, email, channels: merged, digestFrequency },
+        update: { email, channels: merged, digestFrequency }
+      });
+
+      return reply.send({
+        success: true,
+        data: { preferences: presentPreferences(preference) }
+      });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to update notification preferences"
+      });
+    }
+  });
+}
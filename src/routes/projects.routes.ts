@@ -100,7 +100,8 @@ export default async function projectsRoutes(app: FastifyInstance) {
       // Faculty can see approved projects OR their own projects (any status)
       andConditions.push({ OR: [
         { moderationStatus: "APPROVED" },
-        { authorId: payload.sub }
+        { authorId: payload.sub },
+        { collaborators: { some: { userId: payload.sub, status: 'ACTIVE' } } }
       ] });
       
       // Faculty follows EXACT same department visibility logic as students
@@ -195,7 +196,14 @@ export default async function projectsRoutes(app: FastifyInstance) {
     requireRole(payload, ["FACULTY"]);
     const { collegeId } = await getUserScope(req, payload);
     const projects = await prisma.project.findMany({
-      where: { authorId: payload.sub, collegeId, archivedAt: null },
+      where: {
+        OR: [
+          { authorId: payload.sub },
+          { collaborators: { some: { userId: payload.sub, status: 'ACTIVE' } } }
+        ],
+        collegeId,
+        archivedAt: null
+      },
       include: {
         _count: {
           select: {
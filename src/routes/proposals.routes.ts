@@ -0,0 +1,654 @@
+import { FastifyInstance } from "fastify";
+import { requireStudent, requireFaculty } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { emitProposalUpdate } from "../utils/enhancedWebSocket";
+import { CacheInvalidation } from "../utils/cacheInvalidation";
+import { projectValidationMiddleware } from "../middlewares/inputValidation";
+import { AuditLogger } from "../admin/utils/auditLogger";
+import { projectSchemas } from "../schemas/apiSchemas";
+import { recordStatusChange } from "../utils/applicationPipeline";
+import { getUserIdentity } from "../clients/auth";
+import { applyMembershipChange } from "../utils/projectMembership";
+
+// Maximum number of faculty a student can invite to sponsor one proposal
+const MAX_SPONSOR_INVITES = 5;
+
+/**
+ * Invited sponsors who aren't faculty of the proposer's college (an identity that can't be
+ * resolved counts as invalid)
+ */
+async function findInvalidSponsorIds(sponsorIds: string[], collegeId: string | undefined, authHeader: string): Promise<string[]> {
+  const invalid: string[] = [];
+
+  for (const sponsorId of sponsorIds) {
+    try {
+      const identity = await getUserIdentity(sponsorId, authHeader);
+      if (!identity.roles?.includes('FACULTY') || identity.collegeId?.toString() !== collegeId) {
+        invalid.push(sponsorId);
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch identity for sponsor ${sponsorId}:`, error);
+      invalid.push(sponsorId);
+    }
+  }
+
+  return invalid;
+}
+
+export default async function proposalRoutes(app: FastifyInstance) {
+
+  // Submit project proposal - Student only
+  app.post("/v1/proposals", {
+    preHandler: [projectValidationMiddleware],
+    schema: {
+      tags: ["proposals"],
+      summary: "Submit a student project proposal",
+      description: "Students propose a project and invite faculty to sponsor it. The proposal is moderated only after a sponsor accepts.",
+      body: {
+        ...projectSchemas.createProjectRequest,
+        properties: {
+          ...projectSchemas.createProjectRequest.properties,
+          projectDuration: { type: 'string', maxLength: 100 },
+          sponsorIds: {
+            type: 'array',
+            items: { type: 'string', minLength: 1 },
+            minItems: 1,
+            maxItems: MAX_SPONSOR_INVITES
+          },
+          sponsorMessage: { type: 'string', maxLength: 1000 }
+        },
+        required: [...projectSchemas.createProjectRequest.required, 'sponsorIds']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+      const { sponsorIds, sponsorMessage, ...projectData } = req.body;
+
+      const uniqueSponsorIds: string[] = Array.from(new Set<string>(sponsorIds)).filter(id => id !== user.sub);
+      if (uniqueSponsorIds.length === 0) {
+        return reply.status(400).send({
+          success: false,
+          error: "At least one faculty sponsor must be invited"
+        });
+      }
+
+      const invalidSponsorIds = await findInvalidSponsorIds(uniqueSponsorIds, user.scope.collegeId?.toString(), req.headers.authorization || '');
+      if (invalidSponsorIds.length > 0) {
+        return reply.status(400).send({
+          success: false,
+          error: "Sponsors must be faculty members of your college",
+          invalidSponsorIds
+        });
+      }
+
+      const studentName = user.displayName || user.name || user.scope?.displayName || "Unknown Student";
+
+      const project = await prisma.project.create({
+        data: {
+          title: projectData.title,
+          description: projectData.description,
+          projectType: projectData.projectType,
+          projectDuration: projectData.projectDuration,
+          maxStudents: projectData.maxStudents,
+          deadline: projectData.deadline,
+          visibleToAllDepts: projectData.visibleToAllDepts ?? false,
+          authorId: user.sub,
+          authorName: studentName,
+          authorDepartment: user.scope.department,
+          authorAvatar: user.scope.avatar,
+          authorMemberId: user.scope.collegeMemberId,
+          authorCollege: user.scope.collegeId?.toString(),
+          collegeId: user.scope.collegeId?.toString() || "",
+          proposedById: user.sub,
+          proposedByName: studentName,
+          moderationStatus: "PENDING_APPROVAL",
+          progressStatus: "OPEN",
+          skills: projectData.skills || [],
+          tags: projectData.tags || [],
+          departments: projectData.departments || [],
+          requirements: projectData.requirements || [],
+          outcomes: projectData.outcomes || [],
+          sponsorRequests: {
+            create: uniqueSponsorIds.map(facultyId => ({
+              facultyId,
+              invitedById: user.sub,
+              message: sponsorMessage
+            }))
+          }
+        },
+        include: { sponsorRequests: true }
+      });
+
+      await AuditLogger.logProposalSubmission(
+        user.sub,
+        studentName,
+        project.id,
+        uniqueSponsorIds,
+        project.collegeId,
+        req
+      );
+
+      await CacheInvalidation.invalidateByEntity('project', project.id, 'create', {
+        collegeId: project.collegeId,
+        authorId: user.sub
+      });
+
+      for (const sponsorRequest of project.sponsorRequests) {
+        emitProposalUpdate(sponsorRequest.facultyId, 'faculty', {
+          type: 'sponsor-invited',
+          projectId: project.id,
+          collegeId: project.collegeId,
+          proposal: project,
+          sponsorRequest,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: { proposal: project }
+      });
+    } catch (error) {
+      console.error("Error submitting proposal:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to submit proposal"
+      });
+    }
+  });
+
+  // Get my proposals - Student only
+  app.get("/v1/proposals/mine", {
+    schema: {
+      tags: ["proposals"],
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+
+      const proposals = await prisma.project.findMany({
+        where: {
+          proposedById: user.sub,
+          archivedAt: null
+        },
+        include: {
+          sponsorRequests: {
+            orderBy: { createdAt: 'asc' }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: { proposals }
+      });
+    } catch (error) {
+      console.error("Error fetching proposals:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch proposals"
+      });
+    }
+  });
+
+  // Invite additional sponsors - Student (proposer) only
+  app.post("/v1/proposals/:id/sponsors", {
+    schema: {
+      tags: ["proposals"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          sponsorIds: {
+            type: 'array',
+            items: { type: 'string', minLength: 1 },
+            minItems: 1,
+            maxItems: MAX_SPONSOR_INVITES
+          },
+          message: { type: 'string', maxLength: 1000 }
+        },
+        required: ['sponsorIds']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+      const { id: projectId } = req.params;
+      const { sponsorIds, message } = req.body;
+
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        include: { sponsorRequests: true }
+      });
+
+      if (!project || project.archivedAt) {
+        return reply.status(404).send({
+          success: false,
+          error: "Proposal not found"
+        });
+      }
+
+      if (project.proposedById !== user.sub) {
+        return reply.status(403).send({
+          success: false,
+          error: "Only the proposing student can invite sponsors"
+        });
+      }
+
+      if (project.sponsoredAt) {
+        return reply.status(400).send({
+          success: false,
+          error: "Proposal already has a faculty sponsor"
+        });
+      }
+
+      const alreadyInvited = new Set(project.sponsorRequests.map(r => r.facultyId));
+      const newSponsorIds: string[] = Array.from(new Set<string>(sponsorIds))
+        .filter(id => id !== user.sub && !alreadyInvited.has(id));
+
+      if (newSponsorIds.length === 0) {
+        return reply.status(400).send({
+          success: false,
+          error: "All listed faculty have already been invited"
+        });
+      }
+
+      if (project.sponsorRequests.length + newSponsorIds.length > MAX_SPONSOR_INVITES * 2) {
+        return reply.status(400).send({
+          success: false,
+          error: "Too many sponsor invitations for this proposal"
+        });
+      }
+
+      const invalidSponsorIds = await findInvalidSponsorIds(newSponsorIds, project.collegeId, req.headers.authorization || '');
+      if (invalidSponsorIds.length > 0) {
+        return reply.status(400).send({
+          success: false,
+          error: "Sponsors must be faculty members of your college",
+          invalidSponsorIds
+        });
+      }
+
+      await prisma.projectSponsorRequest.createMany({
+        data: newSponsorIds.map(facultyId => ({
+          projectId,
+          facultyId,
+          invitedById: user.sub,
+          message
+        }))
+      });
+
+      const sponsorRequests = await prisma.projectSponsorRequest.findMany({
+        where: { projectId, facultyId: { in: newSponsorIds } }
+      });
+
+      for (const sponsorRequest of sponsorRequests) {
+        emitProposalUpdate(sponsorRequest.facultyId, 'faculty', {
+          type: 'sponsor-invited',
+          projectId,
+          collegeId: project.collegeId,
+          proposal: { id: project.id, title: project.title, proposedByName: project.proposedByName },
+          sponsorRequest,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: { sponsorRequests }
+      });
+    } catch (error) {
+      console.error("Error inviting sponsors:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to invite sponsors"
+      });
+    }
+  });
+
+  // Get sponsor requests addressed to me - Faculty only
+  app.get("/v1/sponsor-requests", {
+    schema: {
+      tags: ["proposals"],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'string',
+            enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED'],
+            default: 'PENDING'
+          }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { status = 'PENDING' } = req.query as any;
+
+      const sponsorRequests = await prisma.projectSponsorRequest.findMany({
+        where: {
+          facultyId: user.sub,
+          status,
+          project: { archivedAt: null }
+        },
+        include: {
+          project: {
+            select: {
+              id: true,
+              title: true,
+              description: true,
+              projectType: true,
+              skills: true,
+              maxStudents: true,
+              deadline: true,
+              proposedById: true,
+              proposedByName: true,
+              authorDepartment: true,
+              createdAt: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return reply.send({
+        success: true,
+        data: { sponsorRequests }
+      });
+    } catch (error) {
+      console.error("Error fetching sponsor requests:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch sponsor requests"
+      });
+    }
+  });
+
+  // Accept sponsorship - Faculty (invited sponsor) only
+  app.post("/v1/sponsor-requests/:id/accept", {
+    schema: {
+      tags: ["proposals"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          response: { type: 'string', maxLength: 1000 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id } = req.params;
+      const { response } = (req.body || {}) as any;
+      const facultyName = user.displayName || user.name || "Unknown Faculty";
+
+      const result = await prisma.$transaction(async (tx) => {
+        const sponsorRequest = await tx.projectSponsorRequest.findUnique({
+          where: { id },
+          include: { project: true }
+        });
+
+        if (!sponsorRequest || sponsorRequest.project.archivedAt) {
+          throw new Error("NOT_FOUND");
+        }
+
+        if (sponsorRequest.facultyId !== user.sub || sponsorRequest.project.collegeId !== user.scope.collegeId) {
+          throw new Error("FORBIDDEN");
+        }
+
+        if (sponsorRequest.status !== 'PENDING') {
+          throw new Error("NOT_PENDING");
+        }
+
+        const proposal = sponsorRequest.project;
+
+        // Claim the proposal atomically so two sponsors cannot accept at once.
+        // The sponsor takes over authorship; the student stays on as a member.
+        const claimed = await tx.project.updateMany({
+          where: { id: proposal.id, sponsoredAt: null },
+          data: {
+            sponsoredAt: new Date(),
+            authorId: user.sub,
+            authorName: facultyName,
+            authorDepartment: user.scope.department,
+            authorAvatar: user.scope.avatar,
+            authorMemberId: user.scope.collegeMemberId
+          }
+        });
+
+        if (claimed.count === 0) {
+          throw new Error("ALREADY_SPONSORED");
+        }
+
+        const acceptedRequest = await tx.projectSponsorRequest.update({
+          where: { id },
+          data: {
+            status: 'ACCEPTED',
+            response,
+            respondedAt: new Date()
+          }
+        });
+
+        await tx.projectSponsorRequest.updateMany({
+          where: { projectId: proposal.id, status: 'PENDING' },
+          data: { status: 'CANCELLED', respondedAt: new Date() }
+        });
+
+        const membership = await tx.appliedProject.upsert({
+          where: {
+            projectId_studentId: {
+              projectId: proposal.id,
+              studentId: proposal.proposedById!
+            }
+          },
+          create: {
+            projectId: proposal.id,
+            studentId: proposal.proposedById!,
+            studentName: proposal.proposedByName || proposal.authorName,
+            studentDepartment: proposal.authorDepartment || "",
+            message: "Project proposer",
+            status: 'ACCEPTED'
+          },
+          update: { status: 'ACCEPTED' }
+        });
+
+        await recordStatusChange(tx, {
+          applicationId: membership.id,
+          fromStatus: null,
+          toStatus: 'ACCEPTED',
+          changedById: user.sub,
+          changedByRole: 'FACULTY',
+          reason: 'Sponsor accepted student proposal'
+        });
+
+        const project = await tx.project.findUniqueOrThrow({
+          where: { id: proposal.id }
+        });
+
+        return { project, sponsorRequest: acceptedRequest };
+      });
+
+      await AuditLogger.logSponsorshipDecision(
+        user.sub,
+        facultyName,
+        result.project.id,
+        id,
+        'ACCEPTED',
+        response,
+        result.project.collegeId,
+        req
+      );
+
+      await CacheInvalidation.invalidateByEntity('project', result.project.id, 'update', {
+        collegeId: result.project.collegeId,
+        authorId: user.sub
+      });
+
+      // The sponsor joins as owner; the proposing student stays on as a member
+      await applyMembershipChange(result.project.id, user.sub, 'joined');
+
+      emitProposalUpdate(result.project.proposedById!, 'student', {
+        type: 'sponsor-accepted',
+        projectId: result.project.id,
+        collegeId: result.project.collegeId,
+        proposal: result.project,
+        sponsorRequest: result.sponsorRequest,
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.send({
+        success: true,
+        data: result,
+        message: "Sponsorship accepted. The proposal is now awaiting department moderation."
+      });
+    } catch (error: any) {
+      console.error("Error accepting sponsorship:", error);
+
+      if (error.message === "NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Sponsor request not found"
+        });
+      }
+
+      if (error.message === "FORBIDDEN") {
+        return reply.status(403).send({
+          success: false,
+          error: "This sponsor request is not addressed to you"
+        });
+      }
+
+      if (error.message === "NOT_PENDING" || error.message === "ALREADY_SPONSORED") {
+        return reply.status(409).send({
+          success: false,
+          error: "This proposal is no longer awaiting a sponsor"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to accept sponsorship"
+      });
+    }
+  });
+
+  // Decline sponsorship - Faculty (invited sponsor) only
+  app.post("/v1/sponsor-requests/:id/decline", {
+    schema: {
+      tags: ["proposals"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          response: { type: 'string', maxLength: 1000 }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFaculty(req);
+      const { id } = req.params;
+      const { response } = (req.body || {}) as any;
+
+      const sponsorRequest = await prisma.projectSponsorRequest.findUnique({
+        where: { id },
+        include: {
+          project: {
+            select: { id: true, title: true, collegeId: true, proposedById: true, archivedAt: true }
+          }
+        }
+      });
+
+      if (!sponsorRequest || sponsorRequest.project.archivedAt) {
+        return reply.status(404).send({
+          success: false,
+          error: "Sponsor request not found"
+        });
+      }
+
+      if (sponsorRequest.facultyId !== user.sub) {
+        return reply.status(403).send({
+          success: false,
+          error: "This sponsor request is not addressed to you"
+        });
+      }
+
+      if (sponsorRequest.status !== 'PENDING') {
+        return reply.status(409).send({
+          success: false,
+          error: "This sponsor request has already been answered"
+        });
+      }
+
+      const declinedRequest = await prisma.projectSponsorRequest.update({
+        where: { id },
+        data: {
+          status: 'DECLINED',
+          response,
+          respondedAt: new Date()
+        }
+      });
+
+      await AuditLogger.logSponsorshipDecision(
+        user.sub,
+        user.displayName || user.name || "Unknown Faculty",
+        sponsorRequest.projectId,
+        id,
+        'DECLINED',
+        response,
+        sponsorRequest.project.collegeId,
+        req
+      );
+
+      if (sponsorRequest.project.proposedById) {
+        emitProposalUpdate(sponsorRequest.project.proposedById, 'student', {
+          type: 'sponsor-declined',
+          projectId: sponsorRequest.projectId,
+          collegeId: sponsorRequest.project.collegeId,
+          proposal: { id: sponsorRequest.project.id, title: sponsorRequest.project.title },
+          sponsorRequest: declinedRequest,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { sponsorRequest: declinedRequest }
+      });
+    } catch (error) {
+      console.error("Error declining sponsorship:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to decline sponsorship"
+      });
+    }
+  });
+}
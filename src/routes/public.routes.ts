@@ -1,8 +1,11 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
-import { optionalAuth, canAccessProject } from "../middlewares/unifiedAuth";
+import { optionalAuth, canAccessProject, UnifiedAuthPayload } from "../middlewares/unifiedAuth";
 import { getUserScope } from "../clients/profile";
 import { prisma } from "../db";
+import { getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import { computeProgress, isMilestoneOverdue, isProjectOverdue } from "../utils/milestones";
+import { DEFAULT_REPLIES_PER_THREAD, getCommentThreads, presentComment } from "../utils/comments";
 import type { $Enums } from "@prisma/client";
 
 export default async function publicRoutes(app: FastifyInstance) {
@@ -116,7 +119,7 @@ export default async function publicRoutes(app: FastifyInstance) {
       const user = await optionalAuth(req);
       const { id } = req.params;
 
-      const project = await prisma.project.findUnique({
+      const projectWithProgress = await prisma.project.findUnique({
         where: { id },
         include: {
           _count: {
@@ -125,21 +128,40 @@ export default async function publicRoutes(app: FastifyInstance) {
                 where: { status: 'ACCEPTED' }
               }
             }
-          }
+          },
+          milestones: {
+            include: { tasks: { select: { status: true } } },
+            orderBy: { dueDate: 'asc' }
+          },
+          tasks: { select: { status: true } }
         }
       });
 
-      if (!project) {
+      if (!projectWithProgress) {
         return reply.status(404).send({
           success: false,
           error: "Project not found"
         });
       }
 
+      // Roll milestone and task completion up into progress fields
+      const { milestones, tasks, ...projectFields } = projectWithProgress;
+      const project = {
+        ...projectFields,
+        milestones: milestones.map(({ tasks: milestoneTasks, ...milestone }) => ({
+          ...milestone,
+          ...computeProgress(milestoneTasks),
+          isOverdue: isMilestoneOverdue(milestone)
+        })),
+        progress: computeProgress(tasks),
+        isOverdue: isProjectOverdue(projectFields, milestones)
+      };
+
       // Check if project is accessible
       if (project.moderationStatus !== 'APPROVED' || project.archivedAt) {
-        // Only author and admins can see non-approved/archived projects
-        if (!user || (project.authorId !== user.sub && !user.roles?.some(role => 
+        // Only owners, co-supervisors and admins can see non-approved/archived projects
+        const canEdit = !!user && hasProjectPermission(await getProjectRole(project, user.sub), 'edit');
+        if (!user || (!canEdit && !user.roles?.some(role => 
           ['HEAD_ADMIN', 'DEPT_ADMIN', 'SUPER_ADMIN'].includes(role)
         ))) {
           return reply.status(404).send({
@@ -187,7 +209,7 @@ export default async function publicRoutes(app: FastifyInstance) {
     }
   });
 
-  // Get project comments - Public for approved projects
+  // Get project comment threads - Public for approved projects
   app.get("/v1/projects/:id/comments", {
     schema: {
       tags: ["comments"],
@@ -202,7 +224,8 @@ export default async function publicRoutes(app: FastifyInstance) {
         type: 'object',
         properties: {
           page: { type: 'integer', minimum: 1, default: 1 },
-          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          replies: { type: 'integer', minimum: 0, maximum: 20, default: DEFAULT_REPLIES_PER_THREAD }
         }
       }
       // Remove restrictive response schema that might be causing JSON serialization issues
@@ -211,79 +234,90 @@ export default async function publicRoutes(app: FastifyInstance) {
     try {
       const user = await optionalAuth(req);
       const { id: projectId } = req.params;
-      const { page = 1, limit = 20 } = req.query as any;
-      
-      
+      const { page = 1, limit = 20, replies = DEFAULT_REPLIES_PER_THREAD } = req.query as any;
 
-      // Check if project exists and is accessible
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: {
-          id: true,
-          moderationStatus: true,
-          archivedAt: true,
-          authorId: true,
-          collegeId: true,
-          departments: true
-        }
-      });
-
-      
-
-      if (!project) {
+      if (!await canReadComments(projectId, user)) {
         return reply.status(404).send({
           success: false,
           error: "Project not found"
         });
       }
 
-      // Check accessibility - Allow project authors and accepted members to access
-      const isAuthor = project.authorId === user?.sub;
-      const isAdmin = user?.roles?.some(role => ['HEAD_ADMIN', 'DEPT_ADMIN', 'SUPER_ADMIN'].includes(role));
-      const isApprovedPublic = project.moderationStatus === 'APPROVED' && !project.archivedAt;
-      let isAcceptedMember = false;
-      if (user && !isAuthor) {
-        const membership = await prisma.appliedProject.findFirst({
-          where: { projectId, studentId: user.sub, status: 'ACCEPTED' }
-        });
-        isAcceptedMember = !!membership;
+      // Project-level threads only, not task comments; pages count threads, not replies
+      const { comments, total } = await getCommentThreads({ projectId, taskId: null }, page, limit, replies);
+
+      return reply.send({
+        success: true,
+        data: {
+          comments,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch comments"
+      });
+    }
+  });
+
+  // Get the replies of a comment thread - Same access as the project's comments
+  app.get("/v1/comments/:id/replies", {
+    schema: {
+      tags: ["comments"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+        }
       }
-      
-      if (!isApprovedPublic && !isAuthor && !isAdmin && !isAcceptedMember) {
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await optionalAuth(req);
+      const { id } = req.params;
+      const { page = 1, limit = 20 } = req.query as any;
+
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+        select: { id: true, projectId: true }
+      });
+
+      if (!comment || !await canReadComments(comment.projectId, user)) {
         return reply.status(404).send({
           success: false,
-          error: "Project not found"
+          error: "Comment not found"
         });
       }
-      
 
-      // For project-level comments, filter out task-specific comments
-      const whereClause = { 
-        projectId,
-        taskId: null  // Only project-level comments, not task comments
-      };
-
-      // First, let's check all comments for this project (without taskId filter)
-      
-
-      const comments = await prisma.comment.findMany({
-        where: whereClause,
-        orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * limit,
-        take: limit
-      });
-
-      const total = await prisma.comment.count({
-        where: whereClause
-      });
+      const [replies, total] = await Promise.all([
+        prisma.comment.findMany({
+          where: { parentId: id },
+          orderBy: { createdAt: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.comment.count({ where: { parentId: id } })
+      ]);
 
-      
-      
-      // Send the full response with comments data
       return reply.send({
         success: true,
         data: {
-          comments,
+          replies: replies.map(presentComment),
           pagination: {
             page,
             limit,
@@ -293,11 +327,32 @@ export default async function publicRoutes(app: FastifyInstance) {
         }
       });
     } catch (error) {
-      console.error("Error fetching comments:", error);
+      console.error("Error fetching comment replies:", error);
       return reply.status(500).send({
         success: false,
-        error: "Failed to fetch comments"
+        error: "Failed to fetch replies"
       });
     }
   });
 }
+
+// Comments are readable on approved projects, by admins and by project members
+async function canReadComments(projectId: string, user: UnifiedAuthPayload | null): Promise<boolean> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      moderationStatus: true,
+      archivedAt: true,
+      authorId: true
+    }
+  });
+
+  if (!project) return false;
+
+  const isAdmin = user?.roles?.some(role => ['HEAD_ADMIN', 'DEPT_ADMIN', 'SUPER_ADMIN'].includes(role));
+  const isApprovedPublic = project.moderationStatus === 'APPROVED' && !project.archivedAt;
+
+  return isApprovedPublic || !!isAdmin ||
+    (!!user && hasProjectPermission(await getProjectRole(project, user.sub), 'view'));
+}
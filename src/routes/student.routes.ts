@@ -1,9 +1,20 @@
 import { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
 import { requireStudent, requireFacultyOrStudent, canAccessProject } from "../middlewares/unifiedAuth";
 import { prisma } from "../db";
 import { emitApplicationUpdate } from "../utils/enhancedWebSocket";
+import { notifyUser } from "../utils/notifications";
 import { createCacheMiddleware, CacheKeyGenerators, cacheResponse, CacheInvalidator } from "../middlewares/cacheMiddleware";
 import { CacheInvalidation } from "../utils/cacheInvalidation";
+import {
+  APPLICATION_STATUSES,
+  WITHDRAWABLE_STATUSES,
+  validateTransition,
+  recordStatusChange
+} from "../utils/applicationPipeline";
+import { getProjectForm, validateApplicationAnswers } from "../utils/applicationForm";
+import { countOccupiedSlots, hasOpenSlot, lockProjectSlots, nextWaitlistPosition, syncWaitlist, announcePromotions } from "../utils/waitlist";
+import { applyApplicationMembershipChange } from "../utils/projectMembership";
 
 export default async function studentRoutes(app: FastifyInstance) {
   
@@ -25,9 +36,13 @@ export default async function studentRoutes(app: FastifyInstance) {
             type: 'string', 
             minLength: 1, 
             maxLength: 2000 
+          },
+          answers: {
+            type: 'object',
+            additionalProperties: true,
+            description: 'Answers to the project application form, keyed by question id'
           }
-        },
-        required: ['message']
+        }
       },
       response: { 201: { type: 'object' } }
     }
@@ -35,7 +50,7 @@ export default async function studentRoutes(app: FastifyInstance) {
     try {
       const user = await requireStudent(req);
       const { id: projectId } = req.params;
-      const { message } = req.body;
+      const { message, answers } = req.body;
 
       // Check if project exists and is accessible
       const project = await prisma.project.findUnique({
@@ -50,6 +65,8 @@ export default async function studentRoutes(app: FastifyInstance) {
           progressStatus: true,
           maxStudents: true,
           authorId: true,
+          applicationForm: true,
+          waitlistEnabled: true,
           _count: {
             select: {
               applications: {
@@ -83,6 +100,25 @@ export default async function studentRoutes(app: FastifyInstance) {
         });
       }
 
+      // Validate answers against the project's application form
+      const form = getProjectForm(project.applicationForm);
+
+      if (form.length === 0 && !message) {
+        return reply.status(400).send({
+          success: false,
+          error: "Application message is required"
+        });
+      }
+
+      const formResult = validateApplicationAnswers(form, answers);
+      if (!formResult.valid) {
+        return reply.status(400).send({
+          success: false,
+          error: "Invalid application form answers",
+          details: formResult.errors
+        });
+      }
+
       // Use database transaction to prevent race conditions
       const result = await prisma.$transaction(async (tx) => {
         // Check if student already applied (within transaction)
@@ -97,15 +133,10 @@ export default async function studentRoutes(app: FastifyInstance) {
           throw new Error("ALREADY_APPLIED");
         }
 
-        // Re-check current accepted applications count (within transaction)
-        const currentAcceptedCount = await tx.appliedProject.count({
-          where: {
-            projectId,
-            status: 'ACCEPTED'
-          }
-        });
+        // Re-check occupied slots (within transaction); full projects queue or reject
+        const isFull = !(await hasOpenSlot(tx, projectId, project.maxStudents));
 
-        if (currentAcceptedCount >= project.maxStudents) {
+        if (isFull && !project.waitlistEnabled) {
           throw new Error("PROJECT_FULL");
         }
 
@@ -123,10 +154,20 @@ export default async function studentRoutes(app: FastifyInstance) {
             studentName,
             studentDepartment: user.scope.department!,
             message,
-            status: 'PENDING'
+            formAnswers: form.length > 0 ? (formResult.answers as unknown as Prisma.InputJsonValue) : undefined,
+            status: isFull ? 'WAITLISTED' : 'PENDING',
+            waitlistPosition: isFull ? await nextWaitlistPosition(tx, projectId) : null
           }
         });
 
+        await recordStatusChange(tx, {
+          applicationId: application.id,
+          fromStatus: null,
+          toStatus: application.status,
+          changedById: user.sub,
+          changedByRole: 'STUDENT'
+        });
+
         return application;
       });
 
@@ -154,6 +195,15 @@ export default async function studentRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      await notifyUser(project.authorId, {
+        type: 'application-received',
+        projectId,
+        projectTitle: project.title,
+        applicationId: result.id,
+        studentName: result.studentName,
+        status: result.status
+      });
+
       return reply.status(201).send({
         success: true,
         data: { application: result }
@@ -198,7 +248,7 @@ export default async function studentRoutes(app: FastifyInstance) {
         properties: {
           status: { 
             type: 'string', 
-            enum: ['PENDING', 'ACCEPTED', 'REJECTED'] 
+            enum: APPLICATION_STATUSES
           },
           page: { type: 'integer', minimum: 1, default: 1 },
           limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
@@ -233,6 +283,15 @@ export default async function studentRoutes(app: FastifyInstance) {
               deadline: true,
               archivedAt: true
             }
+          },
+          statusHistory: {
+            orderBy: { createdAt: 'asc' },
+            select: {
+              fromStatus: true,
+              toStatus: true,
+              reason: true,
+              createdAt: true
+            }
           }
         },
         orderBy: { appliedAt: 'desc' },
@@ -393,17 +452,30 @@ export default async function studentRoutes(app: FastifyInstance) {
         });
       }
 
-      // Only allow withdrawal of pending applications
-      if (application.status !== 'PENDING') {
+      // Only allow withdrawal while the application is in the pipeline or the student is a member
+      if (!WITHDRAWABLE_STATUSES.includes(application.status)) {
         return reply.status(400).send({
           success: false,
-          error: "You can only withdraw pending applications"
+          error: "This application can no longer be withdrawn"
         });
       }
 
-      // Delete the application
-      await prisma.appliedProject.delete({
-        where: { id }
+      // Delete the application and hand any freed slot to the waitlist
+      const promotions = await prisma.$transaction(async (tx) => {
+        await lockProjectSlots(tx, application.projectId);
+
+        await tx.appliedProject.delete({
+          where: { id }
+        });
+
+        return syncWaitlist(tx, {
+          projectId: application.projectId,
+          applicationId: id,
+          fromStatus: application.status,
+          toStatus: null,
+          waitlistPosition: application.waitlistPosition,
+          offerExpiresAt: application.offerExpiresAt
+        });
       });
 
       // CRITICAL: Clear cache BEFORE sending response
@@ -422,6 +494,10 @@ export default async function studentRoutes(app: FastifyInstance) {
         timestamp: new Date().toISOString()
       });
 
+      await applyApplicationMembershipChange(application.projectId, user.sub, application.status, null);
+
+      await announcePromotions(promotions);
+
       return reply.send({
         success: true,
         message: "Application withdrawn successfully"
@@ -435,6 +511,173 @@ export default async function studentRoutes(app: FastifyInstance) {
     }
   });
 
+  // Respond to an offer - Student only
+  app.post("/v1/applications/:id/offer", {
+    schema: {
+      tags: ["applications"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          decision: { type: 'string', enum: ['ACCEPT', 'DECLINE'] },
+          reason: { type: 'string', maxLength: 500 }
+        },
+        required: ['decision']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireStudent(req);
+      const { id } = req.params;
+      const { decision, reason } = req.body;
+      const toStatus = decision === 'ACCEPT' ? 'ACCEPTED' : 'OFFER_DECLINED';
+
+      const result = await prisma.$transaction(async (tx) => {
+        const application = await tx.appliedProject.findUnique({
+          where: { id },
+          include: {
+            project: {
+              select: { authorId: true, collegeId: true, maxStudents: true, applicationStages: true }
+            }
+          }
+        });
+
+        if (!application) {
+          throw new Error("NOT_FOUND");
+        }
+
+        if (application.studentId !== user.sub) {
+          throw new Error("FORBIDDEN");
+        }
+
+        const transition = validateTransition(
+          application.status,
+          toStatus,
+          application.project.applicationStages,
+          'STUDENT'
+        );
+
+        if (!transition.valid) {
+          throw new Error("NO_OPEN_OFFER");
+        }
+
+        if (application.offerExpiresAt && application.offerExpiresAt <= new Date()) {
+          throw new Error("OFFER_EXPIRED");
+        }
+
+        if (toStatus === 'ACCEPTED') {
+          // A live waitlist offer already holds one of the occupied slots
+          const holdsSlot = application.offerExpiresAt !== null;
+          const occupiedByOthers = await countOccupiedSlots(tx, application.projectId) - (holdsSlot ? 1 : 0);
+
+          if (occupiedByOthers >= application.project.maxStudents) {
+            throw new Error("PROJECT_FULL");
+          }
+        }
+
+        await tx.appliedProject.update({
+          where: { id },
+          data: { status: toStatus }
+        });
+
+        await recordStatusChange(tx, {
+          applicationId: id,
+          fromStatus: application.status,
+          toStatus,
+          changedById: user.sub,
+          changedByRole: 'STUDENT',
+          reason
+        });
+
+        const promotions = await syncWaitlist(tx, {
+          projectId: application.projectId,
+          applicationId: id,
+          fromStatus: application.status,
+          toStatus,
+          waitlistPosition: application.waitlistPosition,
+          offerExpiresAt: application.offerExpiresAt
+        });
+
+        const updated = await tx.appliedProject.findUniqueOrThrow({ where: { id } });
+
+        return { application: updated, project: application.project, promotions };
+      });
+
+      // CRITICAL: Clear cache BEFORE sending response
+      await CacheInvalidation.invalidateByEntity('application', id, 'update', {
+        projectId: result.application.projectId,
+        studentId: user.sub,
+        collegeId: result.project.collegeId
+      });
+
+      emitApplicationUpdate(result.project.authorId, {
+        type: 'application-status-changed',
+        application: result.application,
+        projectId: result.application.projectId,
+        collegeId: result.project.collegeId,
+        timestamp: new Date().toISOString()
+      });
+
+      await applyApplicationMembershipChange(result.application.projectId, user.sub, 'OFFERED', result.application.status);
+
+      await announcePromotions(result.promotions);
+
+      return reply.send({
+        success: true,
+        data: { application: result.application }
+      });
+    } catch (error: any) {
+      console.error("Error responding to offer:", error);
+
+      if (error.message === "NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "Application not found"
+        });
+      }
+
+      if (error.message === "FORBIDDEN") {
+        return reply.status(403).send({
+          success: false,
+          error: "You can only respond to offers on your own applications"
+        });
+      }
+
+      if (error.message === "NO_OPEN_OFFER") {
+        return reply.status(400).send({
+          success: false,
+          error: "There is no open offer on this application"
+        });
+      }
+
+      if (error.message === "OFFER_EXPIRED") {
+        return reply.status(400).send({
+          success: false,
+          error: "This offer has expired"
+        });
+      }
+
+      if (error.message === "PROJECT_FULL") {
+        return reply.status(400).send({
+          success: false,
+          error: "Project has reached maximum number of students"
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to respond to offer"
+      });
+    }
+  });
+
   // Get projects marketplace for students - authenticated route with proper filtering
   app.get("/v1/projects/marketplace", {
     preHandler: [
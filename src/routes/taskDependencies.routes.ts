@@ -0,0 +1,350 @@
+import { FastifyInstance } from "fastify";
+import { requireFacultyOrStudent } from "../middlewares/unifiedAuth";
+import { prisma } from "../db";
+import { emitProjectUpdate } from "../utils/enhancedWebSocket";
+import { canCreateTasks, getProjectAccess, getProjectRole, hasProjectPermission } from "../utils/projectPermissions";
+import {
+  computeCriticalPath,
+  getOpenBlockers,
+  getProjectDependencyEdges,
+  lockProjectDependencies,
+  wouldCreateCycle
+} from "../utils/taskDependencies";
+import { toTaskEventPayload } from "../utils/tasks";
+
+export default async function taskDependencyRoutes(app: FastifyInstance) {
+
+  // Get a task's dependencies and dependents - Project members only
+  app.get("/v1/tasks/:id/dependencies", {
+    schema: {
+      tags: ["tasks"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: taskId } = req.params;
+
+      const task = await prisma.projectTask.findUnique({
+        where: { id: taskId },
+        include: {
+          project: true,
+          dependencies: {
+            include: { dependsOn: { select: { id: true, title: true, status: true } } }
+          },
+          dependents: {
+            include: { task: { select: { id: true, title: true, status: true } } }
+          }
+        }
+      });
+
+      if (!task) {
+        return reply.status(404).send({
+          success: false,
+          error: "Task not found"
+        });
+      }
+
+      const role = await getProjectRole(task.project, user.sub);
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      const dependencies = task.dependencies.map(dependency => dependency.dependsOn);
+
+      return reply.send({
+        success: true,
+        data: {
+          dependencies,
+          dependents: task.dependents.map(dependent => dependent.task),
+          blocked: dependencies.some(dependency => dependency.status !== 'DONE')
+        }
+      });
+    } catch (error) {
+      console.error("Error fetching task dependencies:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to fetch task dependencies"
+      });
+    }
+  });
+
+  // Add a dependency ("this task waits on dependsOnId") - Members who can create tasks
+  app.post("/v1/tasks/:id/dependencies", {
+    schema: {
+      tags: ["tasks"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        properties: {
+          dependsOnId: { type: 'string', minLength: 1 }
+        },
+        required: ['dependsOnId']
+      },
+      response: { 201: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: taskId } = req.params;
+      const { dependsOnId } = req.body;
+
+      const task = await prisma.projectTask.findUnique({
+        where: { id: taskId },
+        include: { project: true }
+      });
+
+      if (!task) {
+        return reply.status(404).send({
+          success: false,
+          error: "Task not found"
+        });
+      }
+
+      const role = await getProjectRole(task.project, user.sub);
+
+      if (!canCreateTasks(task.project, role)) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You cannot manage tasks on this project."
+        });
+      }
+
+      const dependency = await prisma.$transaction(async (tx) => {
+        await lockProjectDependencies(tx, task.projectId);
+
+        const dependsOn = await tx.projectTask.findFirst({
+          where: { id: dependsOnId, projectId: task.projectId },
+          select: { id: true }
+        });
+
+        if (!dependsOn) {
+          throw new Error("DEPENDENCY_NOT_FOUND");
+        }
+
+        const edges = await getProjectDependencyEdges(tx, task.projectId);
+
+        if (edges.some(edge => edge.taskId === taskId && edge.dependsOnId === dependsOnId)) {
+          throw new Error("ALREADY_EXISTS");
+        }
+
+        if (wouldCreateCycle(edges, taskId, dependsOnId)) {
+          throw new Error("CYCLE");
+        }
+
+        return tx.projectTaskDependency.create({
+          data: {
+            projectId: task.projectId,
+            taskId,
+            dependsOnId,
+            createdById: user.sub
+          },
+          include: { dependsOn: { select: { id: true, title: true, status: true } } }
+        });
+      });
+
+      emitProjectUpdate({
+        type: 'task-updated',
+        projectId: task.projectId,
+        collegeId: task.project.collegeId,
+        departments: task.project.departments,
+        visibleToAllDepts: task.project.visibleToAllDepts,
+        task: toTaskEventPayload(task, (await getOpenBlockers(prisma, task.id)).length > 0),
+        updatedBy: {
+          id: user.sub,
+          name: user.displayName || user.name || "Unknown User"
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: { dependency }
+      });
+    } catch (error: any) {
+      if (error.message === "DEPENDENCY_NOT_FOUND") {
+        return reply.status(400).send({
+          success: false,
+          error: "Dependency must be a task in the same project"
+        });
+      }
+
+      if (error.message === "ALREADY_EXISTS") {
+        return reply.status(400).send({
+          success: false,
+          error: "This dependency already exists"
+        });
+      }
+
+      if (error.message === "CYCLE") {
+        return reply.status(400).send({
+          success: false,
+          error: "This dependency would create a cycle"
+        });
+      }
+
+      console.error("Error adding task dependency:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to add task dependency"
+      });
+    }
+  });
+
+  // Remove a dependency - Members who can create tasks
+  app.delete("/v1/tasks/:id/dependencies/:dependsOnId", {
+    schema: {
+      tags: ["tasks"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          dependsOnId: { type: 'string' }
+        },
+        required: ['id', 'dependsOnId']
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: taskId, dependsOnId } = req.params;
+
+      const dependency = await prisma.projectTaskDependency.findUnique({
+        where: { taskId_dependsOnId: { taskId, dependsOnId } },
+        include: { task: { include: { project: true } } }
+      });
+
+      if (!dependency) {
+        return reply.status(404).send({
+          success: false,
+          error: "Dependency not found"
+        });
+      }
+
+      const role = await getProjectRole(dependency.task.project, user.sub);
+
+      if (!canCreateTasks(dependency.task.project, role)) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You cannot manage tasks on this project."
+        });
+      }
+
+      await prisma.projectTaskDependency.delete({
+        where: { id: dependency.id }
+      });
+
+      return reply.send({
+        success: true,
+        message: "Dependency removed successfully"
+      });
+    } catch (error) {
+      console.error("Error removing task dependency:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to remove task dependency"
+      });
+    }
+  });
+
+  // Critical path to the final milestone - Project members only
+  app.get("/v1/projects/:id/critical-path", {
+    schema: {
+      tags: ["tasks"],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          milestoneId: { type: 'string' }
+        }
+      },
+      response: { 200: { type: 'object', additionalProperties: true } }
+    }
+  }, async (req: any, reply: any) => {
+    try {
+      const user = await requireFacultyOrStudent(req);
+      const { id: projectId } = req.params;
+      const { milestoneId } = req.query as any;
+
+      const { project, role } = await getProjectAccess(projectId, user.sub);
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: "Project not found"
+        });
+      }
+
+      if (!hasProjectPermission(role, 'view')) {
+        return reply.status(403).send({
+          success: false,
+          error: "Access denied. You must be a project member."
+        });
+      }
+
+      // Defaults to the milestone due last
+      const milestone = await prisma.projectMilestone.findFirst({
+        where: milestoneId ? { id: milestoneId, projectId } : { projectId },
+        orderBy: { dueDate: 'desc' },
+        select: { id: true, title: true, dueDate: true }
+      });
+
+      if (milestoneId && !milestone) {
+        return reply.status(404).send({
+          success: false,
+          error: "Milestone not found"
+        });
+      }
+
+      const [tasks, edges] = await Promise.all([
+        prisma.projectTask.findMany({
+          where: { projectId },
+          select: { id: true, title: true, status: true, estimateHours: true, milestoneId: true }
+        }),
+        getProjectDependencyEdges(prisma, projectId)
+      ]);
+
+      const targetTaskIds = milestone
+        ? new Set(tasks.filter(task => task.milestoneId === milestone.id).map(task => task.id))
+        : undefined;
+
+      return reply.send({
+        success: true,
+        data: {
+          milestone,
+          ...computeCriticalPath(tasks, edges, targetTaskIds)
+        }
+      });
+    } catch (error) {
+      console.error("Error computing critical path:", error);
+      return reply.status(500).send({
+        success: false,
+        error: "Failed to compute critical path"
+      });
+    }
+  });
+}
@@ -100,6 +100,21 @@ export const projectSchemas = {
         type: 'string', 
         enum: ['OPEN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'] 
       },
+      applicationStages: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Enabled application pipeline stages'
+      },
+      applicationForm: {
+        type: 'array',
+        items: { type: 'object', additionalProperties: true },
+        nullable: true,
+        description: 'Custom application form questions'
+      },
+      waitlistEnabled: { type: 'boolean' },
+      waitlistPromotion: { type: 'string', enum: ['AUTO_ACCEPT', 'OFFER'] },
+      offerWindowHours: { type: 'integer' },
+      taskCreationPolicy: { type: 'string', enum: ['SUPERVISORS_ONLY', 'MEMBERS'] },
       createdAt: { type: 'string', format: 'date-time' },
       updatedAt: { type: 'string', format: 'date-time' },
       archivedAt: { type: 'string', format: 'date-time', nullable: true }
@@ -143,6 +158,30 @@ export const projectSchemas = {
       tags: { 
         type: 'array', 
         items: { type: 'string' } 
+      },
+      applicationStages: {
+        type: 'array',
+        items: { type: 'string', enum: ['SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'WAITLISTED'] },
+        uniqueItems: true,
+        description: 'Optional pipeline stages between PENDING and ACCEPTED/REJECTED'
+      },
+      applicationForm: {
+        type: 'array',
+        items: { type: 'object', additionalProperties: true },
+        nullable: true,
+        description: 'Optional questions students answer when applying'
+      },
+      waitlistEnabled: { type: 'boolean', default: false },
+      waitlistPromotion: {
+        type: 'string',
+        enum: ['AUTO_ACCEPT', 'OFFER'],
+        description: 'How the head of the waitlist is promoted when a slot frees up'
+      },
+      offerWindowHours: { type: 'integer', minimum: 1, maximum: 336 },
+      taskCreationPolicy: {
+        type: 'string',
+        enum: ['SUPERVISORS_ONLY', 'MEMBERS'],
+        description: 'Whether accepted students can create tasks'
       }
     },
     required: ['title', 'description', 'projectType', 'maxStudents', 'deadline']
@@ -218,8 +257,10 @@ export const applicationSchemas = {
       message: { type: 'string', maxLength: 1000, nullable: true },
       status: { 
         type: 'string', 
-        enum: ['PENDING', 'ACCEPTED', 'REJECTED'] 
+        enum: ['PENDING', 'SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'ACCEPTED', 'OFFER_DECLINED', 'WAITLISTED', 'REJECTED'] 
       },
+      waitlistPosition: { type: 'integer', nullable: true },
+      offerExpiresAt: { type: 'string', format: 'date-time', nullable: true },
       appliedAt: { type: 'string', format: 'date-time' },
       project: {
         type: 'object',
@@ -252,7 +293,7 @@ export const applicationSchemas = {
     properties: {
       status: { 
         type: 'string', 
-        enum: ['ACCEPTED', 'REJECTED'],
+        enum: ['SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'WAITLISTED', 'ACCEPTED', 'REJECTED'],
         description: 'New application status'
       }
     },
@@ -267,12 +308,22 @@ export const taskSchemas = {
     properties: {
       id: { type: 'string', format: 'uuid' },
       title: { type: 'string', maxLength: 200 },
+      description: { type: 'string', nullable: true },
       projectId: { type: 'string', format: 'uuid' },
+      milestoneId: { type: 'string', nullable: true },
+      parentId: { type: 'string', nullable: true },
       assignedToId: { type: 'string', nullable: true },
+      assigneeIds: { type: 'array', items: { type: 'string' } },
       status: { 
         type: 'string', 
         enum: ['TODO', 'IN_PROGRESS', 'DONE'] 
       },
+      priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+      dueDate: { type: 'string', format: 'date-time', nullable: true },
+      estimateHours: { type: 'number', nullable: true },
+      labels: { type: 'array', items: { type: 'string' } },
+      position: { type: 'integer', description: 'Order within the status column' },
+      createdById: { type: 'string', nullable: true },
       createdAt: { type: 'string', format: 'date-time' },
       updatedAt: { type: 'string', format: 'date-time' }
     },
@@ -284,10 +335,21 @@ export const taskSchemas = {
     type: 'object',
     properties: {
       title: { type: 'string', minLength: 1, maxLength: 200 },
+      description: { type: 'string', maxLength: 5000 },
       assignedToId: { 
         type: 'string',
-        description: 'Optional user ID to assign task to'
-      }
+        description: 'Optional user ID to assign task to (use assigneeIds for several)'
+      },
+      assigneeIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Project members to assign the task to'
+      },
+      parentId: { type: 'string', description: 'Parent task for a subtask' },
+      priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+      dueDate: { type: 'string', format: 'date-time' },
+      estimateHours: { type: 'number', minimum: 0 },
+      labels: { type: 'array', items: { type: 'string' } }
     },
     required: ['title']
   },
@@ -297,11 +359,18 @@ export const taskSchemas = {
     type: 'object',
     properties: {
       title: { type: 'string', minLength: 1, maxLength: 200 },
+      description: { type: 'string', nullable: true },
       assignedToId: { type: 'string' },
+      assigneeIds: { type: 'array', items: { type: 'string' } },
       status: { 
         type: 'string', 
         enum: ['TODO', 'IN_PROGRESS', 'DONE'] 
-      }
+      },
+      priority: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] },
+      dueDate: { type: 'string', format: 'date-time', nullable: true },
+      estimateHours: { type: 'number', nullable: true },
+      labels: { type: 'array', items: { type: 'string' } },
+      position: { type: 'integer', minimum: 0, description: 'Target position within the status column' }
     }
   }
 };
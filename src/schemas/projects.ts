@@ -3,8 +3,26 @@ import { z } from "zod";
 export const ProjectType = z.enum(["PROJECT", "RESEARCH", "PAPER_PUBLISH", "OTHER"]);
 export const ModerationStatus = z.enum(["PENDING_APPROVAL", "APPROVED", "REJECTED"]);
 export const ProgressStatus = z.enum(["OPEN", "IN_PROGRESS", "COMPLETED"]);
-export const ApplicationStatus = z.enum(["PENDING", "ACCEPTED", "REJECTED"]);
+export const ApplicationStatus = z.enum([
+  "PENDING",
+  "SHORTLISTED",
+  "INTERVIEW_SCHEDULED",
+  "OFFERED",
+  "ACCEPTED",
+  "OFFER_DECLINED",
+  "WAITLISTED",
+  "REJECTED",
+]);
 export const TaskStatus = z.enum(["TODO", "IN_PROGRESS", "DONE"]);
+export const TaskPriority = z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]);
+export const FormQuestionType = z.enum([
+  "SHORT_TEXT",
+  "LONG_TEXT",
+  "SINGLE_CHOICE",
+  "MULTI_CHOICE",
+  "URL",
+  "SKILL_RATING",
+]);
 
 export const createProjectSchema = z.object({
   title: z.string().min(1),
@@ -25,23 +43,68 @@ export const updateProjectSchema = createProjectSchema.partial().extend({
   progressStatus: ProgressStatus.optional(),
 });
 
+// Custom application form questions (stored on Project.applicationForm)
+export const applicationFormQuestionSchema = z
+  .object({
+    id: z.string().min(1).max(50).regex(/^[A-Za-z0-9_-]+$/),
+    type: FormQuestionType,
+    label: z.string().min(1).max(300),
+    helpText: z.string().max(500).optional(),
+    required: z.boolean().default(false),
+    options: z.array(z.string().min(1).max(200)).max(20).optional(),
+    skills: z.array(z.string().min(1).max(100)).max(20).optional(),
+    maxLength: z.number().int().min(1).max(5000).optional(),
+  })
+  .superRefine((question, ctx) => {
+    const isChoice = question.type === "SINGLE_CHOICE" || question.type === "MULTI_CHOICE";
+    if (isChoice && (!question.options || question.options.length < 2)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Choice questions need at least 2 options" });
+    }
+    if (question.type === "SKILL_RATING" && (!question.skills || question.skills.length === 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["skills"], message: "Skill rating questions need at least 1 skill" });
+    }
+  });
+
+export const applicationFormSchema = z
+  .array(applicationFormQuestionSchema)
+  .max(30)
+  .refine((questions) => new Set(questions.map((q) => q.id)).size === questions.length, {
+    message: "Question ids must be unique",
+  });
+
 export const applyProjectSchema = z.object({
   message: z.string().max(2000).optional(),
+  answers: z.record(z.unknown()).optional(),
 });
 
 export const updateApplicationStatusSchema = z.object({
-  status: ApplicationStatus, // PENDING->ACCEPTED/REJECTED only (enforced server-side)
+  status: ApplicationStatus, // Transitions validated server-side (see utils/applicationPipeline)
 });
 
 export const createTaskSchema = z.object({
   title: z.string().min(1),
+  description: z.string().max(5000).optional(),
   assignedToId: z.string().optional(),
+  assigneeIds: z.array(z.string()).max(20).optional(),
+  parentId: z.string().optional(),
+  priority: TaskPriority.optional(),
+  dueDate: z.string().datetime().optional(),
+  estimateHours: z.number().min(0).max(1000).optional(),
+  labels: z.array(z.string().min(1).max(50)).max(20).optional(),
 });
 
 export const updateTaskSchema = z.object({
   title: z.string().min(1).optional(),
+  description: z.string().max(5000).nullable().optional(),
   assignedToId: z.string().nullable().optional(),
+  assigneeIds: z.array(z.string()).max(20).optional(),
+  parentId: z.string().nullable().optional(),
   status: TaskStatus.optional(),
+  priority: TaskPriority.optional(),
+  dueDate: z.string().datetime().nullable().optional(),
+  estimateHours: z.number().min(0).max(1000).nullable().optional(),
+  labels: z.array(z.string().min(1).max(50)).max(20).optional(),
+  position: z.number().int().min(0).optional(),
 });
 
 export const createAttachmentSchema = z.object({
@@ -49,3 +112,5 @@ export const createAttachmentSchema = z.object({
   fileUrl: z.string().url(),
   fileType: z.string().min(1),
 });
+
+export type ApplicationFormQuestion = z.infer<typeof applicationFormQuestionSchema>;
@@ -94,6 +94,7 @@ const jest = {
 
 import { CryptoManager, FeatureFlags, MessageValidator } from '../utils/crypto';
 import { E2EEMigrationManager } from '../utils/migrationStrategy';
+import { KeyLogTree, hashKeyLogLeaf, verifyConsistencyProof, verifyInclusionProof } from '../utils/keyTransparency';
 
 describe('E2EE Cryptographic Functions', () => {
   
@@ -209,6 +210,172 @@ describe('E2EE Cryptographic Functions', () => {
   });
 });
 
+describe('Message Signatures', () => {
+
+  const signedMessage = () => {
+    const symmetricKey = CryptoManager.generateSymmetricKey();
+    const { ciphertext, nonce } = CryptoManager.encryptMessage('Signed secret message', symmetricKey);
+    return {
+      senderId: 'user123',
+      deviceId: 'laptop-1',
+      projectId: 'project123',
+      taskId: 'task123',
+      parentId: null,
+      keyEpoch: 2,
+      messageType: 'text',
+      timestamp: new Date().toISOString(),
+      nonce,
+      ciphertext
+    };
+  };
+
+  test('should generate valid signing key pairs', () => {
+    const keyPair = CryptoManager.generateSigningKeyPair();
+
+    expect(keyPair.privateKey).toHaveLength(32);
+    expect(keyPair.publicKey).toHaveLength(32);
+    expect(CryptoManager.isValidSigningPublicKey(CryptoManager.keyToBase64(keyPair.publicKey))).toBe(true);
+  });
+
+  test('should verify a signature from the sending device', () => {
+    const device = CryptoManager.generateSigningKeyPair();
+    const message = signedMessage();
+
+    const signature = CryptoManager.signMessage(message, device.privateKey);
+
+    expect(CryptoManager.keyFromBase64(signature)).toHaveLength(64);
+    expect(CryptoManager.verifyMessageSignature(message, signature, CryptoManager.keyToBase64(device.publicKey))).toBe(true);
+  });
+
+  test('should reject a signature by another device', () => {
+    const device = CryptoManager.generateSigningKeyPair();
+    const otherDevice = CryptoManager.generateSigningKeyPair();
+    const message = signedMessage();
+
+    const signature = CryptoManager.signMessage(message, otherDevice.privateKey);
+
+    expect(CryptoManager.verifyMessageSignature(message, signature, CryptoManager.keyToBase64(device.publicKey))).toBe(false);
+  });
+
+  test('should reject a forged sender or device', () => {
+    const device = CryptoManager.generateSigningKeyPair();
+    const message = signedMessage();
+    const signature = CryptoManager.signMessage(message, device.privateKey);
+    const publicKey = CryptoManager.keyToBase64(device.publicKey);
+
+    expect(CryptoManager.verifyMessageSignature({ ...message, senderId: 'user456' }, signature, publicKey)).toBe(false);
+    expect(CryptoManager.verifyMessageSignature({ ...message, deviceId: 'phone-1' }, signature, publicKey)).toBe(false);
+  });
+
+  test('should reject tampered message fields', () => {
+    const device = CryptoManager.generateSigningKeyPair();
+    const message = signedMessage();
+    const signature = CryptoManager.signMessage(message, device.privateKey);
+    const publicKey = CryptoManager.keyToBase64(device.publicKey);
+    const otherCiphertext = CryptoManager.encryptMessage('Replaced message', CryptoManager.generateSymmetricKey());
+
+    expect(CryptoManager.verifyMessageSignature({ ...message, ciphertext: otherCiphertext.ciphertext }, signature, publicKey)).toBe(false);
+    expect(CryptoManager.verifyMessageSignature({ ...message, projectId: 'project456' }, signature, publicKey)).toBe(false);
+    expect(CryptoManager.verifyMessageSignature({ ...message, taskId: null }, signature, publicKey)).toBe(false);
+    expect(CryptoManager.verifyMessageSignature({ ...message, keyEpoch: 1 }, signature, publicKey)).toBe(false);
+  });
+
+  test('should reject malformed signatures and keys without throwing', () => {
+    const device = CryptoManager.generateSigningKeyPair();
+    const message = signedMessage();
+    const signature = CryptoManager.signMessage(message, device.privateKey);
+
+    expect(CryptoManager.verifyMessageSignature(message, 'bm90IGEgc2lnbmF0dXJl', CryptoManager.keyToBase64(device.publicKey))).toBe(false);
+    expect(CryptoManager.verifyMessageSignature(message, signature, 'c2hvcnQ=')).toBe(false);
+    expect(CryptoManager.isValidSigningPublicKey('short')).toBe(false);
+  });
+});
+
+describe('Key Transparency', () => {
+
+  const MAX_TREE_SIZE = 20;
+
+  const logLeaf = (index: number, publicKey = `public-key-${index}`) => hashKeyLogLeaf({
+    index,
+    action: 'REGISTERED',
+    userId: `user${index}`,
+    deviceId: 'laptop-1',
+    keyType: 'x25519',
+    publicKey,
+    signingPublicKey: null,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, index))
+  });
+
+  const buildTree = (size: number, leaf = logLeaf) => {
+    const tree = new KeyLogTree();
+    for (let index = 0; index < size; index++) {
+      tree.append(leaf(index));
+    }
+    return tree;
+  };
+
+  test('should prove every leaf is included in every tree size', () => {
+    const tree = buildTree(MAX_TREE_SIZE);
+
+    for (let treeSize = 1; treeSize <= MAX_TREE_SIZE; treeSize++) {
+      for (let leafIndex = 0; leafIndex < treeSize; leafIndex++) {
+        const proof = tree.inclusionProof(leafIndex, treeSize);
+        expect(proof.leafHash).toBe(logLeaf(leafIndex));
+        expect(verifyInclusionProof(proof)).toBe(true);
+      }
+    }
+  });
+
+  test('should prove every tree size is a prefix of every larger one', () => {
+    const tree = buildTree(MAX_TREE_SIZE);
+
+    for (let secondSize = 0; secondSize <= MAX_TREE_SIZE; secondSize++) {
+      for (let firstSize = 0; firstSize <= secondSize; firstSize++) {
+        expect(verifyConsistencyProof(tree.consistencyProof(firstSize, secondSize))).toBe(true);
+      }
+    }
+  });
+
+  test('should match roots computed for the smaller tree on its own', () => {
+    const tree = buildTree(MAX_TREE_SIZE);
+
+    for (let treeSize = 1; treeSize <= MAX_TREE_SIZE; treeSize++) {
+      expect(tree.rootHash(treeSize)).toBe(buildTree(treeSize).rootHash(treeSize));
+    }
+    expect(buildTree(1).rootHash(1)).toBe(logLeaf(0));
+  });
+
+  test('should reject tampered inclusion proofs', () => {
+    const tree = buildTree(11);
+    const proof = tree.inclusionProof(6, 11);
+    const otherHash = logLeaf(6, 'swapped-public-key');
+
+    expect(verifyInclusionProof({ ...proof, leafHash: otherHash })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, leafIndex: 7 })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, treeSize: 7 })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, rootHash: tree.rootHash(10) })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, auditPath: [otherHash, ...proof.auditPath.slice(1)] })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, auditPath: proof.auditPath.slice(1) })).toBe(false);
+    expect(verifyInclusionProof({ ...proof, auditPath: [...proof.auditPath, otherHash] })).toBe(false);
+  });
+
+  test('should reject consistency proofs for a rewritten log', () => {
+    const original = buildTree(13);
+    // Same log with the key at leaf 4 swapped
+    const rewritten = buildTree(13, index => logLeaf(index, index === 4 ? 'swapped-public-key' : `public-key-${index}`));
+
+    for (const firstSize of [5, 7, 8]) {
+      const proof = rewritten.consistencyProof(firstSize, 13);
+      expect(verifyConsistencyProof({ ...proof, firstRootHash: original.rootHash(firstSize) })).toBe(false);
+    }
+
+    const proof = original.consistencyProof(6, 13);
+    expect(verifyConsistencyProof({ ...proof, secondRootHash: rewritten.rootHash(13) })).toBe(false);
+    expect(verifyConsistencyProof({ ...proof, proof: proof.proof.slice(1) })).toBe(false);
+    expect(verifyConsistencyProof({ ...proof, firstSize: 14 })).toBe(false);
+  });
+});
+
 describe('Feature Flags', () => {
   
   beforeEach(() => {
@@ -0,0 +1,186 @@
+import { applicationFormSchema, ApplicationFormQuestion } from "../schemas/projects";
+
+// Custom application forms
+// Faculty define questions on Project.applicationForm; student answers are validated
+// against that form and stored on AppliedProject.formAnswers with a snapshot of the
+// question label, so exports stay readable if the form is edited later.
+
+export const SKILL_RATING_MIN = 1;
+export const SKILL_RATING_MAX = 5;
+
+const DEFAULT_MAX_LENGTH: Record<string, number> = {
+  SHORT_TEXT: 200,
+  LONG_TEXT: 2000
+};
+
+export interface ApplicationFormAnswer {
+  questionId: string;
+  label: string;
+  type: ApplicationFormQuestion['type'];
+  value: string | string[] | Record<string, number>;
+}
+
+/**
+ * Parse a form definition submitted by faculty (applies defaults such as required=false)
+ */
+export function parseApplicationForm(form: unknown): { valid: boolean; form?: ApplicationFormQuestion[]; errors?: string[] } {
+  const parsed = applicationFormSchema.safeParse(form);
+
+  if (!parsed.success) {
+    return {
+      valid: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'applicationForm'}: ${issue.message}`)
+    };
+  }
+
+  return { valid: true, form: parsed.data };
+}
+
+/**
+ * Read the stored form of a project, treating missing or malformed data as "no form"
+ */
+export function getProjectForm(applicationForm: unknown): ApplicationFormQuestion[] {
+  if (!applicationForm) return [];
+  const parsed = applicationFormSchema.safeParse(applicationForm);
+  return parsed.success ? parsed.data : [];
+}
+
+function isEmptyAnswer(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value as object).length === 0;
+  return false;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function validateAnswer(question: ApplicationFormQuestion, value: unknown): { error?: string; value?: ApplicationFormAnswer['value'] } {
+  switch (question.type) {
+    case 'SHORT_TEXT':
+    case 'LONG_TEXT': {
+      if (typeof value !== 'string') return { error: 'must be text' };
+      const maxLength = question.maxLength ?? DEFAULT_MAX_LENGTH[question.type];
+      const text = value.trim();
+      if (text.length > maxLength) return { error: `must be ${maxLength} characters or less` };
+      return { value: text };
+    }
+
+    case 'SINGLE_CHOICE': {
+      if (typeof value !== 'string' || !question.options?.includes(value)) {
+        return { error: 'must be one of the listed options' };
+      }
+      return { value };
+    }
+
+    case 'MULTI_CHOICE': {
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !question.options?.includes(v))) {
+        return { error: 'must be a list of the listed options' };
+      }
+      return { value: Array.from(new Set<string>(value)) };
+    }
+
+    case 'URL': {
+      if (typeof value !== 'string' || !isHttpUrl(value.trim())) {
+        return { error: 'must be a valid http(s) link' };
+      }
+      return { value: value.trim() };
+    }
+
+    case 'SKILL_RATING': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'must map each skill to a rating' };
+      }
+
+      const ratings: Record<string, number> = {};
+      for (const [skill, rating] of Object.entries(value as Record<string, unknown>)) {
+        if (!question.skills?.includes(skill)) {
+          return { error: `unknown skill "${skill}"` };
+        }
+        if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < SKILL_RATING_MIN || rating > SKILL_RATING_MAX) {
+          return { error: `rating for "${skill}" must be a whole number from ${SKILL_RATING_MIN} to ${SKILL_RATING_MAX}` };
+        }
+        ratings[skill] = rating;
+      }
+
+      if (question.required) {
+        const missing = question.skills!.filter(skill => ratings[skill] === undefined);
+        if (missing.length > 0) return { error: `missing ratings for ${missing.join(', ')}` };
+      }
+
+      return { value: ratings };
+    }
+  }
+}
+
+/**
+ * Validate a student's answers against a project form
+ */
+export function validateApplicationAnswers(
+  form: ApplicationFormQuestion[],
+  answers: Record<string, unknown> = {}
+): { valid: boolean; answers: ApplicationFormAnswer[]; errors: string[] } {
+  const errors: string[] = [];
+  const validated: ApplicationFormAnswer[] = [];
+  const questionIds = new Set(form.map(q => q.id));
+
+  Object.keys(answers).forEach(id => {
+    if (!questionIds.has(id)) {
+      errors.push(`${id}: unknown question`);
+    }
+  });
+
+  form.forEach(question => {
+    const value = answers[question.id];
+
+    if (isEmptyAnswer(value)) {
+      if (question.required) {
+        errors.push(`${question.id}: answer is required`);
+      }
+      return;
+    }
+
+    const result = validateAnswer(question, value);
+    if (result.error) {
+      errors.push(`${question.id}: ${result.error}`);
+      return;
+    }
+
+    validated.push({
+      questionId: question.id,
+      label: question.label,
+      type: question.type,
+      value: result.value!
+    });
+  });
+
+  return { valid: errors.length === 0, answers: validated, errors };
+}
+
+/**
+ * Flatten stored answers into a single line, e.g. for CSV exports
+ */
+export function formatAnswersForExport(formAnswers: unknown): string {
+  if (!Array.isArray(formAnswers)) return '';
+
+  return (formAnswers as ApplicationFormAnswer[])
+    .map(answer => {
+      let value: string;
+      if (Array.isArray(answer.value)) {
+        value = answer.value.join('; ');
+      } else if (typeof answer.value === 'object' && answer.value !== null) {
+        value = Object.entries(answer.value).map(([skill, rating]) => `${skill} ${rating}/${SKILL_RATING_MAX}`).join('; ');
+      } else {
+        value = String(answer.value);
+      }
+      return `${answer.label}: ${value}`;
+    })
+    .join(' | ');
+}
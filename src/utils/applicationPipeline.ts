@@ -0,0 +1,160 @@
+import type { ApplicationStatus, Prisma } from "@prisma/client";
+
+// Multi-stage application pipeline
+// PENDING, ACCEPTED and REJECTED are always available. The remaining stages are
+// opted into per project through Project.applicationStages.
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'PENDING',
+  'SHORTLISTED',
+  'INTERVIEW_SCHEDULED',
+  'OFFERED',
+  'ACCEPTED',
+  'OFFER_DECLINED',
+  'WAITLISTED',
+  'REJECTED'
+];
+
+export const CORE_APPLICATION_STATUSES: ApplicationStatus[] = ['PENDING', 'ACCEPTED', 'REJECTED'];
+
+// Stages faculty can enable on a project (OFFER_DECLINED comes with OFFERED)
+export const CONFIGURABLE_APPLICATION_STAGES: ApplicationStatus[] = [
+  'SHORTLISTED',
+  'INTERVIEW_SCHEDULED',
+  'OFFERED',
+  'WAITLISTED'
+];
+
+// Ordered stages used for funnel reporting
+export const APPLICATION_FUNNEL: ApplicationStatus[] = [
+  'PENDING',
+  'SHORTLISTED',
+  'INTERVIEW_SCHEDULED',
+  'OFFERED',
+  'ACCEPTED'
+];
+
+// Statuses a student may still withdraw from (withdrawing when ACCEPTED leaves the project)
+export const WITHDRAWABLE_STATUSES: ApplicationStatus[] = [
+  'PENDING',
+  'ACCEPTED',
+  'SHORTLISTED',
+  'INTERVIEW_SCHEDULED',
+  'OFFERED',
+  'WAITLISTED'
+];
+
+export type PipelineActor = 'FACULTY' | 'ADMIN' | 'STUDENT' | 'SYSTEM';
+
+const TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  PENDING: ['SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'WAITLISTED', 'ACCEPTED', 'REJECTED'],
+  SHORTLISTED: ['INTERVIEW_SCHEDULED', 'OFFERED', 'WAITLISTED', 'ACCEPTED', 'REJECTED'],
+  INTERVIEW_SCHEDULED: ['OFFERED', 'WAITLISTED', 'ACCEPTED', 'REJECTED'],
+  WAITLISTED: ['SHORTLISTED', 'INTERVIEW_SCHEDULED', 'OFFERED', 'ACCEPTED', 'REJECTED'],
+  OFFERED: ['ACCEPTED', 'OFFER_DECLINED', 'REJECTED'],
+  ACCEPTED: ['REJECTED'],
+  REJECTED: ['PENDING'],
+  OFFER_DECLINED: []
+};
+
+// Offer responses belong to the student; everything else to faculty/admins
+const STUDENT_TRANSITIONS: Partial<Record<ApplicationStatus, ApplicationStatus[]>> = {
+  OFFERED: ['ACCEPTED', 'OFFER_DECLINED']
+};
+
+/**
+ * Whether a status is usable for a project with the given enabled stages
+ */
+export function isStageEnabled(status: ApplicationStatus, enabledStages: ApplicationStatus[] = []): boolean {
+  if (CORE_APPLICATION_STATUSES.includes(status)) return true;
+  if (status === 'OFFER_DECLINED') return enabledStages.includes('OFFERED');
+  return enabledStages.includes(status);
+}
+
+/**
+ * Validates a status transition for a project's pipeline and the acting role
+ */
+export function validateTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  enabledStages: ApplicationStatus[] = [],
+  actor: PipelineActor
+): { valid: boolean; error?: string } {
+  if (from === to) {
+    return { valid: false, error: `Application is already ${to.toLowerCase()}` };
+  }
+
+  // An outstanding offer (e.g. from waitlist promotion) can always be answered
+  const answeringOffer = from === 'OFFERED' && to === 'OFFER_DECLINED';
+
+  if (!answeringOffer && !isStageEnabled(to, enabledStages)) {
+    return { valid: false, error: `Stage ${to} is not enabled for this project` };
+  }
+
+  if (!TRANSITIONS[from].includes(to)) {
+    return { valid: false, error: `Cannot move application from ${from} to ${to}` };
+  }
+
+  const studentOwned = STUDENT_TRANSITIONS[from]?.includes(to) ?? false;
+
+  if (actor === 'STUDENT' && !studentOwned) {
+    return { valid: false, error: `Students cannot move an application from ${from} to ${to}` };
+  }
+
+  if (actor !== 'STUDENT' && studentOwned) {
+    return { valid: false, error: 'Only the student can respond to an offer' };
+  }
+
+  // Projects that use offers must go through one before a student is accepted
+  if (actor !== 'STUDENT' && to === 'ACCEPTED' && enabledStages.includes('OFFERED')) {
+    return { valid: false, error: 'This project uses offers. Send an offer instead of accepting directly' };
+  }
+
+  return { valid: true };
+}
+
+export class InvalidTransitionError extends Error {
+  readonly code = 'INVALID_TRANSITION';
+
+  constructor(message: string, public fromStatus: ApplicationStatus, public applicationStages: ApplicationStatus[]) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+/**
+ * Next statuses reachable from the current one for the acting role
+ */
+export function getAllowedTransitions(
+  from: ApplicationStatus,
+  enabledStages: ApplicationStatus[] = [],
+  actor: PipelineActor
+): ApplicationStatus[] {
+  return TRANSITIONS[from].filter(to => validateTransition(from, to, enabledStages, actor).valid);
+}
+
+/**
+ * Append an entry to an application's status history (call inside the status-changing transaction)
+ */
+export async function recordStatusChange(
+  tx: Prisma.TransactionClient,
+  change: {
+    applicationId: string;
+    fromStatus: ApplicationStatus | null;
+    toStatus: ApplicationStatus;
+    changedById: string;
+    changedByRole: PipelineActor;
+    reason?: string;
+  }
+) {
+  return tx.applicationStatusHistory.create({
+    data: {
+      applicationId: change.applicationId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      changedById: change.changedById,
+      changedByRole: change.changedByRole,
+      reason: change.reason
+    }
+  });
+}
@@ -0,0 +1,133 @@
+import type { Prisma, ProjectAttachment, ProjectAttachmentVersion } from "@prisma/client";
+import { isQuarantined } from "./malwareScanning";
+
+// Attachment versions
+// A ProjectAttachment is the logical document; every upload of it is a ProjectAttachmentVersion
+// numbered from 1. The attachment row mirrors the file fields of its current version so
+// existing listings keep working. Restoring an older version only moves currentVersion, so
+// history is never rewritten. Attachments created before versioning get their version 1
+// backfilled from the row the first time their history is touched.
+
+export type AttachmentFileFields = Pick<
+  ProjectAttachmentVersion,
+  'fileName' | 'fileUrl' | 'fileType' | 'fileSize' | 'checksum' | 'storageDriver' | 'storageKey' | 'scanStatus'
+>;
+
+/**
+ * File fields shared by attachments and their versions
+ */
+export function attachmentFileFields(source: AttachmentFileFields): AttachmentFileFields {
+  return {
+    fileName: source.fileName,
+    fileUrl: source.fileUrl,
+    fileType: source.fileType,
+    fileSize: source.fileSize,
+    checksum: source.checksum,
+    storageDriver: source.storageDriver,
+    storageKey: source.storageKey,
+    scanStatus: source.scanStatus
+  };
+}
+
+/**
+ * Make sure an attachment has a version row for its current file
+ */
+export async function ensureInitialVersion(tx: Prisma.TransactionClient, attachment: ProjectAttachment) {
+  const existing = await tx.projectAttachmentVersion.count({
+    where: { attachmentId: attachment.id }
+  });
+
+  if (existing === 0) {
+    // Another request may be backfilling the same row
+    await tx.projectAttachmentVersion.createMany({
+      data: [{
+        attachmentId: attachment.id,
+        version: attachment.currentVersion,
+        uploaderId: attachment.uploaderId,
+        createdAt: attachment.createdAt,
+        ...attachmentFileFields(attachment)
+      }],
+      skipDuplicates: true
+    });
+  }
+}
+
+/**
+ * Serialize version changes of an attachment until the transaction ends, so concurrent
+ * uploads can't take the same version number
+ */
+async function lockAttachmentVersions(tx: Prisma.TransactionClient, attachmentId: string) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`attachment-versions:${attachmentId}`}))`;
+}
+
+/**
+ * Add a new version and make it current
+ */
+export async function addAttachmentVersion(
+  tx: Prisma.TransactionClient,
+  attachment: ProjectAttachment,
+  uploaderId: string,
+  file: AttachmentFileFields
+) {
+  await lockAttachmentVersions(tx, attachment.id);
+  await ensureInitialVersion(tx, attachment);
+
+  const latest = await tx.projectAttachmentVersion.findFirst({
+    where: { attachmentId: attachment.id },
+    orderBy: { version: 'desc' },
+    select: { version: true }
+  });
+
+  const version = await tx.projectAttachmentVersion.create({
+    data: {
+      attachmentId: attachment.id,
+      version: (latest?.version ?? 0) + 1,
+      uploaderId,
+      ...file
+    }
+  });
+
+  const updated = await tx.projectAttachment.update({
+    where: { id: attachment.id },
+    data: {
+      ...attachmentFileFields(version),
+      currentVersion: version.version
+    }
+  });
+
+  return { attachment: updated, version };
+}
+
+/**
+ * Point an attachment back at one of its earlier versions
+ */
+export async function restoreAttachmentVersion(
+  tx: Prisma.TransactionClient,
+  attachment: ProjectAttachment,
+  versionNumber: number
+) {
+  await lockAttachmentVersions(tx, attachment.id);
+  await ensureInitialVersion(tx, attachment);
+
+  const version = await tx.projectAttachmentVersion.findUnique({
+    where: { attachmentId_version: { attachmentId: attachment.id, version: versionNumber } }
+  });
+
+  if (!version) {
+    throw new Error("VERSION_NOT_FOUND");
+  }
+
+  if (isQuarantined(version.scanStatus)) {
+    throw new Error("VERSION_QUARANTINED");
+  }
+
+  const updated = await tx.projectAttachment.update({
+    where: { id: attachment.id },
+    data: {
+      ...attachmentFileFields(version),
+      currentVersion: version.version
+    }
+  });
+
+  return { attachment: updated, version };
+}
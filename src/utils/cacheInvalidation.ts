@@ -261,7 +261,9 @@ export class CacheInvalidation {
         `project_applications:${projectId}`,
         `student_applications:${studentId}`,
         `application_stats:${projectId}`,
-        `student_stats:${studentId}`
+        `student_stats:${studentId}`,
+        // Membership changes affect project room access
+        `project_access:${studentId}:${projectId}`
       ];
 
       await this.clearCacheByPattern(keys);
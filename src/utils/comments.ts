@@ -0,0 +1,168 @@
+import type { Comment, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import type { SignatureStatus } from "./messageSignatures";
+
+// Comment threads
+// Threads are one level deep: a reply's parentId is the top-level comment of its thread,
+// and replying to a reply joins the same thread. Editing keeps the previous contents as a
+// CommentRevision; encrypted comments swap ciphertext/nonce and the body stays a placeholder.
+// Deleting leaves a tombstone with its contents and history cleared, so replies stay in place.
+
+export const DEFAULT_REPLIES_PER_THREAD = 3;
+
+export type CommentContent =
+  | { body: string; mentionedUserIds: string[] }
+  | {
+      ciphertext: string;
+      nonce: string;
+      keyEpoch: number;
+      messageSignature?: string | null;
+      signingDeviceId: string;
+      signatureStatus: SignatureStatus;
+      signedTimestamp: string;
+    };
+
+/**
+ * Resolve the top-level comment a new reply belongs to
+ */
+export async function resolveThreadParent(projectId: string, parentId: string) {
+  const parent = await prisma.comment.findUnique({
+    where: { id: parentId },
+    select: { id: true, projectId: true, taskId: true, parentId: true, deletedAt: true }
+  });
+
+  if (!parent || parent.projectId !== projectId) {
+    throw new Error("PARENT_NOT_FOUND");
+  }
+
+  if (parent.deletedAt) {
+    throw new Error("PARENT_DELETED");
+  }
+
+  // Replies inherit the task of their thread
+  return { parentId: parent.parentId ?? parent.id, taskId: parent.taskId };
+}
+
+/**
+ * Comment fields for API responses
+ */
+export function presentComment<T extends Comment>(comment: T & { _count?: { replies: number } }) {
+  const { _count, ...rest } = comment;
+
+  return {
+    ...rest,
+    isEdited: comment.editedAt !== null,
+    isDeleted: comment.deletedAt !== null,
+    ...(_count ? { replyCount: _count.replies } : {})
+  };
+}
+
+/**
+ * Replace a comment's contents, keeping what it said before as a revision
+ */
+export async function editComment(
+  tx: Prisma.TransactionClient,
+  comment: Comment,
+  editorId: string,
+  content: CommentContent
+) {
+  await tx.commentRevision.create({
+    data: {
+      commentId: comment.id,
+      body: comment.body,
+      ciphertext: comment.ciphertext,
+      nonce: comment.nonce,
+      keyEpoch: comment.keyEpoch,
+      messageSignature: comment.messageSignature,
+      signingDeviceId: comment.signingDeviceId,
+      signatureStatus: comment.signatureStatus,
+      signedTimestamp: comment.signedTimestamp,
+      editedById: editorId
+    }
+  });
+
+  return tx.comment.update({
+    where: { id: comment.id },
+    data: {
+      ...('body' in content
+        ? { body: content.body, mentionedUserIds: content.mentionedUserIds }
+        : {
+            ciphertext: content.ciphertext,
+            nonce: content.nonce,
+            keyEpoch: content.keyEpoch,
+            messageSignature: content.messageSignature ?? null,
+            signingDeviceId: content.signingDeviceId,
+            signatureStatus: content.signatureStatus,
+            signedTimestamp: content.signedTimestamp
+          }),
+      editedAt: new Date()
+    }
+  });
+}
+
+/**
+ * Turn a comment into a tombstone, dropping its contents and edit history
+ */
+export async function softDeleteComment(tx: Prisma.TransactionClient, comment: Comment, deletedById: string) {
+  await tx.commentRevision.deleteMany({
+    where: { commentId: comment.id }
+  });
+
+  return tx.comment.update({
+    where: { id: comment.id },
+    data: {
+      body: '',
+      ciphertext: null,
+      nonce: null,
+      keyEpoch: null,
+      messageSignature: null,
+      signingDeviceId: null,
+      signatureStatus: null,
+      signedTimestamp: null,
+      deletedAt: new Date(),
+      deletedById
+    }
+  });
+}
+
+/**
+ * One page of top-level comments, each with its first replies.
+ * Deleted top-level comments only show up while they still have replies.
+ */
+export async function getCommentThreads(
+  where: Prisma.CommentWhereInput,
+  page: number,
+  limit: number,
+  repliesPerThread: number = DEFAULT_REPLIES_PER_THREAD
+) {
+  const threadWhere: Prisma.CommentWhereInput = {
+    ...where,
+    parentId: null,
+    OR: [{ deletedAt: null }, { replies: { some: {} } }]
+  };
+
+  const [threads, total] = await Promise.all([
+    prisma.comment.findMany({
+      where: threadWhere,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        replies: {
+          orderBy: { createdAt: 'asc' },
+          take: repliesPerThread
+        },
+        _count: { select: { replies: true } }
+      }
+    }),
+    prisma.comment.count({ where: threadWhere })
+  ]);
+
+  return {
+    comments: threads.map(({ replies, ...thread }) => ({
+      ...presentComment(thread),
+      replies: replies.map(presentComment)
+    })),
+    total
+  };
+}
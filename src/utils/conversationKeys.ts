@@ -0,0 +1,165 @@
+import type { ConversationKey, Project } from "@prisma/client";
+import { prisma } from "../db";
+import { emitConversationKeyUpdate } from "./enhancedWebSocket";
+import { getProjectMembers } from "./projectPermissions";
+import { getProjectPresence } from "./projectPresence";
+
+// Conversation key epochs
+// The server never sees a project's conversation key, only the copies each member's client
+// wrapped for the others. Every upload of a new set of copies starts the next epoch. When a
+// member joins or leaves, the conversation is flagged for rotation and an online member's
+// client is asked to wrap a fresh key for the current members. Until it does, and afterwards
+// for anything still sent under an older epoch, encrypted messages are refused. Older
+// epochs stay on record so members can read what was sent before.
+// Each member's copy is wrapped separately for each of their registered devices, so revoking
+// a device also forces a rotation wherever that device held the current key.
+
+export type KeyRotationReason = 'member-added' | 'member-removed' | 'device-revoked';
+
+// Wrapped conversation key per member, per device
+export type WrappedKeyBlobs = Record<string, Record<string, string>>;
+
+export function deviceRef(userId: string, deviceId: string): string {
+  return `${userId}:${deviceId}`;
+}
+
+/**
+ * "userId:deviceId" of every device a set of wrapped keys was made for
+ */
+export function listRecipientDevices(blobs: WrappedKeyBlobs): string[] {
+  return Object.entries(blobs).flatMap(([userId, devices]) =>
+    Object.keys(devices).map(deviceId => deviceRef(userId, deviceId))
+  );
+}
+
+export interface KeyEpochCheck {
+  ok: boolean;
+  code?: 'KEY_ROTATION_REQUIRED' | 'STALE_KEY_EPOCH';
+  error?: string;
+  currentEpoch: number;
+}
+
+/**
+ * Whether a message encrypted under keyEpoch may be stored now
+ */
+export function checkKeyEpoch(conversation: Pick<ConversationKey, 'epoch' | 'rotationRequired'>, keyEpoch: unknown): KeyEpochCheck {
+  if (conversation.rotationRequired) {
+    return {
+      ok: false,
+      code: 'KEY_ROTATION_REQUIRED',
+      error: 'Project membership changed; rotate the conversation key before sending',
+      currentEpoch: conversation.epoch
+    };
+  }
+
+  if (keyEpoch !== conversation.epoch) {
+    return {
+      ok: false,
+      code: 'STALE_KEY_EPOCH',
+      error: `Messages must be encrypted under key epoch ${conversation.epoch}`,
+      currentEpoch: conversation.epoch
+    };
+  }
+
+  return { ok: true, currentEpoch: conversation.epoch };
+}
+
+/**
+ * Members whose clients can receive a wrapped key (they have a device that isn't revoked)
+ */
+export async function getKeyHolderIds(memberIds: string[]): Promise<string[]> {
+  return Array.from((await getActiveDevices(memberIds)).keys());
+}
+
+/**
+ * Devices that aren't revoked, by user
+ */
+export async function getActiveDevices(userIds: string[]): Promise<Map<string, string[]>> {
+  const keys = await prisma.userPublicKey.findMany({
+    where: { userId: { in: userIds }, revokedAt: null },
+    select: { userId: true, deviceId: true }
+  });
+
+  const devices = new Map<string, string[]>();
+  for (const key of keys) {
+    devices.set(key.userId, [...(devices.get(key.userId) ?? []), key.deviceId]);
+  }
+  return devices;
+}
+
+// An online (or else idle) member with a public key to perform the rotation
+async function chooseRotator(project: Pick<Project, 'id' | 'authorId' | 'authorName' | 'authorDepartment'>, excludeUserId: string | null) {
+  const [members, presence] = await Promise.all([
+    getProjectMembers(project),
+    getProjectPresence(project.id)
+  ]);
+
+  const memberIds = new Set(members.map(member => member.id));
+  const candidates = presence
+    .filter(user => user.userId !== excludeUserId && memberIds.has(user.userId))
+    .sort((a, b) => (a.status === 'online' ? 0 : 1) - (b.status === 'online' ? 0 : 1));
+
+  const keyHolders = new Set(await getKeyHolderIds(candidates.map(user => user.userId)));
+  return candidates.find(user => keyHolders.has(user.userId))?.userId ?? null;
+}
+
+/**
+ * Flag an encrypted conversation for rotation after a membership change. Never throws, so
+ * the membership change itself is not affected. Membership changes come through
+ * applyMembershipChange (projectMembership.ts), which also evicts members who left,
+ * whether or not the project's conversation is encrypted.
+ */
+export async function requireKeyRotation(projectId: string, change: { reason: KeyRotationReason; userId: string }) {
+  try {
+    const conversation = await prisma.conversationKey.findUnique({
+      where: { projectId },
+      include: { project: { select: { id: true, authorId: true, authorName: true, authorDepartment: true, collegeId: true } } }
+    });
+    if (!conversation || !conversation.isEncrypted) return;
+
+    await prisma.conversationKey.update({
+      where: { projectId },
+      data: {
+        rotationRequired: true,
+        rotationReason: change.reason,
+        rotationRequestedAt: new Date()
+      }
+    });
+
+    // A member who just joined or left can't rotate; one who revoked a device still can
+    const rotatorId = await chooseRotator(
+      conversation.project,
+      change.reason === 'device-revoked' ? null : change.userId
+    );
+
+    emitConversationKeyUpdate({
+      type: 'key-rotation-required',
+      projectId,
+      collegeId: conversation.project.collegeId,
+      epoch: conversation.epoch,
+      nextEpoch: conversation.epoch + 1,
+      reason: change.reason,
+      requestedFrom: rotatorId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error(`Failed to flag conversation key rotation for project ${projectId}:`, error);
+  }
+}
+
+/**
+ * Flag rotation in every conversation where a revoked device holds the current key.
+ * Resolves to the affected project ids.
+ */
+export async function requireKeyRotationForRevokedDevice(userId: string, deviceId: string): Promise<string[]> {
+  const conversations = await prisma.conversationKey.findMany({
+    where: { recipientDevices: { has: deviceRef(userId, deviceId) } },
+    select: { projectId: true }
+  });
+
+  for (const { projectId } of conversations) {
+    await requireKeyRotation(projectId, { reason: 'device-revoked', userId });
+  }
+
+  return conversations.map(conversation => conversation.projectId);
+}
@@ -1,11 +1,27 @@
 // E2EE Cryptographic Utilities
 // Uses @noble/curves and @noble/ciphers for secure, audited crypto
 
-import { x25519 } from '@noble/curves/ed25519';
-import { randomBytes } from '@noble/hashes/utils';
-import { gcm } from '@noble/ciphers/aes';
-import { hkdf } from '@noble/hashes/hkdf';
-import { sha256 } from '@noble/hashes/sha2';
+import { ed25519, x25519 } from '@noble/curves/ed25519.js';
+import { randomBytes } from '@noble/hashes/utils.js';
+import { gcm } from '@noble/ciphers/aes.js';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+
+// Fields of an encrypted message covered by its sender's signature
+export interface SignedMessageFields {
+  senderId: string;
+  deviceId: string;
+  projectId: string;
+  taskId?: string | null;
+  parentId?: string | null;
+  keyEpoch: number;
+  messageType: string;
+  timestamp: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+const SIGNATURE_CONTEXT = 'nexus-e2ee-signature-v1';
 
 // Key generation and management
 export class CryptoManager {
@@ -175,6 +191,59 @@ export class CryptoManager {
     }
   }
 
+  // Generate Ed25519 key pair for message signatures
+  static generateSigningKeyPair(): { privateKey: Uint8Array; publicKey: Uint8Array } {
+    const { secretKey, publicKey } = ed25519.keygen();
+    return { privateKey: secretKey, publicKey };
+  }
+
+  // Bytes a message signature covers, in a fixed order so sender and server agree
+  static messageSigningPayload(message: SignedMessageFields): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify([
+      SIGNATURE_CONTEXT,
+      message.senderId,
+      message.deviceId,
+      message.projectId,
+      message.taskId ?? null,
+      message.parentId ?? null,
+      message.keyEpoch,
+      message.messageType,
+      message.timestamp,
+      message.nonce,
+      message.ciphertext
+    ]));
+  }
+
+  // Sign an encrypted message with the sending device's Ed25519 private key
+  static signMessage(message: SignedMessageFields, signingPrivateKey: Uint8Array): string {
+    return this.keyToBase64(ed25519.sign(this.messageSigningPayload(message), signingPrivateKey));
+  }
+
+  // Check a base64 signature against the sending device's base64 Ed25519 public key
+  static verifyMessageSignature(message: SignedMessageFields, signature: string, signingPublicKey: string): boolean {
+    try {
+      const signatureBytes = this.keyFromBase64(signature);
+      const publicKeyBytes = this.keyFromBase64(signingPublicKey);
+      if (signatureBytes.length !== 64 || publicKeyBytes.length !== 32) {
+        return false;
+      }
+      return ed25519.verify(signatureBytes, this.messageSigningPayload(message), publicKeyBytes);
+    } catch {
+      return false; // Malformed key or signature
+    }
+  }
+
+  static isValidSigningPublicKey(keyBase64: string): boolean {
+    try {
+      const key = this.keyFromBase64(keyBase64);
+      if (key.length !== 32) return false;
+      ed25519.Point.fromBytes(key); // Must be a point on the curve
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   // Generate conversation ID from project ID (deterministic)
   static generateConversationId(projectId: string): string {
     const hash = sha256(new TextEncoder().encode(`conversation:${projectId}`));
@@ -5,6 +5,11 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { SocketUserData } from './enhancedWebSocket';
 import { prisma } from '../db';
 import { FeatureFlags, MessageValidator, CryptoError } from './crypto';
+import { getProjectMembers, getProjectRole, hasProjectPermission } from './projectPermissions';
+import { resolveThreadParent } from './comments';
+import { notifyMentionedUsers, resolveMentions } from './mentions';
+import { checkKeyEpoch } from './conversationKeys';
+import { SignatureStatus, verifySenderSignature } from './messageSignatures';
 
 // Enhanced message interfaces for E2EE
 export interface EncryptedMessage {
@@ -13,9 +18,13 @@ export interface EncryptedMessage {
   senderId: string;
   projectId: string;
   taskId?: string;
+  parentId?: string; // Reply to a comment thread
   messageType: 'text' | 'file' | 'system';
   timestamp: string;
-  signature?: string; // Optional message signature
+  keyEpoch: number; // Conversation key epoch the message was encrypted under
+  deviceId: string; // Sending device
+  signature?: string; // Ed25519 signature by the sending device; required once it has a signing key
+  signatureStatus?: SignatureStatus; // Set by the server
 }
 
 export interface PlaintextMessage {
@@ -23,6 +32,7 @@ export interface PlaintextMessage {
   senderId: string;
   projectId: string;
   taskId?: string;
+  parentId?: string; // Reply to a comment thread
   messageType: 'text' | 'file' | 'system';
   timestamp: string;
 }
@@ -37,6 +47,8 @@ export interface MessageDeliveryReceipt {
 export interface TypingIndicator {
   userId: string;
   projectId: string;
+  taskId?: string; // Typing in a task's comments
+  parentId?: string; // Typing a reply in a thread
   isTyping: boolean;
   timestamp: string;
 }
@@ -51,10 +63,15 @@ export function setupE2EEWebSocketHandlers(io: SocketIOServer) {
     socket.on('send-encrypted-message', async (data: EncryptedMessage, callback) => {
       try {
         // Validate message structure
-        if (!MessageValidator.validateEncryptedMessage(data)) {
+        if (!MessageValidator.validateEncryptedMessage(data) || typeof data.deviceId !== 'string') {
           return callback?.({ success: false, error: 'Invalid message format' });
         }
 
+        // Messages can only be sent as the authenticated user
+        if (data.senderId !== userData.userId) {
+          return callback?.({ success: false, error: 'Sender does not match the authenticated user', code: 'FORGED_SENDER' });
+        }
+
         // Check if E2EE is enabled for this project
         const isE2EEEnabled = await FeatureFlags.isE2EEEnabled();
         if (!isE2EEEnabled) {
@@ -76,12 +93,43 @@ export function setupE2EEWebSocketHandlers(io: SocketIOServer) {
           return callback?.({ success: false, error: 'Conversation not encrypted' });
         }
 
+        // Refuse messages under a key removed members still hold
+        const epochCheck = checkKeyEpoch(conversationKey, data.keyEpoch);
+        if (!epochCheck.ok) {
+          return callback?.({
+            success: false,
+            error: epochCheck.error,
+            code: epochCheck.code,
+            currentEpoch: epochCheck.currentEpoch
+          });
+        }
+
+        // The signature covers taskId/parentId, so they must already be the ones stored:
+        // a reply names the top-level comment of its thread and the thread's task
+        const thread = await resolveMessageThread(data);
+        if (thread.parentId !== (data.parentId ?? null) || thread.taskId !== (data.taskId ?? null)) {
+          return callback?.({
+            success: false,
+            error: 'Replies must name the top-level comment of their thread and its task',
+            code: 'THREAD_MISMATCH',
+            parentId: thread.parentId,
+            taskId: thread.taskId
+          });
+        }
+
+        // Only messages signed by the sending device are stored
+        const signatureCheck = await verifySenderSignature(data, data.signature);
+        if (!signatureCheck.ok) {
+          return callback?.({ success: false, error: signatureCheck.error, code: signatureCheck.code });
+        }
+
         // Store encrypted message in database
-        const messageId = await storeEncryptedMessage(data);
+        const message = { ...data, signatureStatus: signatureCheck.status };
+        const messageId = await storeEncryptedMessage(message, thread);
 
         // Broadcast to project room
         socket.to(`project:${data.projectId}`).emit('encrypted-message', {
-          ...data,
+          ...message,
           messageId,
           deliveredAt: new Date().toISOString()
         });
@@ -90,6 +138,7 @@ export function setupE2EEWebSocketHandlers(io: SocketIOServer) {
         callback?.({ 
           success: true, 
           messageId,
+          signatureStatus: signatureCheck.status,
           deliveredAt: new Date().toISOString()
         });
 
@@ -119,6 +168,11 @@ export function setupE2EEWebSocketHandlers(io: SocketIOServer) {
           });
         }
 
+        // Messages can only be sent as the authenticated user
+        if (data.senderId !== userData.userId) {
+          return callback?.({ success: false, error: 'Sender does not match the authenticated user', code: 'FORGED_SENDER' });
+        }
+
         // Verify project access
         const hasAccess = await verifyProjectAccess(userData.userId, data.projectId);
         if (!hasAccess) {
@@ -149,44 +203,7 @@ export function setupE2EEWebSocketHandlers(io: SocketIOServer) {
       }
     });
 
-    // Handle typing indicators
-    socket.on('typing-start', async (data: { projectId: string; taskId?: string }) => {
-      try {
-        const hasAccess = await verifyProjectAccess(userData.userId, data.projectId);
-        if (!hasAccess) return;
-
-        const typingData: TypingIndicator = {
-          userId: userData.userId,
-          projectId: data.projectId,
-          isTyping: true,
-          timestamp: new Date().toISOString()
-        };
-
-        socket.to(`project:${data.projectId}`).emit('user-typing', typingData);
-        
-      } catch (error) {
-        console.error('Error handling typing start:', error);
-      }
-    });
-
-    socket.on('typing-stop', async (data: { projectId: string; taskId?: string }) => {
-      try {
-        const hasAccess = await verifyProjectAccess(userData.userId, data.projectId);
-        if (!hasAccess) return;
-
-        const typingData: TypingIndicator = {
-          userId: userData.userId,
-          projectId: data.projectId,
-          isTyping: false,
-          timestamp: new Date().toISOString()
-        };
-
-        socket.to(`project:${data.projectId}`).emit('user-typing', typingData);
-        
-      } catch (error) {
-        console.error('Error handling typing stop:', error);
-      }
-    });
+    // Typing indicators are handled with presence (see projectPresence.ts)
 
     // Handle message delivery receipts
     socket.on('message-delivered', async (data: { messageId: string; projectId: string }) => {
@@ -237,16 +254,16 @@ export function setupE2EEWebSocketHandlers(io: SocketIOServer) {
           return callback?.({ success: false, error: 'Access denied' });
         }
 
-        // Check if user is project author (only author can initialize encryption)
+        // Check if user supervises the project (only supervisors can initialize encryption)
         const project = await prisma.project.findUnique({
           where: { id: data.projectId },
-          select: { authorId: true }
+          select: { id: true, authorId: true }
         });
 
-        if (!project || project.authorId !== userData.userId) {
+        if (!project || !hasProjectPermission(await getProjectRole(project, userData.userId), 'edit')) {
           return callback?.({ 
             success: false, 
-            error: 'Only project author can initialize encryption' 
+            error: 'Only project supervisors can initialize encryption' 
           });
         }
 
@@ -302,23 +319,13 @@ async function verifyProjectAccess(userId: string, projectId: string): Promise<b
   try {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
-      include: {
-        applications: {
-          where: { 
-            studentId: userId,
-            status: 'ACCEPTED'
-          }
-        }
-      }
+      select: { id: true, authorId: true }
     });
 
     if (!project) return false;
 
-    // Check if user is project author or accepted member
-    const isAuthor = project.authorId === userId;
-    const isAcceptedMember = project.applications.length > 0;
-
-    return isAuthor || isAcceptedMember;
+    // Check if user is a project owner, collaborator or accepted member
+    return hasProjectPermission(await getProjectRole(project, userId), 'view');
     
   } catch (error) {
     console.error('Error verifying project access:', error);
@@ -326,19 +333,35 @@ async function verifyProjectAccess(userId: string, projectId: string): Promise<b
   }
 }
 
-// Store encrypted message in database
-async function storeEncryptedMessage(message: EncryptedMessage): Promise<string> {
+// Replies are stored in their parent's thread
+async function resolveMessageThread(message: EncryptedMessage | PlaintextMessage) {
+  if (!message.parentId) {
+    return { parentId: null, taskId: message.taskId || null };
+  }
+  return resolveThreadParent(message.projectId, message.parentId);
+}
+
+// Store encrypted message in database, with the fields its signature covers as sent
+async function storeEncryptedMessage(
+  message: EncryptedMessage,
+  thread: { parentId: string | null; taskId: string | null }
+): Promise<string> {
   const comment = await (prisma.comment as any).create({
     data: {
       projectId: message.projectId,
-      taskId: message.taskId || null,
+      taskId: thread.taskId,
+      parentId: thread.parentId,
       authorId: message.senderId,
       authorName: 'Encrypted User', // Don't store real name for E2EE
       body: '[Encrypted Message]', // Placeholder for backward compatibility
       ciphertext: message.ciphertext,
       nonce: message.nonce,
       isEncrypted: true,
-      messageSignature: message.signature
+      keyEpoch: message.keyEpoch,
+      messageSignature: message.signature,
+      signingDeviceId: message.deviceId,
+      signatureStatus: message.signatureStatus,
+      signedTimestamp: message.timestamp
     }
   });
 
@@ -349,18 +372,24 @@ async function storeEncryptedMessage(message: EncryptedMessage): Promise<string>
 async function storePlaintextMessage(message: PlaintextMessage): Promise<string> {
   // Get user name from auth system or cache
   const userName = await getUserName(message.senderId);
+  const thread = await resolveMessageThread(message);
+  const project = await prisma.project.findUniqueOrThrow({ where: { id: message.projectId } });
   
-  const comment = await (prisma.comment as any).create({
+  const comment = await prisma.comment.create({
     data: {
       projectId: message.projectId,
-      taskId: message.taskId || null,
+      taskId: thread.taskId,
+      parentId: thread.parentId,
       authorId: message.senderId,
       authorName: userName,
       body: message.content,
-      isEncrypted: false
+      isEncrypted: false,
+      mentionedUserIds: resolveMentions(message.content, await getProjectMembers(project))
     }
   });
 
+  await notifyMentionedUsers(comment, project, { id: message.senderId, name: userName });
+
   return comment.id;
 }
 
@@ -388,8 +417,8 @@ export async function getMessageHistory(
       throw new Error('Access denied');
     }
 
-    // Get messages from database
-    const whereClause: any = { projectId };
+    // Get messages from database (deleted comments are left out)
+    const whereClause: any = { projectId, deletedAt: null };
     if (before) {
       whereClause.createdAt = { lt: new Date(before) };
     }
@@ -407,7 +436,12 @@ export async function getMessageHistory(
         nonce: true,
         isEncrypted: true,
         messageSignature: true,
+        signingDeviceId: true,
+        signatureStatus: true,
+        signedTimestamp: true,
+        keyEpoch: true,
         taskId: true,
+        parentId: true,
         createdAt: true
       }
     });
@@ -424,9 +458,13 @@ export async function getMessageHistory(
           senderId: comment.authorId,
           projectId,
           taskId: comment.taskId || undefined,
+          parentId: comment.parentId || undefined,
           messageType: 'text' as const,
-          timestamp: comment.createdAt.toISOString(),
-          signature: comment.messageSignature || undefined
+          timestamp: comment.signedTimestamp ?? comment.createdAt.toISOString(),
+          keyEpoch: comment.keyEpoch ?? 1,
+          deviceId: comment.signingDeviceId || undefined,
+          signature: comment.messageSignature || undefined,
+          signatureStatus: comment.signatureStatus || 'UNSIGNED'
         } as EncryptedMessage;
       } else {
         return {
@@ -434,6 +472,7 @@ export async function getMessageHistory(
           senderId: comment.authorId,
           projectId,
           taskId: comment.taskId || undefined,
+          parentId: comment.parentId || undefined,
           messageType: 'text' as const,
           timestamp: comment.createdAt.toISOString()
         } as PlaintextMessage;
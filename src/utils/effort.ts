@@ -0,0 +1,139 @@
+import type { EffortStatus, TaskEffortLog } from "@prisma/client";
+import { prisma } from "../db";
+
+// Effort tracking
+// Members log minutes against tasks; faculty review each entry. Only reviewed time counts
+// as credit: APPROVED entries keep the logged minutes, ADJUSTED entries use the minutes the
+// reviewer set and REJECTED entries count as zero.
+
+export const MAX_EFFORT_MINUTES_PER_ENTRY = 24 * 60;
+
+export type EffortReviewAction = 'APPROVE' | 'ADJUST' | 'REJECT';
+
+type EffortEntry = Pick<TaskEffortLog, 'minutes' | 'status' | 'approvedMinutes'>;
+
+export interface EffortTotals {
+  entries: number;
+  loggedMinutes: number;
+  approvedMinutes: number;
+  pendingMinutes: number;
+  creditHours: number;
+}
+
+/**
+ * Minutes an entry contributes towards credit
+ */
+export function creditedMinutes(entry: EffortEntry): number {
+  if (entry.status === 'PENDING' || entry.status === 'REJECTED') return 0;
+  return entry.approvedMinutes ?? entry.minutes;
+}
+
+/**
+ * Status and credited minutes after a review action
+ */
+export function applyEffortReview(
+  entry: Pick<TaskEffortLog, 'minutes'>,
+  action: EffortReviewAction,
+  adjustedMinutes?: number
+): { status: EffortStatus; approvedMinutes: number } {
+  switch (action) {
+    case 'APPROVE':
+      return { status: 'APPROVED', approvedMinutes: entry.minutes };
+    case 'ADJUST':
+      return { status: 'ADJUSTED', approvedMinutes: adjustedMinutes ?? entry.minutes };
+    case 'REJECT':
+      return { status: 'REJECTED', approvedMinutes: 0 };
+  }
+}
+
+/**
+ * Sum a set of entries
+ */
+export function totalEffort(entries: EffortEntry[]): EffortTotals {
+  const loggedMinutes = entries.reduce((sum, entry) => sum + entry.minutes, 0);
+  const approvedMinutes = entries.reduce((sum, entry) => sum + creditedMinutes(entry), 0);
+  const pendingMinutes = entries
+    .filter(entry => entry.status === 'PENDING')
+    .reduce((sum, entry) => sum + entry.minutes, 0);
+
+  return {
+    entries: entries.length,
+    loggedMinutes,
+    approvedMinutes,
+    pendingMinutes,
+    creditHours: Math.round((approvedMinutes / 60) * 100) / 100
+  };
+}
+
+/**
+ * Per-member and per-task aggregation for a project's effort report
+ */
+export function summarizeEffort(
+  entries: (EffortEntry & Pick<TaskEffortLog, 'userId' | 'userName' | 'taskId'> & { task?: { title: string } })[]
+) {
+  const byMember = new Map<string, typeof entries>();
+  const byTask = new Map<string, typeof entries>();
+
+  for (const entry of entries) {
+    byMember.set(entry.userId, [...(byMember.get(entry.userId) || []), entry]);
+    byTask.set(entry.taskId, [...(byTask.get(entry.taskId) || []), entry]);
+  }
+
+  return {
+    totals: totalEffort(entries),
+    byMember: Array.from(byMember.entries()).map(([userId, memberEntries]) => ({
+      userId,
+      userName: memberEntries[0].userName,
+      ...totalEffort(memberEntries)
+    })),
+    byTask: Array.from(byTask.entries()).map(([taskId, taskEntries]) => ({
+      taskId,
+      title: taskEntries[0].task?.title,
+      ...totalEffort(taskEntries)
+    }))
+  };
+}
+
+/**
+ * Effort totals per project, for admin listings and exports
+ */
+export async function getProjectEffortTotals(projectIds: string[]): Promise<Map<string, EffortTotals>> {
+  const entries = projectIds.length > 0
+    ? await prisma.taskEffortLog.findMany({
+        where: { projectId: { in: projectIds } },
+        select: { projectId: true, minutes: true, status: true, approvedMinutes: true }
+      })
+    : [];
+
+  const byProject = new Map<string, EffortEntry[]>();
+  for (const entry of entries) {
+    byProject.set(entry.projectId, [...(byProject.get(entry.projectId) || []), entry]);
+  }
+
+  return new Map(projectIds.map(id => [id, totalEffort(byProject.get(id) || [])]));
+}
+
+/**
+ * Credited effort per project member, for the department effort export
+ */
+export async function getMemberEffortTotals(projectIds: string[]) {
+  const entries = projectIds.length > 0
+    ? await prisma.taskEffortLog.findMany({
+        where: { projectId: { in: projectIds } },
+        select: { projectId: true, userId: true, userName: true, minutes: true, status: true, approvedMinutes: true }
+      })
+    : [];
+
+  const byMember = new Map<string, typeof entries>();
+  for (const entry of entries) {
+    const key = `${entry.projectId}:${entry.userId}`;
+    byMember.set(key, [...(byMember.get(key) || []), entry]);
+  }
+
+  return Array.from(byMember.values()).map(memberEntries => ({
+    projectId: memberEntries[0].projectId,
+    userId: memberEntries[0].userId,
+    userName: memberEntries[0].userName,
+    ...totalEffort(memberEntries)
+  }));
+}
@@ -2,17 +2,24 @@ import { Server as SocketIOServer } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import { verifyAccessToken } from './jwt';
 import { getUserScopeFromJWT } from '../clients/auth';
-import { getCache } from './cache';
+import { canUserAccessProject } from './projectPermissions';
+import { prisma } from '../db';
+import { getPresenceStore, INSTANCE_ID, setupSocketCluster } from './socketCluster';
+import { getEventLog, publishRoomEvent, replayRooms } from './eventLog';
+import { setupE2EEWebSocketHandlers } from './e2eeWebSocket';
+import { joinProjectPresence, leaveProjectPresence, markActive, registerPresenceHandlers, startPresenceSweep } from './projectPresence';
+import { registerBackgroundJob } from '../middlewares/errorHandler';
 
 // Enhanced interfaces with better type safety
 export interface ProjectUpdateEvent {
-  type: 'new-project' | 'project-updated' | 'project-deleted' | 'task-created' | 'task-updated' | 'comment-added' | 'file-uploaded' | 'file-updated' | 'file-deleted';
+  type: 'new-project' | 'project-updated' | 'project-deleted' | 'task-created' | 'task-updated' | 'comment-added' | 'comment-edited' | 'comment-deleted' | 'file-uploaded' | 'file-updated' | 'file-deleted' | 'milestone-created' | 'milestone-updated' | 'milestone-deleted';
   projectId: string;
   collegeId: string;
   departments?: string[];
   visibleToAllDepts?: boolean;
   project?: any;
   task?: any;
+  milestone?: any;
   comment?: any;
   attachment?: any;
   createdBy?: { id: string; name: string };
@@ -22,13 +29,42 @@ export interface ProjectUpdateEvent {
 }
 
 export interface ApplicationUpdateEvent {
-  type: 'new-application' | 'application-status-changed' | 'application-withdrawn';
+  type: 'new-application' | 'application-status-changed' | 'application-withdrawn' | 'application-promoted';
   application: any;
   projectId: string;
   collegeId: string;
   timestamp: string;
 }
 
+export interface ProposalUpdateEvent {
+  type: 'sponsor-invited' | 'sponsor-accepted' | 'sponsor-declined';
+  projectId: string;
+  collegeId: string;
+  proposal: any;
+  sponsorRequest?: any;
+  timestamp: string;
+}
+
+export interface InvitationUpdateEvent {
+  type: 'invitation-received' | 'invitation-accepted' | 'invitation-declined' | 'invitation-cancelled';
+  projectId: string;
+  collegeId: string;
+  invitation: any;
+  timestamp: string;
+}
+
+export interface ConversationKeyEvent {
+  type: 'key-rotation-required' | 'key-rotated';
+  projectId: string;
+  collegeId: string;
+  epoch: number;
+  nextEpoch?: number;
+  reason?: string;
+  requestedFrom?: string | null; // Member whose client is asked to rotate
+  rotatedBy?: { id: string; name: string };
+  timestamp: string;
+}
+
 export interface SocketUserData {
   userId: string;
   collegeId?: string;
@@ -38,17 +74,16 @@ export interface SocketUserData {
   lastActivity: Date;
 }
 
-// Connection management
-const activeConnections = new Map<string, Set<string>>(); // userId -> Set of socketIds
-const socketUserMap = new Map<string, string>(); // socketId -> userId
-const cache = getCache();
-
 let io: SocketIOServer | null = null;
 
-export function initializeWebSocket(server: HttpServer): SocketIOServer {
+export async function initializeWebSocket(server: HttpServer): Promise<SocketIOServer> {
   console.log('🚀 Initializing WebSocket server on port 4003...');
-  
+
+  // Redis adapter when REDIS_URL is reachable, in-memory adapter otherwise
+  const adapter = await setupSocketCluster();
+
   io = new SocketIOServer(server, {
+    ...(adapter ? { adapter } : {}),
     cors: {
       origin: ["http://localhost:3000", "http://127.0.0.1:3000", "https://nexus-frontend-pi-ten.vercel.app"],
       methods: ["GET", "POST"],
@@ -118,11 +153,8 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
     const { userId, collegeId, department, roles } = userData;
 
     // Track connection
-    if (!activeConnections.has(userId)) {
-      activeConnections.set(userId, new Set());
-    }
-    activeConnections.get(userId)!.add(socket.id);
-    socketUserMap.set(socket.id, userId);
+    getPresenceStore().addSocket(userId, socket.id)
+      .catch(error => console.error(`Failed to record WebSocket presence for ${userId}:`, error));
 
     console.log(`✅ User ${userId} connected to WebSocket`, {
       socketId: socket.id,
@@ -130,21 +162,44 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
       collegeId,
       department,
       roles,
-      totalConnections: activeConnections.get(userId)!.size
+      instance: INSTANCE_ID
     });
 
     // Auto-join rooms based on user role and scope
     setupUserRooms(socket, userData);
 
+    // Reconnecting clients send the last eventId they saw per room
+    const handshakeEventIds = socket.handshake.auth?.lastEventIds;
+    if (handshakeEventIds && typeof handshakeEventIds === 'object') {
+      replayMissedEvents(socket, handshakeEventIds)
+        .then(result => socket.emit('resume-complete', { ...result, timestamp: new Date().toISOString() }))
+        .catch(error => console.error(`Failed to replay events for ${userId}:`, error));
+    }
+
+    // Tell the client how many notifications arrived while it was away
+    prisma.notification.count({ where: { userId, readAt: null } })
+      .then(count => socket.emit('notifications-unread', { count, timestamp: new Date().toISOString() }))
+      .catch(error => console.error(`Failed to count unread notifications for ${userId}:`, error));
+
     // Handle room management events
-    socket.on('join-project', async (data: { projectId: string }) => {
+    socket.on('join-project', async (data: { projectId: string; lastEventId?: number }) => {
       try {
-        const { projectId } = data;
+        const { projectId, lastEventId } = data;
         
-        // Validate project access (you might want to check database)
+        // Only project owners, collaborators and accepted members may join
         if (await canUserAccessProject(userId, projectId)) {
-          socket.join(`project:${projectId}`);
-          socket.emit('project-room-joined', { projectId, userId, timestamp: new Date().toISOString() });
+          const room = `project:${projectId}`;
+          socket.join(room);
+
+          // Rejoining after a disconnect: send what was missed first
+          if (typeof lastEventId === 'number') {
+            await replayMissedEvents(socket, { [room]: lastEventId });
+          }
+
+          await joinProjectPresence(socket, projectId);
+
+          const latestEventId = await getEventLog().latest(room);
+          socket.emit('project-room-joined', { projectId, userId, lastEventId: latestEventId, timestamp: new Date().toISOString() });
           
           console.log(`✅ User ${userId} joined project room: project:${projectId}`);
         } else {
@@ -156,9 +211,26 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
       }
     });
 
+    // Resume after a reconnect: { lastEventIds: { [room]: eventId } }
+    socket.on('resume', async (data: { lastEventIds?: Record<string, number> }, callback?: (result: any) => void) => {
+      try {
+        const result = await replayMissedEvents(socket, data?.lastEventIds || {});
+        if (typeof callback === 'function') {
+          callback({ success: true, ...result });
+        }
+      } catch (error) {
+        console.error(`Failed to resume WebSocket session for ${userId}:`, error);
+        if (typeof callback === 'function') {
+          callback({ success: false, error: 'Failed to replay missed events' });
+        }
+      }
+    });
+
     socket.on('leave-project', (data: { projectId: string }) => {
       const { projectId } = data;
       socket.leave(`project:${projectId}`);
+      leaveProjectPresence(socket, projectId)
+        .catch(error => console.error(`Failed to clear presence in project ${projectId}:`, error));
       socket.emit('project-room-left', { projectId, userId, timestamp: new Date().toISOString() });
       
       console.log(`🚪 User ${userId} left project room: project:${projectId}`);
@@ -166,17 +238,20 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
 
     // Handle activity tracking
     socket.on('activity', () => {
-      userData.lastActivity = new Date();
+      markActive(socket).catch(error => console.error(`Failed to update presence for ${userId}:`, error));
     });
 
     // Handle heartbeat/ping
     socket.on('ping', (callback) => {
-      userData.lastActivity = new Date();
+      markActive(socket).catch(error => console.error(`Failed to update presence for ${userId}:`, error));
       if (typeof callback === 'function') {
         callback('pong');
       }
     });
 
+    // Project presence and typing indicators
+    registerPresenceHandlers(socket);
+
     // Enhanced disconnect handling
     socket.on('disconnect', (reason) => {
       console.log(`User ${userId} disconnected from WebSocket`, {
@@ -187,14 +262,8 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
       });
 
       // Clean up connection tracking
-      const userSockets = activeConnections.get(userId);
-      if (userSockets) {
-        userSockets.delete(socket.id);
-        if (userSockets.size === 0) {
-          activeConnections.delete(userId);
-        }
-      }
-      socketUserMap.delete(socket.id);
+      getPresenceStore().removeSocket(userId, socket.id)
+        .catch(error => console.error(`Failed to clear WebSocket presence for ${userId}:`, error));
     });
 
     // Handle connection errors
@@ -207,6 +276,12 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
     });
   });
 
+  // Encrypted messaging
+  setupE2EEWebSocketHandlers(io);
+
+  // Refresh project presence and announce users going idle or offline
+  registerBackgroundJob(startPresenceSweep(io));
+
   // Periodic cleanup of inactive connections
   setInterval(() => {
     cleanupInactiveConnections();
@@ -215,47 +290,90 @@ export function initializeWebSocket(server: HttpServer): SocketIOServer {
   return io;
 }
 
-// Setup user rooms based on role and scope
-function setupUserRooms(socket: any, userData: SocketUserData) {
+// Rooms a user receives updates in, by role and scope (project rooms are joined separately)
+export function getUserRooms(userData: Pick<SocketUserData, 'userId' | 'collegeId' | 'department' | 'roles'>): string[] {
   const { userId, collegeId, department, roles } = userData;
+  const rooms: string[] = [];
 
-  // Join college-specific room for project updates
+  // College-specific room for project updates
   if (collegeId) {
-    socket.join(`college:${collegeId}`);
-    console.log(`User ${userId} joined college room: college:${collegeId}`);
+    rooms.push(`college:${collegeId}`);
   }
 
-  // Join department-specific room if needed
+  // Department-specific room if needed
   if (collegeId && department) {
-    socket.join(`department:${collegeId}:${department}`);
-    console.log(`User ${userId} joined department room: department:${collegeId}:${department}`);
+    rooms.push(`department:${collegeId}:${department}`);
   }
 
   // Role-specific rooms
   if (roles.includes('FACULTY')) {
-    socket.join(`faculty:${userId}:notifications`);
-    console.log(`Faculty ${userId} joined notifications room`);
+    rooms.push(`faculty:${userId}:notifications`);
   }
 
   if (roles.includes('STUDENT')) {
-    socket.join(`student:${userId}:notifications`);
-    console.log(`Student ${userId} joined notifications room`);
+    rooms.push(`student:${userId}:notifications`);
   }
 
   // Admin rooms
   if (roles.some(role => ['HEAD_ADMIN', 'DEPT_ADMIN', 'PLACEMENTS_ADMIN', 'SUPER_ADMIN'].includes(role))) {
-    socket.join(`admin:${userId}:notifications`);
-    console.log(`Admin ${userId} joined admin notifications room`);
+    rooms.push(`admin:${userId}:notifications`);
   }
+
+  return rooms;
 }
 
-// Enhanced project update emission with better targeting
-export function emitProjectUpdate(event: ProjectUpdateEvent): void {
-  if (!io) {
-    console.error('❌ WebSocket not initialized, cannot emit project update');
-    return;
+// Setup user rooms based on role and scope
+function setupUserRooms(socket: any, userData: SocketUserData) {
+  for (const room of getUserRooms(userData)) {
+    socket.join(room);
+    console.log(`User ${userData.userId} joined room: ${room}`);
+  }
+}
+
+// Log an event under the room's next eventId, then emit it carrying that id. Events are
+// logged and published for SSE streams even when this process has no Socket.IO server.
+function emitToRoom(room: string, eventName: string, payload: any): void {
+  getEventLog().append(room, eventName, payload)
+    .then(eventId => {
+      io?.to(room).emit(eventName, { ...payload, eventId, room });
+
+      // Other transports (SSE) on every instance
+      publishRoomEvent({ room, id: eventId, event: eventName, data: payload })
+        .catch(error => console.error(`Failed to publish ${eventName} event for ${room}:`, error));
+    })
+    .catch(error => {
+      // Still deliver live; only replay is lost
+      console.error(`Failed to log ${eventName} event for ${room}:`, error);
+      io?.to(room).emit(eventName, payload);
+    });
+}
+
+// Re-send logged events after each room's lastEventId; rooms the socket is not in are ignored
+async function replayMissedEvents(socket: any, lastEventIds: Record<string, unknown>) {
+  const lastEventIdsNow: Record<string, number> = {};
+  const resyncRequired: string[] = [];
+  let replayed = 0;
+
+  for (const { room, lastEventId, events, resyncRequired: gap, latestId } of await replayRooms(lastEventIds, socket.rooms)) {
+    lastEventIdsNow[room] = latestId;
+
+    if (gap) {
+      resyncRequired.push(room);
+      socket.emit('resync-required', { room, lastEventId, latestEventId: latestId, timestamp: new Date().toISOString() });
+      continue;
+    }
+
+    for (const entry of events) {
+      socket.emit(entry.event, { ...entry.data, eventId: entry.id, room, replayed: true });
+    }
+    replayed += events.length;
   }
 
+  return { replayed, resyncRequired, lastEventIds: lastEventIdsNow };
+}
+
+// Enhanced project update emission with better targeting
+export function emitProjectUpdate(event: ProjectUpdateEvent): void {
   const { projectId, collegeId, departments, visibleToAllDepts } = event;
   
   // Add timestamp
@@ -265,27 +383,25 @@ export function emitProjectUpdate(event: ProjectUpdateEvent): void {
     type: event.type,
     projectId,
     collegeId,
-    connectedClients: io.engine.clientsCount
+    connectedClients: io?.engine.clientsCount ?? 0
   });
 
   // Emit to project-specific room (for active collaborators)
-  if (io) {
-    const projectRoom = `project:${projectId}`;
-    io.to(projectRoom).emit('project-update', event);
-    console.log(`📡 Emitted to project room: ${projectRoom}`);
-  }
+  const projectRoom = `project:${projectId}`;
+  emitToRoom(projectRoom, 'project-update', event);
+  console.log(`📡 Emitted to project room: ${projectRoom}`);
 
   // Emit to college room
-  if (collegeId && io) {
+  if (collegeId) {
     const collegeRoom = `college:${collegeId}`;
-    io.to(collegeRoom).emit('project-update', event);
+    emitToRoom(collegeRoom, 'project-update', event);
     console.log(`📡 Emitted to college room: ${collegeRoom}`);
   }
 
   // Emit to specific departments if not visible to all
-  if (!visibleToAllDepts && departments && departments.length > 0 && io) {
+  if (!visibleToAllDepts && departments && departments.length > 0) {
     departments.forEach(dept => {
-      io!.to(`department:${collegeId}:${dept}`).emit('project-update', event);
+      emitToRoom(`department:${collegeId}:${dept}`, 'project-update', event);
     });
   }
 
@@ -301,15 +417,11 @@ export function emitProjectUpdate(event: ProjectUpdateEvent): void {
 
 // Enhanced application update emission
 export function emitApplicationUpdate(facultyUserId: string, event: ApplicationUpdateEvent): void {
-  if (!io) return;
-
   // Add timestamp
   event.timestamp = new Date().toISOString();
 
   // Emit to faculty notifications room
-  if (io) {
-    io.to(`faculty:${facultyUserId}:notifications`).emit('application-update', event);
-  }
+  emitToRoom(`faculty:${facultyUserId}:notifications`, 'application-update', event);
   
   console.log(`📧 Emitted application update to faculty ${facultyUserId}:`, {
     type: event.type,
@@ -318,22 +430,71 @@ export function emitApplicationUpdate(facultyUserId: string, event: ApplicationU
   });
 }
 
+// Student proposal / sponsorship emission (targets a single faculty or student)
+export function emitProposalUpdate(userId: string, role: 'faculty' | 'student', event: ProposalUpdateEvent): void {
+  // Add timestamp
+  event.timestamp = new Date().toISOString();
+
+  emitToRoom(`${role}:${userId}:notifications`, 'proposal-update', event);
+
+  console.log(`📨 Emitted proposal update to ${role} ${userId}:`, {
+    type: event.type,
+    projectId: event.projectId,
+    timestamp: event.timestamp
+  });
+}
+
+// Faculty-to-student project invitation emission (targets a single faculty or student)
+export function emitInvitationUpdate(userId: string, role: 'faculty' | 'student', event: InvitationUpdateEvent): void {
+  // Add timestamp
+  event.timestamp = new Date().toISOString();
+
+  emitToRoom(`${role}:${userId}:notifications`, 'invitation-update', event);
+
+  console.log(`📨 Emitted invitation update to ${role} ${userId}:`, {
+    type: event.type,
+    projectId: event.projectId,
+    timestamp: event.timestamp
+  });
+}
+
+// Conversation key epoch changes go to the project room only
+export function emitConversationKeyUpdate(event: ConversationKeyEvent): void {
+  event.timestamp = new Date().toISOString();
+  emitToRoom(`project:${event.projectId}`, 'conversation-key-update', event);
+
+  console.log(`🔑 Emitted conversation key update for project ${event.projectId}:`, {
+    type: event.type,
+    epoch: event.epoch,
+    requestedFrom: event.requestedFrom
+  });
+}
+
+// Take every socket of a user out of a project room, on any instance, and tell the user's
+// other transports (SSE streams) to drop the room too
+export function removeUserFromProjectRoom(userId: string, projectId: string): void {
+  const notificationRooms = [`student:${userId}:notifications`, `faculty:${userId}:notifications`, `admin:${userId}:notifications`];
+
+  io?.in(notificationRooms).socketsLeave(`project:${projectId}`);
+
+  for (const room of notificationRooms) {
+    emitToRoom(room, 'project-access-revoked', { projectId, timestamp: new Date().toISOString() });
+  }
+}
+
 // Enhanced notification system
 export function emitNotification(userId: string, notification: any): void {
-  if (!io) return;
-
+  // Stored notifications keep their inbox id
   const enhancedNotification = {
     ...notification,
     timestamp: new Date().toISOString(),
-    id: `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    id: notification.id ?? `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   };
 
   // Try multiple room patterns to ensure delivery
-  if (io) {
-    io.to(`student:${userId}:notifications`).emit('notification', enhancedNotification);
-    io.to(`faculty:${userId}:notifications`).emit('notification', enhancedNotification);
-    io.to(`admin:${userId}:notifications`).emit('notification', enhancedNotification);
-  }
+  emitToRoom(`student:${userId}:notifications`, 'notification', enhancedNotification);
+  emitToRoom(`faculty:${userId}:notifications`, 'notification', enhancedNotification);
+  emitToRoom(`admin:${userId}:notifications`, 'notification', enhancedNotification);
 
   console.log(`🔔 Emitted notification to user ${userId}:`, {
     type: notification.type,
@@ -342,6 +503,16 @@ export function emitNotification(userId: string, notification: any): void {
   });
 }
 
+// Sync the unread badge across a user's sessions after notifications are read
+export function emitUnreadNotificationCount(userId: string, count: number): void {
+  if (!io) return;
+
+  const event = { count, timestamp: new Date().toISOString() };
+  io.to(`student:${userId}:notifications`).emit('notifications-unread', event);
+  io.to(`faculty:${userId}:notifications`).emit('notifications-unread', event);
+  io.to(`admin:${userId}:notifications`).emit('notifications-unread', event);
+}
+
 // Broadcast system message to all connected users
 export function broadcastSystemMessage(message: string, type: 'info' | 'warning' | 'error' = 'info'): void {
   if (!io) return;
@@ -359,30 +530,41 @@ export function broadcastSystemMessage(message: string, type: 'info' | 'warning'
   console.log(`📢 Broadcasted system message: ${message}`);
 }
 
-// Get connection statistics
-export function getConnectionStats(): {
+// Get connection statistics (cluster-wide when the Redis adapter is in use)
+export async function getConnectionStats(): Promise<{
+  mode: 'redis' | 'single-instance';
+  instanceId: string;
+  instances: number;
   totalConnections: number;
   uniqueUsers: number;
   roomCounts: { [room: string]: number };
-} {
+}> {
+  const presence = getPresenceStore();
+
   if (!io) {
-    return { totalConnections: 0, uniqueUsers: 0, roomCounts: {} };
+    return { mode: presence.mode, instanceId: INSTANCE_ID, instances: 0, totalConnections: 0, uniqueUsers: 0, roomCounts: {} };
   }
 
   const roomCounts: { [room: string]: number } = {};
-  
-  // Get room information
-  if (io) {
-    for (const [roomName, room] of io.sockets.adapter.rooms) {
-      if (!roomName.startsWith('/')) { // Skip socket ID rooms
-        roomCounts[roomName] = room.size;
+
+  // fetchSockets() asks every instance through the adapter
+  const sockets = await io.fetchSockets();
+  for (const socket of sockets) {
+    for (const roomName of socket.rooms) {
+      if (roomName !== socket.id) { // Skip socket ID rooms
+        roomCounts[roomName] = (roomCounts[roomName] || 0) + 1;
       }
     }
   }
 
+  const { instances, totalConnections, uniqueUsers } = await presence.getStats();
+
   return {
-    totalConnections: io ? io.sockets.sockets.size : 0,
-    uniqueUsers: activeConnections.size,
+    mode: presence.mode,
+    instanceId: INSTANCE_ID,
+    instances,
+    totalConnections,
+    uniqueUsers,
     roomCounts
   };
 }
@@ -394,45 +576,18 @@ function cleanupInactiveConnections(): void {
   const now = Date.now();
   const inactiveThreshold = 30 * 60 * 1000; // 30 minutes
 
-  for (const [userId, socketIds] of activeConnections) {
-    for (const socketId of socketIds) {
-      const socket = io.sockets.sockets.get(socketId);
-      if (socket && socket.data) {
-        const lastActivity = socket.data.lastActivity?.getTime() || 0;
-        if (now - lastActivity > inactiveThreshold) {
-          console.log(`Disconnecting inactive socket: ${socketId} for user: ${userId}`);
-          socket.disconnect(true);
-        }
+  // Only this instance's sockets; other instances clean up their own
+  for (const [socketId, socket] of io.sockets.sockets) {
+    if (socket.data) {
+      const lastActivity = socket.data.lastActivity?.getTime() || 0;
+      if (now - lastActivity > inactiveThreshold) {
+        console.log(`Disconnecting inactive socket: ${socketId} for user: ${socket.data.userId}`);
+        socket.disconnect(true);
       }
     }
   }
 }
 
-// Helper function to check project access (placeholder)
-async function canUserAccessProject(userId: string, projectId: string): Promise<boolean> {
-  // TODO: Implement actual project access check
-  // This should verify that the user has permission to access the project
-  try {
-    const cacheKey = `project_access:${userId}:${projectId}`;
-    const cached = await cache.get(cacheKey);
-    
-    if (cached) {
-      return JSON.parse(cached);
-    }
-
-    // In a real implementation, you would check the database
-    // For now, return true (but this should be implemented properly)
-    const hasAccess = true;
-    
-    // Cache the result for 5 minutes
-    await cache.set(cacheKey, JSON.stringify(hasAccess), 300);
-    return hasAccess;
-  } catch (error) {
-    console.error('Error checking project access:', error);
-    return false;
-  }
-}
-
 export function getWebSocketInstance(): SocketIOServer | null {
   return io;
 }
@@ -451,6 +606,7 @@ export function getWebSocketHealth() {
     status: 'healthy' as const,
     connections: io.engine.clientsCount || 0,
     uptime: process.uptime(),
+    mode: getPresenceStore().mode,
   };
 }
 
@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import { getClusterRedisClient, getClusterSubscriber } from './socketCluster';
+
+// Per-room event log
+// Every event emitted to a room gets the room's next sequence number (its eventId) and is kept
+// in a bounded log, so a client that reconnects with the last eventId it saw can be sent what
+// it missed. The log is a Redis stream per room in cluster mode and an in-process buffer
+// otherwise. When the missed events are no longer all in the log (too old, or the log was
+// reset), the client is told to resync instead. Logged events are also published on a bus
+// (a Redis channel in cluster mode) for transports other than Socket.IO, such as SSE streams.
+
+export const EVENT_LOG_MAX_EVENTS = 500;
+const EVENT_LOG_TTL_SECONDS = 24 * 60 * 60;
+const KEY_PREFIX = 'ws:';
+const ROOM_EVENTS_CHANNEL = `${KEY_PREFIX}room-events`;
+
+export interface LoggedEvent {
+  id: number;
+  event: string;
+  data: any;
+}
+
+export interface EventReplay {
+  events: LoggedEvent[];
+  resyncRequired: boolean;
+  latestId: number;
+}
+
+export interface RoomEvent extends LoggedEvent {
+  room: string;
+}
+
+export interface RoomReplay extends EventReplay {
+  room: string;
+  lastEventId: number;
+}
+
+export interface EventLog {
+  append(room: string, event: string, data: any): Promise<number>;
+  since(room: string, lastEventId: number): Promise<EventReplay>;
+  latest(room: string): Promise<number>;
+}
+
+// Whether the events after lastEventId are all still in a log holding [oldestId, latestId]
+function hasGap(lastEventId: number, oldestId: number | undefined, latestId: number): boolean {
+  if (lastEventId > latestId) return true; // log was reset since the client last saw it
+  if (lastEventId === latestId) return false;
+  return oldestId === undefined || oldestId > lastEventId + 1;
+}
+
+interface RoomLog {
+  seq: number;
+  events: LoggedEvent[];
+  touchedAt: number;
+}
+
+/**
+ * Event log for a single instance
+ */
+class InMemoryEventLog implements EventLog {
+  private rooms = new Map<string, RoomLog>();
+
+  constructor() {
+    // Forget rooms nobody has emitted to within the TTL
+    setInterval(() => {
+      const cutoff = Date.now() - EVENT_LOG_TTL_SECONDS * 1000;
+      for (const [room, log] of this.rooms) {
+        if (log.touchedAt < cutoff) this.rooms.delete(room);
+      }
+    }, 60 * 60 * 1000).unref();
+  }
+
+  async append(room: string, event: string, data: any) {
+    let log = this.rooms.get(room);
+    if (!log) {
+      log = { seq: 0, events: [], touchedAt: Date.now() };
+      this.rooms.set(room, log);
+    }
+
+    const id = ++log.seq;
+    log.events.push({ id, event, data });
+    if (log.events.length > EVENT_LOG_MAX_EVENTS) {
+      log.events.splice(0, log.events.length - EVENT_LOG_MAX_EVENTS);
+    }
+    log.touchedAt = Date.now();
+
+    return id;
+  }
+
+  async since(room: string, lastEventId: number) {
+    const log = this.rooms.get(room);
+    const latestId = log?.seq ?? 0;
+
+    if (hasGap(lastEventId, log?.events[0]?.id, latestId)) {
+      return { events: [], resyncRequired: true, latestId };
+    }
+
+    return {
+      events: log ? log.events.filter(entry => entry.id > lastEventId) : [],
+      resyncRequired: false,
+      latestId
+    };
+  }
+
+  async latest(room: string) {
+    return this.rooms.get(room)?.seq ?? 0;
+  }
+}
+
+// Sequence and append in one step so concurrent instances can't add ids out of order
+const APPEND_SCRIPT = `
+local id = redis.call('INCR', KEYS[1])
+redis.call('XADD', KEYS[2], 'MAXLEN', ARGV[2], id .. '-0', 'payload', ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return id
+`;
+
+/**
+ * Event log shared by every instance through Redis streams
+ */
+class RedisEventLog implements EventLog {
+  constructor(private client: any) {}
+
+  private seqKey(room: string) {
+    return `${KEY_PREFIX}seq:${room}`;
+  }
+
+  private streamKey(room: string) {
+    return `${KEY_PREFIX}events:${room}`;
+  }
+
+  private parseEntry(entry: { id: string; message: { payload: string } }): LoggedEvent {
+    const { event, data } = JSON.parse(entry.message.payload);
+    return { id: Number(entry.id.split('-')[0]), event, data };
+  }
+
+  async append(room: string, event: string, data: any) {
+    const id = await this.client.eval(APPEND_SCRIPT, {
+      keys: [this.seqKey(room), this.streamKey(room)],
+      arguments: [JSON.stringify({ event, data }), String(EVENT_LOG_MAX_EVENTS), String(EVENT_LOG_TTL_SECONDS)]
+    });
+    return Number(id);
+  }
+
+  async since(room: string, lastEventId: number) {
+    const [latest, oldest] = await Promise.all([
+      this.latest(room),
+      this.client.xRange(this.streamKey(room), '-', '+', { COUNT: 1 })
+    ]);
+    const oldestId = oldest[0] ? this.parseEntry(oldest[0]).id : undefined;
+
+    if (hasGap(lastEventId, oldestId, latest)) {
+      return { events: [], resyncRequired: true, latestId: latest };
+    }
+    if (lastEventId === latest) {
+      return { events: [], resyncRequired: false, latestId: latest };
+    }
+
+    const entries = await this.client.xRange(this.streamKey(room), `${lastEventId + 1}-0`, '+');
+    return { events: entries.map((entry: any) => this.parseEntry(entry)), resyncRequired: false, latestId: latest };
+  }
+
+  async latest(room: string) {
+    return Number(await this.client.get(this.seqKey(room)) ?? 0);
+  }
+}
+
+const memoryLog = new InMemoryEventLog();
+let redisLog: RedisEventLog | null = null;
+
+export function getEventLog(): EventLog {
+  const client = getClusterRedisClient();
+  if (!client) return memoryLog;
+
+  if (!redisLog) {
+    redisLog = new RedisEventLog(client);
+  }
+  return redisLog;
+}
+
+/**
+ * Missed events for each room in lastEventIds that the caller may read; malformed ids are skipped
+ */
+export async function replayRooms(lastEventIds: Record<string, unknown>, allowedRooms: Set<string>): Promise<RoomReplay[]> {
+  const log = getEventLog();
+  const replays: RoomReplay[] = [];
+
+  for (const [room, lastEventId] of Object.entries(lastEventIds)) {
+    if (!allowedRooms.has(room) || typeof lastEventId !== 'number' || !Number.isInteger(lastEventId) || lastEventId < 0) {
+      continue;
+    }
+    replays.push({ room, lastEventId, ...await log.since(room, lastEventId) });
+  }
+
+  return replays;
+}
+
+// Room event bus
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+let clusterSubscription: Promise<void> | null = null;
+
+/**
+ * Publish a logged event to subscribers on every instance
+ */
+export async function publishRoomEvent(event: RoomEvent): Promise<void> {
+  const client = getClusterRedisClient();
+  if (client) {
+    // Delivered back to this instance through its own subscription
+    await client.publish(ROOM_EVENTS_CHANNEL, JSON.stringify(event));
+  } else {
+    bus.emit('event', event);
+  }
+}
+
+/**
+ * Receive every published room event until the returned function is called
+ */
+export async function subscribeToRoomEvents(listener: (event: RoomEvent) => void): Promise<() => void> {
+  const subscriber = getClusterSubscriber();
+  if (subscriber && !clusterSubscription) {
+    clusterSubscription = subscriber.subscribe(ROOM_EVENTS_CHANNEL, (message: string) => {
+      try {
+        bus.emit('event', JSON.parse(message));
+      } catch (error) {
+        console.error('Invalid room event on cluster channel:', error);
+      }
+    });
+  }
+  await clusterSubscription;
+
+  bus.on('event', listener);
+  return () => {
+    bus.off('event', listener);
+  };
+}
@@ -0,0 +1,376 @@
+import { createHash } from "crypto";
+import type { KeyTransparencyEntry, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+
+// Key transparency log
+// Every registration, rotation and revocation of a device's public keys is appended to a log
+// whose entries are the leaves of a Merkle tree, hashed as in RFC 6962 (Certificate
+// Transparency). Key fetches come with an inclusion proof against the current tree head, and
+// clients that remember an earlier head can ask for a consistency proof that the log only
+// grew since. A server that swaps a key without logging it, or rewrites the log, fails one
+// of the two checks.
+
+export type KeyLogAction = 'REGISTERED' | 'ROTATED' | 'REVOKED';
+
+export interface KeyLogEntryInput {
+  action: KeyLogAction;
+  userId: string;
+  deviceId: string;
+  keyType: string;
+  publicKey: string;
+  signingPublicKey?: string | null;
+}
+
+export interface TreeHead {
+  treeSize: number;
+  rootHash: string;
+}
+
+export interface InclusionProof extends TreeHead {
+  leafIndex: number;
+  leafHash: string;
+  auditPath: string[];
+}
+
+export interface ConsistencyProof {
+  firstSize: number;
+  secondSize: number;
+  firstRootHash: string;
+  secondRootHash: string;
+  proof: string[];
+}
+
+const LEAF_FORMAT = 'nexus-key-log-v1';
+// Serializes appends so leaf indexes have no gaps and commit in order
+const APPEND_LOCK_ID = 720251;
+
+function sha256(...parts: Buffer[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+function hashChildren(left: Buffer, right: Buffer): Buffer {
+  return sha256(NODE_PREFIX, left, right);
+}
+
+/**
+ * Canonical form of an entry that its leaf hash covers
+ */
+export function encodeKeyLogEntry(entry: KeyLogEntryInput & { index: number; createdAt: Date }): Buffer {
+  return Buffer.from(JSON.stringify([
+    LEAF_FORMAT,
+    entry.index,
+    entry.action,
+    entry.userId,
+    entry.deviceId,
+    entry.keyType,
+    entry.publicKey,
+    entry.signingPublicKey ?? null,
+    entry.createdAt.toISOString()
+  ]), 'utf8');
+}
+
+export function hashKeyLogLeaf(entry: KeyLogEntryInput & { index: number; createdAt: Date }): string {
+  return sha256(LEAF_PREFIX, encodeKeyLogEntry(entry)).toString('hex');
+}
+
+/**
+ * Append an entry inside the transaction that changes the key. Resolves to its leaf index.
+ */
+export async function appendKeyLogEntry(tx: Prisma.TransactionClient, entry: KeyLogEntryInput): Promise<number> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${APPEND_LOCK_ID})`;
+
+  const { _max } = await tx.keyTransparencyEntry.aggregate({ _max: { index: true } });
+  const index = (_max.index ?? -1) + 1;
+  const createdAt = new Date();
+
+  await tx.keyTransparencyEntry.create({
+    data: {
+      index,
+      action: entry.action,
+      userId: entry.userId,
+      deviceId: entry.deviceId,
+      keyType: entry.keyType,
+      publicKey: entry.publicKey,
+      signingPublicKey: entry.signingPublicKey ?? null,
+      leafHash: hashKeyLogLeaf({ ...entry, index, createdAt }),
+      createdAt
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Log active keys registered before the transparency log existed, so every key served comes
+ * with an inclusion proof. Resolves to the number of keys logged.
+ */
+export async function backfillKeyLog(): Promise<number> {
+  const unlogged = await prisma.userPublicKey.findMany({
+    where: { logIndex: null, revokedAt: null },
+    select: { userId: true, deviceId: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let logged = 0;
+  for (const { userId, deviceId } of unlogged) {
+    const appended = await prisma.$transaction(async (tx) => {
+      // Same lock as device registration, so a concurrent key change is not logged twice
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`user-devices:${userId}`}))`;
+
+      const key = await tx.userPublicKey.findUnique({
+        where: { userId_deviceId: { userId, deviceId } }
+      });
+      if (!key || key.logIndex !== null || key.revokedAt) return false;
+
+      const logIndex = await appendKeyLogEntry(tx, {
+        action: 'REGISTERED',
+        userId,
+        deviceId,
+        keyType: key.keyType,
+        publicKey: key.publicKey,
+        signingPublicKey: key.signingPublicKey
+      });
+
+      await tx.userPublicKey.update({
+        where: { userId_deviceId: { userId, deviceId } },
+        data: { logIndex }
+      });
+      return true;
+    });
+
+    if (appended) logged++;
+  }
+
+  return logged;
+}
+
+// Merkle tree over the cached leaf hashes. The log only grows, so leaves already read and
+// the hashes of complete (power-of-two) subtrees never change and are kept between requests.
+// Exported so proofs can be built from known leaves in tests.
+export class KeyLogTree {
+  private leaves: Buffer[] = [];
+  private subtreeHashes = new Map<string, Buffer>();
+
+  get size() {
+    return this.leaves.length;
+  }
+
+  append(leafHash: string) {
+    this.leaves.push(Buffer.from(leafHash, 'hex'));
+  }
+
+  // Read leaves appended since the last sync
+  async sync() {
+    const entries = await prisma.keyTransparencyEntry.findMany({
+      where: { index: { gte: this.leaves.length } },
+      select: { index: true, leafHash: true },
+      orderBy: { index: 'asc' }
+    });
+
+    for (const entry of entries) {
+      if (entry.index !== this.leaves.length) break; // Not yet committed in order
+      this.append(entry.leafHash);
+    }
+  }
+
+  rootHash(treeSize: number): string {
+    return this.hash(0, treeSize).toString('hex');
+  }
+
+  inclusionProof(leafIndex: number, treeSize: number): InclusionProof {
+    return {
+      leafIndex,
+      treeSize,
+      rootHash: this.rootHash(treeSize),
+      leafHash: this.hash(leafIndex, 1).toString('hex'),
+      auditPath: this.auditPath(leafIndex, 0, treeSize).map(hash => hash.toString('hex'))
+    };
+  }
+
+  consistencyProof(firstSize: number, secondSize: number): ConsistencyProof {
+    const proof = firstSize === 0 || firstSize === secondSize ? [] : this.subproof(firstSize, 0, secondSize, true);
+
+    return {
+      firstSize,
+      secondSize,
+      firstRootHash: this.rootHash(firstSize),
+      secondRootHash: this.rootHash(secondSize),
+      proof: proof.map(hash => hash.toString('hex'))
+    };
+  }
+
+  // MTH(D[start:start+size])
+  private hash(start: number, size: number): Buffer {
+    if (size === 0) return sha256();
+    if (size === 1) return this.leaves[start];
+
+    const isComplete = (size & (size - 1)) === 0;
+    const key = `${start}:${size}`;
+    const cached = isComplete ? this.subtreeHashes.get(key) : undefined;
+    if (cached) return cached;
+
+    const split = largestPowerOfTwoBelow(size);
+    const hash = hashChildren(this.hash(start, split), this.hash(start + split, size - split));
+    if (isComplete) this.subtreeHashes.set(key, hash);
+    return hash;
+  }
+
+  // PATH(m, D[start:start+size])
+  private auditPath(leafIndex: number, start: number, size: number): Buffer[] {
+    if (size <= 1) return [];
+
+    const split = largestPowerOfTwoBelow(size);
+    return leafIndex < split
+      ? [...this.auditPath(leafIndex, start, split), this.hash(start + split, size - split)]
+      : [...this.auditPath(leafIndex - split, start + split, size - split), this.hash(start, split)];
+  }
+
+  // SUBPROOF(m, D[start:start+size], complete)
+  private subproof(firstSize: number, start: number, size: number, complete: boolean): Buffer[] {
+    if (firstSize === size) {
+      return complete ? [] : [this.hash(start, size)];
+    }
+
+    const split = largestPowerOfTwoBelow(size);
+    return firstSize <= split
+      ? [...this.subproof(firstSize, start, split, complete), this.hash(start + split, size - split)]
+      : [...this.subproof(firstSize - split, start + split, size - split, false), this.hash(start, split)];
+  }
+}
+
+function largestPowerOfTwoBelow(size: number): number {
+  let split = 1;
+  while (split * 2 < size) split *= 2;
+  return split;
+}
+
+const tree = new KeyLogTree();
+
+// Tree size to answer for: the latest, or an earlier one the client asks about
+async function resolveTreeSize(treeSize?: number): Promise<number> {
+  await tree.sync();
+  if (treeSize === undefined) return tree.size;
+  if (!Number.isInteger(treeSize) || treeSize < 0 || treeSize > tree.size) {
+    throw new Error("INVALID_TREE_SIZE");
+  }
+  return treeSize;
+}
+
+export async function getTreeHead(treeSize?: number): Promise<TreeHead> {
+  const size = await resolveTreeSize(treeSize);
+  return { treeSize: size, rootHash: tree.rootHash(size) };
+}
+
+/**
+ * Proof that the leaf at leafIndex is in the tree of treeSize leaves (default: the latest)
+ */
+export async function getInclusionProof(leafIndex: number, treeSize?: number): Promise<InclusionProof> {
+  const size = await resolveTreeSize(treeSize);
+  if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= size) {
+    throw new Error("INVALID_LEAF_INDEX");
+  }
+
+  return tree.inclusionProof(leafIndex, size);
+}
+
+/**
+ * Proof that the tree of firstSize leaves is a prefix of the tree of secondSize leaves
+ */
+export async function getConsistencyProof(firstSize: number, secondSize?: number): Promise<ConsistencyProof> {
+  const second = await resolveTreeSize(secondSize);
+  if (!Number.isInteger(firstSize) || firstSize < 0 || firstSize > second) {
+    throw new Error("INVALID_TREE_SIZE");
+  }
+
+  return tree.consistencyProof(firstSize, second);
+}
+
+export async function listKeyLogEntries(start: number, limit: number): Promise<KeyTransparencyEntry[]> {
+  return prisma.keyTransparencyEntry.findMany({
+    where: { index: { gte: start } },
+    orderBy: { index: 'asc' },
+    take: limit
+  });
+}
+
+// Client-side checks (RFC 9162, sections 2.1.3.2 and 2.1.4.2), for clients and tests
+
+export function verifyInclusionProof(proof: InclusionProof): boolean {
+  const { leafIndex, treeSize } = proof;
+  if (leafIndex < 0 || leafIndex >= treeSize) return false;
+
+  let fn = leafIndex;
+  let sn = treeSize - 1;
+  let hash: Buffer = Buffer.from(proof.leafHash, 'hex');
+
+  for (const sibling of proof.auditPath.map(entry => Buffer.from(entry, 'hex'))) {
+    if (sn === 0) return false;
+
+    if (fn % 2 === 1 || fn === sn) {
+      hash = hashChildren(sibling, hash);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      hash = hashChildren(hash, sibling);
+    }
+
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && hash.toString('hex') === proof.rootHash;
+}
+
+export function verifyConsistencyProof(proof: ConsistencyProof): boolean {
+  const { firstSize, secondSize } = proof;
+  if (firstSize > secondSize) return false;
+  if (firstSize === secondSize) {
+    return proof.proof.length === 0 && proof.firstRootHash === proof.secondRootHash;
+  }
+  if (firstSize === 0) return proof.proof.length === 0;
+
+  const path = proof.proof.map(entry => Buffer.from(entry, 'hex'));
+  if ((firstSize & (firstSize - 1)) === 0) {
+    path.unshift(Buffer.from(proof.firstRootHash, 'hex'));
+  }
+  if (path.length === 0) return false;
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let firstHash: Buffer = path[0];
+  let secondHash: Buffer = path[0];
+
+  for (const node of path.slice(1)) {
+    if (sn === 0) return false;
+
+    if (fn % 2 === 1 || fn === sn) {
+      firstHash = hashChildren(node, firstHash);
+      secondHash = hashChildren(node, secondHash);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      secondHash = hashChildren(secondHash, node);
+    }
+
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return firstHash.toString('hex') === proof.firstRootHash &&
+    secondHash.toString('hex') === proof.secondRootHash &&
+    sn === 0;
+}
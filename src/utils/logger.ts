@@ -40,6 +40,30 @@ function createLogger() {
 
 export const logger = createLogger();
 
+// Query parameters that carry credentials (EventSource clients send their access token as ?token=)
+const SENSITIVE_QUERY_PARAMS = ['token'];
+const SENSITIVE_QUERY_PATTERN = new RegExp(`([?&](?:${SENSITIVE_QUERY_PARAMS.join('|')})=)[^&#]*`, 'gi');
+
+/**
+ * A request URL safe to log
+ */
+export function redactUrl(url: string): string {
+  return url.replace(SENSITIVE_QUERY_PATTERN, '$1[REDACTED]');
+}
+
+/**
+ * A parsed query string safe to log
+ */
+export function redactQuery(query: unknown): unknown {
+  if (!query || typeof query !== 'object') return query;
+
+  const redacted: Record<string, unknown> = { ...(query as Record<string, unknown>) };
+  for (const param of SENSITIVE_QUERY_PARAMS) {
+    if (param in redacted) redacted[param] = '[REDACTED]';
+  }
+  return redacted;
+}
+
 // Correlation ID utilities
 export class CorrelationId {
   private static generateId(): string {
@@ -135,10 +159,10 @@ export function createRequestLoggingMiddleware() {
     // Log incoming request
     requestLogger.info({
       method: request.method,
-      url: request.url,
+      url: redactUrl(request.url),
       userAgent: request.headers['user-agent'],
       ip: request.ip,
-      query: request.query,
+      query: redactQuery(request.query),
       // Don't log request body for security (may contain sensitive data)
     }, 'Incoming request');
 
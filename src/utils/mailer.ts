@@ -0,0 +1,223 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+import { env } from "../config/env";
+
+// Outgoing email
+// Notification emails go through a MailTransport. SmtpTransport covers what a relay or a
+// local mail catcher (Mailpit, MailHog) needs: implicit TLS or STARTTLS, AUTH PLAIN, and
+// one message per connection. With EMAIL_TRANSPORT=none, email is disabled.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+type SmtpSocket = net.Socket | tls.TLSSocket;
+
+/**
+ * Read one (possibly multi-line) SMTP reply
+ */
+function readReply(socket: SmtpSocket): Promise<SmtpReply> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+
+    const cleanup = () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      const lines = buffer.split('\r\n').slice(0, -1);
+      const last = lines[lines.length - 1];
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (last && /^\d{3}( |$)/.test(last)) {
+        cleanup();
+        resolve({ code: Number(last.slice(0, 3)), lines: lines.map(line => line.slice(4)) });
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('SMTP connection closed'));
+    };
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+  });
+}
+
+function expectReply(reply: SmtpReply, expected: number[], command: string): SmtpReply {
+  if (!expected.includes(reply.code)) {
+    throw new Error(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`);
+  }
+  return reply;
+}
+
+async function command(socket: SmtpSocket, line: string, expected: number[]): Promise<SmtpReply> {
+  const reply = readReply(socket);
+  socket.write(`${line}\r\n`);
+  // Keep credentials out of error messages
+  return expectReply(await reply, expected, line.split(' ')[0]);
+}
+
+// Header values must not be able to start new headers
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function emailAddress(mailbox: string): string {
+  return headerValue(mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox);
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+/**
+ * RFC 5322 message with a text part and, when given, an HTML alternative
+ */
+export function buildMimeMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${emailAddress(from).split('@')[1] || os.hostname()}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Body(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `----=_nexus_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+/**
+ * SMTP client, one connection per message
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+    timeoutMs: number;
+  }) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, port, secure, user, password, from, timeoutMs } = this.options;
+    const clientName = os.hostname();
+
+    let socket: SmtpSocket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.createConnection(port, host);
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+
+    try {
+      expectReply(await readReply(socket), [220], 'greeting');
+      let ehlo = await command(socket, `EHLO ${clientName}`, [250]);
+
+      if (!secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await command(socket, 'STARTTLS', [220]);
+        const plain = socket;
+        socket = tls.connect({ socket: plain, servername: host });
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+        await new Promise<void>((resolve, reject) => {
+          socket.once('secureConnect', resolve);
+          socket.once('error', reject);
+        });
+        ehlo = await command(socket, `EHLO ${clientName}`, [250]);
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+        await command(socket, `AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(socket, `MAIL FROM:<${emailAddress(from)}>`, [250]);
+      await command(socket, `RCPT TO:<${emailAddress(message.to)}>`, [250, 251]);
+      await command(socket, 'DATA', [354]);
+
+      // Lines starting with a dot are escaped so they don't end the message early
+      const data = buildMimeMessage(from, message).replace(/^\./gm, '..');
+      await command(socket, `${data}\r\n.`, [250]);
+
+      await command(socket, 'QUIT', [221]).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  }
+}
+
+// Transport factory
+let transportInstance: MailTransport | null | undefined;
+
+export function getMailTransport(): MailTransport | null {
+  if (transportInstance === undefined) {
+    transportInstance = env.EMAIL_TRANSPORT === 'smtp'
+      ? new SmtpTransport({
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT,
+          secure: env.SMTP_SECURE,
+          user: env.SMTP_USER,
+          password: env.SMTP_PASSWORD,
+          from: env.EMAIL_FROM,
+          timeoutMs: env.SMTP_TIMEOUT_MS
+        })
+      : null;
+  }
+  return transportInstance;
+}
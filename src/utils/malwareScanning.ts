@@ -0,0 +1,338 @@
+import net from "net";
+import { once } from "events";
+import { Readable } from "stream";
+import type { FileScanStatus } from "@prisma/client";
+import { prisma } from "../db";
+import { env } from "../config/env";
+import { emitProjectUpdate } from "./enhancedWebSocket";
+import { notifyUser } from "./notifications";
+import { logSecurityEvent } from "./logger";
+import { getStorage, storageUri } from "./storage";
+
+// Malware scanning
+// With MALWARE_SCANNER set, every uploaded file version starts as PENDING_SCAN and is
+// scanned in the background. A scan first claims the version (SCANNING), so the upload
+// queue and the sweep never scan the same version twice. Clean files become downloadable;
+// infected files are moved under quarantine/ in storage, stay blocked, and are reported to
+// the uploader and the security log. A scanner error returns the version to PENDING_SCAN
+// for the sweep to retry; only after MAX_SCAN_ATTEMPTS is it quarantined as SCAN_FAILED.
+// Versions left pending or mid-scan by a restart are picked up by a periodic sweep.
+
+const QUARANTINE_PREFIX = 'quarantine/';
+const PENDING_SCAN_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Scans queued at upload time normally finish well within this
+const PENDING_SCAN_GRACE_MS = 10 * 60 * 1000;
+const PENDING_SCAN_SWEEP_BATCH = 20;
+const MAX_SCAN_ATTEMPTS = 5;
+// A claim older than this belongs to a scan that died with its process
+const SCAN_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+// The standard anti-virus test string (https://www.eicar.org/download-anti-malware-testfile/)
+const EICAR_TEST_STRING = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+export interface ScanResult {
+  clean: boolean;
+  signature?: string;
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+  scan(file: Readable): Promise<ScanResult>;
+}
+
+/**
+ * ClamAV daemon scanner using the INSTREAM command over TCP or a unix socket
+ */
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamd';
+
+  constructor(private readonly options: { host: string; port: number; socketPath?: string; timeoutMs: number }) {}
+
+  scan(file: Readable): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? net.createConnection(this.options.socketPath)
+        : net.createConnection(this.options.port, this.options.host);
+      const response: Buffer[] = [];
+
+      socket.setTimeout(this.options.timeoutMs, () => socket.destroy(new Error('clamd scan timed out')));
+      socket.on('data', chunk => response.push(chunk));
+      socket.on('error', reject);
+      socket.on('close', () => {
+        // e.g. "stream: OK", "stream: Eicar-Test-Signature FOUND" or "INSTREAM size limit exceeded. ERROR"
+        const reply = Buffer.concat(response).toString('utf8').replace(/\0/g, '').trim();
+        const found = reply.match(/^stream: (.+) FOUND$/);
+
+        if (reply === 'stream: OK') {
+          resolve({ clean: true });
+        } else if (found) {
+          resolve({ clean: false, signature: found[1] });
+        } else {
+          reject(new Error(`Unexpected clamd reply: ${reply || '(empty)'}`));
+        }
+      });
+
+      socket.once('connect', async () => {
+        try {
+          socket.write('zINSTREAM\0');
+
+          // Each chunk is prefixed with its length; a zero length ends the stream
+          for await (const chunk of file) {
+            const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(data.length);
+            socket.write(length);
+            if (!socket.write(data)) await once(socket, 'drain');
+          }
+
+          socket.end(Buffer.alloc(4));
+        } catch (error) {
+          socket.destroy(error as Error);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Test scanner that only flags files containing the EICAR test string
+ */
+export class EicarStubScanner implements MalwareScanner {
+  readonly name = 'eicar';
+
+  async scan(file: Readable): Promise<ScanResult> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of file) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    return Buffer.concat(chunks).includes(EICAR_TEST_STRING)
+      ? { clean: false, signature: 'Eicar-Test-Signature' }
+      : { clean: true };
+  }
+}
+
+// Scanner factory
+let scannerInstance: MalwareScanner | null | undefined;
+
+export function getMalwareScanner(): MalwareScanner | null {
+  if (scannerInstance === undefined) {
+    if (env.MALWARE_SCANNER === 'clamd') {
+      scannerInstance = new ClamdScanner({
+        host: env.CLAMD_HOST,
+        port: env.CLAMD_PORT,
+        socketPath: env.CLAMD_SOCKET,
+        timeoutMs: env.CLAMD_TIMEOUT_MS
+      });
+    } else if (env.MALWARE_SCANNER === 'eicar') {
+      scannerInstance = new EicarStubScanner();
+    } else {
+      scannerInstance = null;
+    }
+  }
+  return scannerInstance;
+}
+
+/**
+ * Scan status a newly uploaded file starts in
+ */
+export function initialScanStatus(): FileScanStatus {
+  return getMalwareScanner() ? 'PENDING_SCAN' : 'NOT_SCANNED';
+}
+
+/**
+ * Whether a file with this status is still waiting for its scan result
+ */
+export function isAwaitingScan(status: FileScanStatus): boolean {
+  return status === 'PENDING_SCAN' || status === 'SCANNING';
+}
+
+/**
+ * Whether a file with this status may be downloaded
+ */
+export function isQuarantined(status: FileScanStatus): boolean {
+  return status === 'INFECTED' || status === 'SCAN_FAILED';
+}
+
+/**
+ * Move a stored object under the quarantine prefix, returning its new key
+ */
+async function quarantineObject(storageKey: string): Promise<string> {
+  const storage = getStorage();
+  const quarantineKey = `${QUARANTINE_PREFIX}${storageKey}`;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of await storage.get(storageKey)) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  await storage.put(quarantineKey, Buffer.concat(chunks), 'application/octet-stream');
+  await storage.delete(storageKey);
+
+  return quarantineKey;
+}
+
+/**
+ * Scan one pending attachment version and record the outcome
+ */
+export async function scanAttachmentVersion(versionId: string) {
+  const scanner = getMalwareScanner();
+  if (!scanner) return;
+
+  // Claim the version so a concurrent scan of it stops here
+  const claimed = await prisma.projectAttachmentVersion.updateMany({
+    where: { id: versionId, scanStatus: 'PENDING_SCAN', storageKey: { not: null } },
+    data: { scanStatus: 'SCANNING', scanStartedAt: new Date(), scanAttempts: { increment: 1 } }
+  });
+
+  if (claimed.count === 0) return;
+
+  const version = await prisma.projectAttachmentVersion.findUniqueOrThrow({
+    where: { id: versionId },
+    include: { attachment: { include: { project: true } } }
+  });
+
+  if (!version.storageKey) return;
+
+  let status: FileScanStatus;
+  let signature: string | undefined;
+
+  try {
+    const result = await scanner.scan(await getStorage().get(version.storageKey));
+    status = result.clean ? 'CLEAN' : 'INFECTED';
+    signature = result.signature;
+  } catch (error) {
+    console.error(`[malwareScanning] ${scanner.name} could not scan ${version.storageKey} (attempt ${version.scanAttempts}):`, error);
+
+    // Leave it for the sweep to retry unless the scanner has failed on it too often
+    if (version.scanAttempts < MAX_SCAN_ATTEMPTS) {
+      await prisma.projectAttachmentVersion.updateMany({
+        where: { id: version.id, scanStatus: 'SCANNING' },
+        data: { scanStatus: 'PENDING_SCAN', scanStartedAt: null }
+      });
+      return;
+    }
+
+    status = 'SCAN_FAILED';
+  }
+
+  let storageKey = version.storageKey;
+  if (isQuarantined(status)) {
+    try {
+      storageKey = await quarantineObject(version.storageKey);
+    } catch (error) {
+      // Downloads are blocked by status either way
+      console.error(`[malwareScanning] Failed to move ${version.storageKey} to quarantine:`, error);
+    }
+  }
+
+  const fileUrl = storageUri(getStorage(), storageKey);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.projectAttachmentVersion.update({
+      where: { id: version.id },
+      data: { scanStatus: status, scanSignature: signature, scannedAt: new Date(), storageKey, fileUrl }
+    });
+
+    // The attachment row mirrors its current version
+    await tx.projectAttachment.updateMany({
+      where: { id: version.attachmentId, currentVersion: version.version },
+      data: { scanStatus: status, storageKey, fileUrl }
+    });
+  });
+
+  const { attachment } = version;
+
+  if (isQuarantined(status)) {
+    logSecurityEvent(status === 'INFECTED' ? 'MALWARE_DETECTED' : 'MALWARE_SCAN_FAILED', {
+      scanner: scanner.name,
+      signature,
+      projectId: attachment.projectId,
+      attachmentId: attachment.id,
+      version: version.version,
+      fileName: version.fileName,
+      checksum: version.checksum,
+      quarantineKey: storageKey
+    }, undefined, version.uploaderId);
+
+    await notifyUser(version.uploaderId, {
+      type: 'attachment-quarantined',
+      projectId: attachment.projectId,
+      attachmentId: attachment.id,
+      version: version.version,
+      fileName: version.fileName,
+      scanStatus: status,
+      reason: status === 'INFECTED'
+        ? 'The file was flagged by the malware scanner'
+        : 'The file could not be scanned'
+    });
+  }
+
+  emitProjectUpdate({
+    type: 'file-updated',
+    projectId: attachment.projectId,
+    collegeId: attachment.project.collegeId,
+    departments: attachment.project.departments,
+    visibleToAllDepts: attachment.project.visibleToAllDepts,
+    attachment: {
+      id: attachment.id,
+      fileName: version.fileName,
+      fileType: version.fileType,
+      version: version.version,
+      scanStatus: status
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Scan a version in the background after its upload has been recorded
+ */
+export function queueAttachmentScan(versionId: string) {
+  if (!getMalwareScanner()) return;
+
+  setImmediate(() => {
+    scanAttachmentVersion(versionId).catch(error => {
+      console.error('Attachment scan failed:', error);
+    });
+  });
+}
+
+/**
+ * Scan versions that are still pending long after upload (e.g. queued before a restart, or
+ * returned for a retry after a scanner error)
+ */
+export async function scanStalePendingVersions() {
+  // Release claims held by scans that never finished
+  await prisma.projectAttachmentVersion.updateMany({
+    where: { scanStatus: 'SCANNING', scanStartedAt: { lt: new Date(Date.now() - SCAN_CLAIM_TIMEOUT_MS) } },
+    data: { scanStatus: 'PENDING_SCAN', scanStartedAt: null }
+  });
+
+  const stale = await prisma.projectAttachmentVersion.findMany({
+    where: {
+      scanStatus: 'PENDING_SCAN',
+      createdAt: { lt: new Date(Date.now() - PENDING_SCAN_GRACE_MS) }
+    },
+    orderBy: { createdAt: 'asc' },
+    take: PENDING_SCAN_SWEEP_BATCH,
+    select: { id: true }
+  });
+
+  for (const version of stale) {
+    await scanAttachmentVersion(version.id);
+  }
+}
+
+/**
+ * Periodically scan stale pending versions
+ */
+export function startPendingScanSweep() {
+  if (!getMalwareScanner()) return;
+
+  return setInterval(() => {
+    scanStalePendingVersions().catch(error => {
+      console.error('Pending attachment scan sweep failed:', error);
+    });
+  }, PENDING_SCAN_SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,75 @@
+import type { Comment, Project } from "@prisma/client";
+import { ProjectMember } from "./projectPermissions";
+import { notifyUser } from "./notifications";
+
+// @mentions in comments
+// A member is mentioned as @<userId>, @[Display Name], or @DisplayName with the spaces left
+// out (case-insensitive), matching the members returned by GET /v1/projects/:id/members.
+// Names shared by several members only resolve through the id. Encrypted comments are
+// never parsed since the server cannot read them.
+
+// Not preceded by a word character (so e-mail addresses don't match); no trailing punctuation
+const MENTION_PATTERN = /(?<![\w.])@(?:\[([^\]\n]{1,100})\]|(\w(?:[\w.-]{0,98}\w)?))/g;
+const EXCERPT_LENGTH = 140;
+
+function normalizeName(name: string): string {
+  return name.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Raw mention tokens in a comment body
+ */
+export function parseMentionTokens(body: string): string[] {
+  return Array.from(body.matchAll(MENTION_PATTERN), match => (match[1] ?? match[2]).trim());
+}
+
+/**
+ * Ids of the project members mentioned in a comment body
+ */
+export function resolveMentions(body: string, members: Pick<ProjectMember, 'id' | 'name'>[]): string[] {
+  const byId = new Map(members.map(member => [member.id, member.id]));
+  const byName = new Map<string, string | null>();
+
+  for (const member of members) {
+    const key = normalizeName(member.name);
+    // Ambiguous names map to null
+    byName.set(key, byName.has(key) && byName.get(key) !== member.id ? null : member.id);
+  }
+
+  const mentioned = new Set<string>();
+  for (const token of parseMentionTokens(body)) {
+    const userId = byId.get(token) ?? byName.get(normalizeName(token));
+    if (userId) mentioned.add(userId);
+  }
+
+  return Array.from(mentioned);
+}
+
+/**
+ * Notify newly mentioned users (never the author)
+ */
+export async function notifyMentionedUsers(
+  comment: Pick<Comment, 'id' | 'body' | 'taskId' | 'parentId' | 'mentionedUserIds'>,
+  project: Pick<Project, 'id' | 'title'>,
+  author: { id: string; name: string },
+  previouslyMentioned: string[] = []
+) {
+  const recipients = comment.mentionedUserIds.filter(
+    userId => userId !== author.id && !previouslyMentioned.includes(userId)
+  );
+
+  const excerpt = comment.body.length > EXCERPT_LENGTH
+    ? `${comment.body.slice(0, EXCERPT_LENGTH)}…`
+    : comment.body;
+
+  await Promise.all(recipients.map(userId => notifyUser(userId, {
+    type: 'comment-mention',
+    projectId: project.id,
+    projectTitle: project.title,
+    commentId: comment.id,
+    taskId: comment.taskId,
+    parentId: comment.parentId,
+    excerpt,
+    mentionedBy: author
+  })));
+}
@@ -0,0 +1,48 @@
+import { prisma } from "../db";
+import { CryptoManager, SignedMessageFields } from "./crypto";
+
+// Encrypted message signatures
+// Each device may register an Ed25519 signing key next to its X25519 key. Messages from a
+// device with a signing key must be signed by it, and are stored only if the signature
+// verifies, so the sender and device a message is attributed to can't be forged. Devices
+// registered before signing keys existed can still send; their messages are marked UNSIGNED.
+
+export type SignatureStatus = 'VERIFIED' | 'UNSIGNED';
+
+export interface SignatureCheck {
+  ok: boolean;
+  status?: SignatureStatus;
+  code?: 'UNKNOWN_DEVICE' | 'SIGNATURE_REQUIRED' | 'INVALID_SIGNATURE';
+  error?: string;
+}
+
+/**
+ * Check a message's signature against the signing key of the device it claims to come from
+ */
+export async function verifySenderSignature(message: SignedMessageFields, signature?: string | null): Promise<SignatureCheck> {
+  const device = await prisma.userPublicKey.findUnique({
+    where: { userId_deviceId: { userId: message.senderId, deviceId: message.deviceId } },
+    select: { signingPublicKey: true, revokedAt: true }
+  });
+
+  if (!device || device.revokedAt) {
+    return { ok: false, code: 'UNKNOWN_DEVICE', error: 'Sending device is revoked or not registered' };
+  }
+
+  if (!device.signingPublicKey) {
+    if (signature) {
+      return { ok: false, code: 'INVALID_SIGNATURE', error: 'Sending device has no registered signing key' };
+    }
+    return { ok: true, status: 'UNSIGNED' };
+  }
+
+  if (!signature) {
+    return { ok: false, code: 'SIGNATURE_REQUIRED', error: 'Messages from this device must be signed' };
+  }
+
+  if (!CryptoManager.verifyMessageSignature(message, signature, device.signingPublicKey)) {
+    return { ok: false, code: 'INVALID_SIGNATURE', error: 'Message signature does not verify' };
+  }
+
+  return { ok: true, status: 'VERIFIED' };
+}
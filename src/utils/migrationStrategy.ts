@@ -3,6 +3,8 @@
 
 import { prisma } from '../db';
 import { FeatureFlags } from './crypto';
+import { getProjectRole, hasProjectPermission } from './projectPermissions';
+import { listRecipientDevices, WrappedKeyBlobs } from './conversationKeys';
 
 export interface MigrationStatus {
   phase: 'preparation' | 'pilot' | 'gradual' | 'complete';
@@ -80,21 +82,21 @@ export class E2EEMigrationManager {
   static async migrateProjectToE2EE(
     projectId: string, 
     initiatorUserId: string,
-    encryptedKeyBlobs: { [userId: string]: string }
+    encryptedKeyBlobs: WrappedKeyBlobs
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Verify initiator is project author
+      // Verify initiator supervises the project
       const project = await prisma.project.findUnique({
         where: { id: projectId },
-        select: { authorId: true, title: true }
+        select: { id: true, authorId: true, title: true }
       });
 
       if (!project) {
         return { success: false, error: 'Project not found' };
       }
 
-      if (project.authorId !== initiatorUserId) {
-        return { success: false, error: 'Only project author can enable encryption' };
+      if (!hasProjectPermission(await getProjectRole(project, initiatorUserId), 'edit')) {
+        return { success: false, error: 'Only project supervisors can enable encryption' };
       }
 
       // Check if already encrypted
@@ -111,8 +113,19 @@ export class E2EEMigrationManager {
         data: {
           projectId,
           encryptedKeyBlobs,
+          memberIds: Object.keys(encryptedKeyBlobs),
+          recipientDevices: listRecipientDevices(encryptedKeyBlobs),
           isEncrypted: true,
-          createdAt: new Date()
+          createdAt: new Date(),
+          epochs: {
+            create: {
+              epoch: 1,
+              encryptedKeyBlobs,
+              memberIds: Object.keys(encryptedKeyBlobs),
+              recipientDevices: listRecipientDevices(encryptedKeyBlobs),
+              createdById: initiatorUserId
+            }
+          }
         }
       });
 
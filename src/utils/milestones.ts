@@ -0,0 +1,96 @@
+import type { Prisma, ProgressStatus, TaskStatus } from "@prisma/client";
+
+// Project milestones and progress roll-up
+// Progress is derived from task completion: a milestone's progress comes from its linked
+// tasks and a project's progress from all of its tasks. A milestone is complete once all
+// of its tasks are DONE (completedAt is kept in sync so overdue checks can run in SQL).
+
+export interface TaskProgress {
+  totalTasks: number;
+  completedTasks: number;
+  progressPercent: number;
+}
+
+/**
+ * Roll task statuses up into a completion percentage
+ */
+export function computeProgress(tasks: { status: TaskStatus }[]): TaskProgress {
+  const completedTasks = tasks.filter(task => task.status === 'DONE').length;
+
+  return {
+    totalTasks: tasks.length,
+    completedTasks,
+    progressPercent: tasks.length > 0 ? Math.round((completedTasks / tasks.length) * 100) : 0
+  };
+}
+
+/**
+ * A milestone is overdue when its due date has passed before it was completed
+ */
+export function isMilestoneOverdue(milestone: { dueDate: Date; completedAt: Date | null }, now: Date = new Date()): boolean {
+  return !milestone.completedAt && milestone.dueDate < now;
+}
+
+/**
+ * Project-level overdue check: past the project deadline, or any milestone slipping
+ */
+export function isProjectOverdue(
+  project: { deadline: Date | null; progressStatus: ProgressStatus },
+  milestones: { dueDate: Date; completedAt: Date | null }[] = [],
+  now: Date = new Date()
+): boolean {
+  if (project.progressStatus === 'COMPLETED') {
+    return false;
+  }
+
+  const pastDeadline = !!project.deadline && new Date(project.deadline) < now;
+  return pastDeadline || milestones.some(milestone => isMilestoneOverdue(milestone, now));
+}
+
+/**
+ * Prisma filter matching the same projects as isProjectOverdue
+ */
+export function overdueProjectFilter(now: Date = new Date()): Prisma.ProjectWhereInput {
+  return {
+    progressStatus: { not: 'COMPLETED' },
+    OR: [
+      { deadline: { lt: now } },
+      { milestones: { some: { completedAt: null, dueDate: { lt: now } } } }
+    ]
+  };
+}
+
+/**
+ * Attach progress and overdue flags to a milestone loaded with its tasks
+ */
+export function summarizeMilestone<T extends { dueDate: Date; completedAt: Date | null; tasks: { status: TaskStatus }[] }>(milestone: T) {
+  return {
+    ...milestone,
+    ...computeProgress(milestone.tasks),
+    isOverdue: isMilestoneOverdue(milestone)
+  };
+}
+
+/**
+ * Recompute completedAt from the milestone's tasks (call after tasks change)
+ */
+export async function syncMilestoneCompletion(tx: Prisma.TransactionClient, milestoneId: string | null | undefined) {
+  if (!milestoneId) return;
+
+  const milestone = await tx.projectMilestone.findUnique({
+    where: { id: milestoneId },
+    select: { completedAt: true, tasks: { select: { status: true } } }
+  });
+
+  if (!milestone) return;
+
+  const { totalTasks, completedTasks } = computeProgress(milestone.tasks);
+  const isComplete = totalTasks > 0 && completedTasks === totalTasks;
+
+  if (isComplete !== !!milestone.completedAt) {
+    await tx.projectMilestone.update({
+      where: { id: milestoneId },
+      data: { completedAt: isComplete ? new Date() : null }
+    });
+  }
+}
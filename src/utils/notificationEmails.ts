@@ -0,0 +1,288 @@
+import type { DigestFrequency, Notification, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { env } from "../config/env";
+import { getMailTransport, MailMessage } from "./mailer";
+
+// Notification emails
+// EMAIL notifications are mailed as they happen; DIGEST notifications that are still unread
+// are collected into one email per user, daily or weekly. Every entry links back to its
+// project, application or comment in the frontend. EMAIL notifications whose send failed
+// are retried by the digest sweep, up to MAX_EMAIL_ATTEMPTS times while still unread.
+
+const DIGEST_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+  DAILY: 24 * 60 * 60 * 1000,
+  WEEKLY: 7 * 24 * 60 * 60 * 1000
+};
+const DIGEST_MAX_ENTRIES = 50;
+const MAX_EMAIL_ATTEMPTS = 5;
+// Leaves a send that is still in flight alone
+const EMAIL_RETRY_DELAY_MS = 10 * 60 * 1000;
+const EMAIL_RETRY_BATCH = 100;
+
+type NotificationData = Prisma.JsonObject & {
+  projectTitle?: string;
+  applicationId?: string;
+  taskId?: string;
+  taskTitle?: string;
+  commentId?: string;
+  status?: string;
+  studentName?: string;
+  excerpt?: string;
+  fileName?: string;
+  mentionedBy?: { name?: string };
+  assignedBy?: { name?: string };
+  invitedBy?: { name?: string };
+  action?: string;
+  deviceId?: string;
+  deviceName?: string | null;
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Frontend page a notification refers to
+ */
+export function notificationLink(notification: Pick<Notification, 'type' | 'projectId' | 'data'>): string {
+  const data = notification.data as NotificationData;
+  const base = env.FRONTEND_URL.replace(/\/$/, '');
+
+  if (!notification.projectId) {
+    return `${base}/notifications`;
+  }
+
+  const project = `${base}/projects/${encodeURIComponent(notification.projectId)}`;
+
+  if (data.applicationId) {
+    return `${project}/applications/${encodeURIComponent(data.applicationId)}`;
+  }
+  if (data.commentId) {
+    return `${project}#comment-${encodeURIComponent(data.commentId)}`;
+  }
+  if (data.taskId) {
+    return `${project}?task=${encodeURIComponent(data.taskId)}`;
+  }
+  return project;
+}
+
+/**
+ * One-line description of a notification
+ */
+export function describeNotification(notification: Pick<Notification, 'type' | 'data'>): string {
+  const data = notification.data as NotificationData;
+  const project = data.projectTitle ? `"${data.projectTitle}"` : 'your project';
+
+  switch (notification.type) {
+    case 'application-received':
+      return `${data.studentName || 'A student'} applied to ${project}`;
+    case 'application-status-changed':
+      return `Your application to ${project} is now ${String(data.status || 'updated').toLowerCase().replace(/_/g, ' ')}`;
+    case 'waitlist-offer':
+      return `A place opened up on ${project} - accept it before the offer expires`;
+    case 'waitlist-accepted':
+      return `You have been moved off the waitlist and accepted to ${project}`;
+    case 'invitation-received':
+      return `${data.invitedBy?.name || 'A faculty member'} invited you to join ${project}`;
+    case 'comment-mention':
+      return `${data.mentionedBy?.name || 'Someone'} mentioned you on ${project}: "${data.excerpt || ''}"`;
+    case 'task-assigned':
+      return `${data.assignedBy?.name || 'Someone'} assigned you "${data.taskTitle || 'a task'}" on ${project}`;
+    case 'collaborator-invited':
+      return `You have been invited to supervise ${project}`;
+    case 'collaborator-joined':
+      return `A collaborator joined ${project}`;
+    case 'collaborator-declined':
+      return `A collaborator declined your invitation to ${project}`;
+    case 'collaborator-removed':
+      return `You have been removed from ${project}`;
+    case 'effort-reviewed':
+      return `Your logged time was reviewed (${String(data.status || '').toLowerCase()})`;
+    case 'attachment-quarantined':
+      return `Your upload "${data.fileName || 'file'}" was quarantined by the malware scanner`;
+    case 'device-registered': {
+      const device = `"${data.deviceName || data.deviceId || 'unknown'}"`;
+      return data.action === 'ROTATED'
+        ? `The encryption keys of your device ${device} were replaced`
+        : `A new device ${device} was registered for encrypted messaging on your account`;
+    }
+    default:
+      return `New activity on ${project}`;
+  }
+}
+
+function renderEmail(heading: string, entries: Notification[], footer: string): Pick<MailMessage, 'text' | 'html'> {
+  const lines = entries.map(entry => ({ text: describeNotification(entry), link: notificationLink(entry) }));
+
+  return {
+    text: [
+      heading,
+      '',
+      ...lines.map(line => `- ${line.text}\n  ${line.link}`),
+      '',
+      footer
+    ].join('\n'),
+    html: [
+      `<p>${escapeHtml(heading)}</p>`,
+      '<ul>',
+      ...lines.map(line => `<li><a href="${escapeHtml(line.link)}">${escapeHtml(line.text)}</a></li>`),
+      '</ul>',
+      `<p style="color:#666;font-size:12px">${escapeHtml(footer)}</p>`
+    ].join('\n')
+  };
+}
+
+const PREFERENCES_FOOTER = `Change which emails you get in your notification settings: ${env.FRONTEND_URL.replace(/\/$/, '')}/settings/notifications`;
+
+/**
+ * Email for a single notification
+ */
+export function buildNotificationEmail(to: string, notification: Notification): MailMessage {
+  return {
+    to,
+    subject: describeNotification(notification).slice(0, 120),
+    ...renderEmail('You have a new notification on Nexus Projects:', [notification], PREFERENCES_FOOTER)
+  };
+}
+
+/**
+ * Digest email for the unread notifications since the last digest
+ */
+export function buildDigestEmail(to: string, frequency: DigestFrequency, notifications: Notification[]): MailMessage {
+  const period = frequency === 'WEEKLY' ? 'weekly' : 'daily';
+
+  return {
+    to,
+    subject: `Your ${period} Nexus Projects digest: ${notifications.length} unread notification${notifications.length === 1 ? '' : 's'}`,
+    ...renderEmail('Here is what happened while you were away:', notifications, PREFERENCES_FOOTER)
+  };
+}
+
+/**
+ * Email a notification right away (EMAIL channel)
+ */
+export async function sendNotificationEmail(notification: Notification) {
+  const transport = getMailTransport();
+  if (!transport) return;
+
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId: notification.userId },
+    select: { email: true }
+  });
+  if (!preference?.email) return;
+
+  // Counted before sending, so a send lost with its process is retried too
+  await prisma.notification.update({
+    where: { id: notification.id },
+    data: { emailAttempts: { increment: 1 } }
+  });
+
+  await transport.send(buildNotificationEmail(preference.email, notification));
+  await prisma.notification.update({
+    where: { id: notification.id },
+    data: { emailedAt: new Date() }
+  });
+}
+
+/**
+ * Retry EMAIL notifications whose send failed, while they are unread and under the attempt cap
+ */
+export async function retryFailedNotificationEmails(now: Date = new Date()): Promise<number> {
+  if (!getMailTransport()) return 0;
+
+  const failed = await prisma.notification.findMany({
+    where: {
+      channel: 'EMAIL',
+      emailedAt: null,
+      readAt: null,
+      emailAttempts: { gt: 0, lt: MAX_EMAIL_ATTEMPTS },
+      createdAt: { lte: new Date(now.getTime() - EMAIL_RETRY_DELAY_MS) }
+    },
+    orderBy: { createdAt: 'asc' },
+    take: EMAIL_RETRY_BATCH
+  });
+
+  let sent = 0;
+  for (const notification of failed) {
+    try {
+      await sendNotificationEmail(notification);
+      sent++;
+    } catch (error) {
+      console.error(`Failed to retry ${notification.type} notification email to ${notification.userId} (attempt ${notification.emailAttempts + 1}):`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Send digests to every user whose daily or weekly period has elapsed
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<number> {
+  const transport = getMailTransport();
+  if (!transport) return 0;
+
+  const due = await prisma.notificationPreference.findMany({
+    where: {
+      email: { not: null },
+      OR: (Object.keys(DIGEST_PERIOD_MS) as DigestFrequency[]).map(frequency => ({
+        digestFrequency: frequency,
+        OR: [
+          { lastDigestAt: null },
+          { lastDigestAt: { lte: new Date(now.getTime() - DIGEST_PERIOD_MS[frequency]) } }
+        ]
+      }))
+    }
+  });
+
+  let sent = 0;
+  for (const preference of due) {
+    try {
+      const notifications = await prisma.notification.findMany({
+        where: { userId: preference.userId, channel: 'DIGEST', readAt: null, emailedAt: null },
+        orderBy: { createdAt: 'asc' },
+        take: DIGEST_MAX_ENTRIES
+      });
+
+      if (notifications.length > 0) {
+        await transport.send(buildDigestEmail(preference.email!, preference.digestFrequency, notifications));
+        await prisma.notification.updateMany({
+          where: { id: { in: notifications.map(notification => notification.id) } },
+          data: { emailedAt: now }
+        });
+        sent++;
+      }
+
+      // The next digest covers the following period, even when this one was empty
+      await prisma.notificationPreference.update({
+        where: { userId: preference.userId },
+        data: { lastDigestAt: now }
+      });
+    } catch (error) {
+      console.error(`Failed to send notification digest to ${preference.userId}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Periodically send due digests and retry failed notification emails
+ */
+export function startNotificationDigests() {
+  if (!getMailTransport()) return;
+
+  return setInterval(() => {
+    sendDueDigests().catch(error => {
+      console.error('Notification digest run failed:', error);
+    });
+    retryFailedNotificationEmails().catch(error => {
+      console.error('Notification email retry run failed:', error);
+    });
+  }, DIGEST_SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,120 @@
+import type { Notification, NotificationChannel, NotificationPreference, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { emitNotification, emitUnreadNotificationCount } from "./enhancedWebSocket";
+import { sendNotificationEmail } from "./notificationEmails";
+
+// Notification inbox
+// Every notification is stored before it is pushed to the user's notification rooms, so
+// it is still in the inbox after a reconnect. The WebSocket payload and the inbox entry
+// share the stored id, which clients use to mark it read. Users pick a channel per type
+// (see NotificationChannel); OFF notifications are dropped before they are stored.
+
+// Types users can set preferences for
+export const NOTIFICATION_TYPES = [
+  'application-received',
+  'application-status-changed',
+  'waitlist-offer',
+  'waitlist-accepted',
+  'invitation-received',
+  'comment-mention',
+  'task-assigned',
+  'collaborator-invited',
+  'collaborator-joined',
+  'collaborator-declined',
+  'collaborator-removed',
+  'effort-reviewed',
+  'attachment-quarantined',
+  'device-registered'
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['IN_APP', 'EMAIL', 'DIGEST', 'OFF'];
+
+export interface NotificationPayload {
+  type: string;
+  projectId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Store a notification and deliver it in real time. Never throws: a failed write still
+ * gets a live delivery so the caller's request is not affected.
+ */
+export async function notifyUser(userId: string, notification: NotificationPayload): Promise<void> {
+  try {
+    const { type, projectId, ...data } = notification;
+
+    const preference = await prisma.notificationPreference.findUnique({ where: { userId } });
+    const channel = resolveChannel(preference, type);
+    if (channel === 'OFF') return;
+
+    const stored = await prisma.notification.create({
+      data: {
+        userId,
+        type,
+        projectId: projectId ?? null,
+        // Round-trip through JSON so dates are stored the way clients receive them
+        data: JSON.parse(JSON.stringify(data)) as Prisma.InputJsonObject,
+        channel
+      }
+    });
+
+    emitNotification(userId, presentNotification(stored));
+
+    if (channel === 'EMAIL') {
+      sendNotificationEmail(stored).catch(error => {
+        console.error(`Failed to email ${type} notification to ${userId}:`, error);
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to store ${notification.type} notification for ${userId}:`, error);
+    emitNotification(userId, notification);
+  }
+}
+
+/**
+ * The channel a user wants a notification type delivered on
+ */
+export function resolveChannel(preference: Pick<NotificationPreference, 'channels'> | null, type: string): NotificationChannel {
+  const channels = (preference?.channels ?? {}) as Partial<Record<string, NotificationChannel>>;
+  return channels[type] ?? 'IN_APP';
+}
+
+/**
+ * Inbox entry in the same shape as the WebSocket payload
+ */
+export function presentNotification(notification: Notification) {
+  return {
+    ...(notification.data as Prisma.JsonObject),
+    id: notification.id,
+    type: notification.type,
+    projectId: notification.projectId,
+    isRead: notification.readAt !== null,
+    readAt: notification.readAt,
+    emailedAt: notification.emailedAt,
+    createdAt: notification.createdAt
+  };
+}
+
+/**
+ * Mark some (or all) of a user's notifications read and sync the unread count to their other sessions
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]) {
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(ids ? { id: { in: ids } } : {})
+    },
+    data: { readAt: new Date() }
+  });
+
+  const unreadCount = await prisma.notification.count({
+    where: { userId, readAt: null }
+  });
+
+  emitUnreadNotificationCount(userId, unreadCount);
+
+  return { updated: count, unreadCount };
+}
@@ -0,0 +1,83 @@
+import type { PendingAttachmentUpload } from "@prisma/client";
+import { prisma } from "../db";
+import { getStorage } from "./storage";
+
+// Presigned uploads
+// A presigned upload URL is only valid for the size the client declared, and every URL handed
+// out is recorded until the upload is completed. Uploads never completed leave an object in
+// storage that no attachment points at; once their URL has expired and a grace period has
+// passed for late completions, the sweep deletes the object and the record.
+
+const ABANDONED_UPLOAD_GRACE_MS = 60 * 60 * 1000; // 1 hour
+const ABANDONED_UPLOAD_SWEEP_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const ABANDONED_UPLOAD_SWEEP_BATCH = 100;
+
+/**
+ * Record a presigned upload URL that was handed out
+ */
+export async function trackPresignedUpload(upload: {
+  storageKey: string;
+  projectId: string;
+  uploaderId: string;
+  fileSize: number;
+  expiresAt: Date;
+}): Promise<PendingAttachmentUpload> {
+  return prisma.pendingAttachmentUpload.create({ data: upload });
+}
+
+/**
+ * The pending upload a completion refers to, if it was issued to this uploader for this project
+ */
+export async function findPresignedUpload(storageKey: string, projectId: string, uploaderId: string) {
+  return prisma.pendingAttachmentUpload.findFirst({
+    where: { storageKey, projectId, uploaderId }
+  });
+}
+
+/**
+ * Forget a pending upload once it was completed or rejected
+ */
+export async function releasePresignedUpload(storageKey: string) {
+  await prisma.pendingAttachmentUpload.deleteMany({ where: { storageKey } });
+}
+
+/**
+ * Delete objects of uploads that were never completed
+ */
+export async function expireAbandonedUploads(): Promise<number> {
+  const abandoned = await prisma.pendingAttachmentUpload.findMany({
+    where: { expiresAt: { lte: new Date(Date.now() - ABANDONED_UPLOAD_GRACE_MS) } },
+    orderBy: { expiresAt: 'asc' },
+    take: ABANDONED_UPLOAD_SWEEP_BATCH
+  });
+
+  for (const upload of abandoned) {
+    try {
+      // A completion that raced the sweep has already recorded the object
+      const completed = await prisma.projectAttachmentVersion.findUnique({
+        where: { storageKey: upload.storageKey },
+        select: { id: true }
+      });
+
+      if (!completed) {
+        await getStorage().delete(upload.storageKey);
+      }
+      await releasePresignedUpload(upload.storageKey);
+    } catch (error) {
+      console.error(`Failed to expire abandoned upload ${upload.storageKey}:`, error);
+    }
+  }
+
+  return abandoned.length;
+}
+
+/**
+ * Periodically delete abandoned uploads
+ */
+export function startAbandonedUploadSweep() {
+  return setInterval(() => {
+    expireAbandonedUploads().catch(error => {
+      console.error('Abandoned upload sweep failed:', error);
+    });
+  }, ABANDONED_UPLOAD_SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,51 @@
+import type { ApplicationStatus } from "@prisma/client";
+import { invalidateProjectAccess } from "./projectPermissions";
+import { removeUserFromProjectRoom } from "./enhancedWebSocket";
+import { requireKeyRotation } from "./conversationKeys";
+
+// Project membership changes
+// Students join a project through an accepted application and faculty through an active
+// collaboration or by sponsoring a proposal. Whatever the route, the change is applied here:
+// the cached access decision is dropped so room joins are re-checked, a member who left is
+// removed from the project's realtime channels, and an encrypted conversation is flagged
+// for key rotation.
+
+export type MembershipChange = 'joined' | 'left';
+
+/**
+ * Apply the effects of a user joining or leaving a project. Never throws, so the
+ * membership change itself is not affected.
+ */
+export async function applyMembershipChange(projectId: string, userId: string, change: MembershipChange) {
+  try {
+    await invalidateProjectAccess(userId, projectId);
+  } catch (error) {
+    console.error(`Failed to invalidate project access for ${userId} in project ${projectId}:`, error);
+  }
+
+  if (change === 'left') {
+    removeUserFromProjectRoom(userId, projectId);
+  }
+
+  await requireKeyRotation(projectId, {
+    reason: change === 'joined' ? 'member-added' : 'member-removed',
+    userId
+  });
+}
+
+/**
+ * Apply a membership change when an application status change (null toStatus for a
+ * deletion) makes the student a member or stops them being one
+ */
+export async function applyApplicationMembershipChange(
+  projectId: string,
+  studentId: string,
+  fromStatus: ApplicationStatus | null,
+  toStatus: ApplicationStatus | null
+) {
+  const wasMember = fromStatus === 'ACCEPTED';
+  const isMember = toStatus === 'ACCEPTED';
+  if (wasMember === isMember) return;
+
+  await applyMembershipChange(projectId, studentId, isMember ? 'joined' : 'left');
+}
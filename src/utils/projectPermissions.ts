@@ -0,0 +1,170 @@
+import type { CollaboratorRole, Project } from "@prisma/client";
+import { prisma } from "../db";
+import { getCache } from "./cache";
+
+// Project-level permissions
+// A user's role on a project is derived from authorship, an ACTIVE ProjectCollaborator
+// row or an ACCEPTED application. Routes and the WebSocket layer ask for a specific
+// action instead of comparing project.authorId directly.
+
+export type ProjectRole = CollaboratorRole | 'MEMBER';
+
+export type ProjectAction =
+  | 'view'                // members, tasks, attachments, comments, project rooms
+  | 'edit'                // project details and settings
+  | 'delete'              // archive the project
+  | 'manageCollaborators' // invite and remove co-supervisors/mentors
+  | 'reviewApplications'  // see applications and move them through the pipeline
+  | 'manageTasks'         // create tasks regardless of the project's task creation policy
+  | 'reviewEffort'        // approve, adjust or reject logged time
+  | 'moderateContent';    // edit/delete other people's attachments, delete their comments
+
+const ROLE_PERMISSIONS: Record<ProjectRole, ProjectAction[]> = {
+  OWNER: ['view', 'edit', 'delete', 'manageCollaborators', 'reviewApplications', 'manageTasks', 'reviewEffort', 'moderateContent'],
+  CO_SUPERVISOR: ['view', 'edit', 'reviewApplications', 'manageTasks', 'reviewEffort', 'moderateContent'],
+  MENTOR: ['view', 'manageTasks'],
+  MEMBER: ['view']
+};
+
+const ACCESS_CACHE_PREFIX = 'project_access';
+const ACCESS_CACHE_TTL = 300; // 5 minutes
+
+/**
+ * Whether a project role allows an action
+ */
+export function hasProjectPermission(role: ProjectRole | null, action: ProjectAction): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(action);
+}
+
+/**
+ * Task creation: supervisors and mentors always, accepted members when the project allows it
+ */
+export function canCreateTasks(project: Pick<Project, 'taskCreationPolicy'>, role: ProjectRole | null): boolean {
+  return hasProjectPermission(role, 'manageTasks') ||
+    (role === 'MEMBER' && project.taskCreationPolicy === 'MEMBERS');
+}
+
+/**
+ * Resolve a user's role on a project. The author is always an OWNER.
+ */
+export async function getProjectRole(
+  project: Pick<Project, 'id' | 'authorId'>,
+  userId: string
+): Promise<ProjectRole | null> {
+  if (project.authorId === userId) {
+    return 'OWNER';
+  }
+
+  const collaborator = await prisma.projectCollaborator.findUnique({
+    where: { projectId_userId: { projectId: project.id, userId } },
+    select: { role: true, status: true }
+  });
+
+  if (collaborator?.status === 'ACTIVE') {
+    return collaborator.role;
+  }
+
+  const membership = await prisma.appliedProject.findFirst({
+    where: { projectId: project.id, studentId: userId, status: 'ACCEPTED' },
+    select: { id: true }
+  });
+
+  return membership ? 'MEMBER' : null;
+}
+
+/**
+ * Load a project together with the caller's role on it (null project when not found)
+ */
+export async function getProjectAccess(projectId: string, userId: string): Promise<{
+  project: Project | null;
+  role: ProjectRole | null;
+}> {
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
+
+  if (!project) {
+    return { project: null, role: null };
+  }
+
+  return { project, role: await getProjectRole(project, userId) };
+}
+
+export interface ProjectMember {
+  id: string;
+  name: string;
+  role: 'faculty' | 'student';
+  projectRole: ProjectRole;
+  department: string | null;
+}
+
+/**
+ * Everyone with a role on a project: the owner, active co-supervisors and mentors, and accepted students
+ */
+export async function getProjectMembers(
+  project: Pick<Project, 'id' | 'authorId' | 'authorName' | 'authorDepartment'>
+): Promise<ProjectMember[]> {
+  const [collaborators, applications] = await Promise.all([
+    prisma.projectCollaborator.findMany({
+      where: { projectId: project.id, status: 'ACTIVE' },
+      select: { userId: true, userName: true, role: true }
+    }),
+    prisma.appliedProject.findMany({
+      where: { projectId: project.id, status: 'ACCEPTED' },
+      select: { studentId: true, studentName: true, studentDepartment: true }
+    })
+  ]);
+
+  return [
+    {
+      id: project.authorId,
+      name: project.authorName,
+      role: 'faculty',
+      projectRole: 'OWNER',
+      department: project.authorDepartment
+    },
+    ...collaborators.map((collaborator): ProjectMember => ({
+      id: collaborator.userId,
+      name: collaborator.userName,
+      role: 'faculty',
+      projectRole: collaborator.role,
+      department: null
+    })),
+    ...applications.map((application): ProjectMember => ({
+      id: application.studentId,
+      name: application.studentName,
+      role: 'student',
+      projectRole: 'MEMBER',
+      department: application.studentDepartment
+    }))
+  ];
+}
+
+/**
+ * Cached check used by the WebSocket layer when joining project rooms
+ */
+export async function canUserAccessProject(userId: string, projectId: string): Promise<boolean> {
+  const cache = getCache();
+  const cacheKey = `${ACCESS_CACHE_PREFIX}:${userId}:${projectId}`;
+
+  const cached = await cache.get(cacheKey);
+  if (cached) {
+    return JSON.parse(cached);
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, authorId: true, archivedAt: true }
+  });
+
+  const hasAccess = !!project && !project.archivedAt &&
+    hasProjectPermission(await getProjectRole(project, userId), 'view');
+
+  await cache.set(cacheKey, JSON.stringify(hasAccess), ACCESS_CACHE_TTL);
+  return hasAccess;
+}
+
+/**
+ * Drop a cached access decision after someone joins or leaves a project
+ */
+export async function invalidateProjectAccess(userId: string, projectId: string): Promise<void> {
+  await getCache().del(`${ACCESS_CACHE_PREFIX}:${userId}:${projectId}`);
+}
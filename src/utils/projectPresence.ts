@@ -0,0 +1,394 @@
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { prisma } from '../db';
+import type { SocketUserData } from './enhancedWebSocket';
+import type { TypingIndicator } from './e2eeWebSocket';
+import { getClusterRedisClient } from './socketCluster';
+
+// Presence and typing in project rooms
+// A socket is present in a project while it is in the project's room. Its entry is refreshed
+// by the presence sweep while the socket stays connected and expires otherwise, so sockets on
+// a crashed instance go offline by themselves. A user is online when any of their sockets in
+// the project was active (activity, ping or typing) recently, idle when none was, and offline
+// with no sockets. Status changes are broadcast as `presence-update` to the project room.
+// Typing indicators are relayed, not stored, and only from sockets in the project room (which
+// join-project grants only to members).
+
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+const PRESENCE_SWEEP_MS = 30 * 1000;
+const PRESENCE_TTL_MS = 90 * 1000;
+const PRESENCE_IDLE_MS = 5 * 60 * 1000;
+const TYPING_MIN_INTERVAL_MS = 2000;
+const TYPING_TIMEOUT_MS = 6000;
+const KEY_PREFIX = 'ws:';
+
+interface PresenceEntry {
+  userId: string;
+  socketId: string;
+  lastSeen: number;
+  lastActivity: number;
+}
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus;
+  lastActivity: string | null;
+  connections: number;
+}
+
+interface ProjectPresenceStore {
+  upsert(projectId: string, entry: Omit<PresenceEntry, 'lastSeen'>): Promise<void>;
+  remove(projectId: string, socketId: string): Promise<void>;
+  // Live entries; expired ones are dropped
+  entries(projectId: string): Promise<PresenceEntry[]>;
+  // Record the statuses last broadcast for a project and return the previous ones
+  swapStatuses(projectId: string, statuses: Record<string, PresenceStatus>): Promise<Record<string, PresenceStatus>>;
+}
+
+/**
+ * Presence for a single instance
+ */
+class InMemoryProjectPresenceStore implements ProjectPresenceStore {
+  private projects = new Map<string, Map<string, PresenceEntry>>();
+  private statuses = new Map<string, Record<string, PresenceStatus>>();
+
+  async upsert(projectId: string, entry: Omit<PresenceEntry, 'lastSeen'>) {
+    if (!this.projects.has(projectId)) {
+      this.projects.set(projectId, new Map());
+    }
+    this.projects.get(projectId)!.set(entry.socketId, { ...entry, lastSeen: Date.now() });
+  }
+
+  async remove(projectId: string, socketId: string) {
+    this.projects.get(projectId)?.delete(socketId);
+  }
+
+  async entries(projectId: string) {
+    const entries = this.projects.get(projectId);
+    if (!entries) return [];
+
+    const cutoff = Date.now() - PRESENCE_TTL_MS;
+    for (const [socketId, entry] of entries) {
+      if (entry.lastSeen < cutoff) entries.delete(socketId);
+    }
+    if (entries.size === 0) {
+      this.projects.delete(projectId);
+    }
+    return Array.from(entries.values());
+  }
+
+  async swapStatuses(projectId: string, statuses: Record<string, PresenceStatus>) {
+    const previous = this.statuses.get(projectId) ?? {};
+    if (Object.keys(statuses).length === 0) {
+      this.statuses.delete(projectId);
+    } else {
+      this.statuses.set(projectId, statuses);
+    }
+    return previous;
+  }
+}
+
+/**
+ * Presence shared by every instance through Redis: one hash of socket entries per project
+ */
+class RedisProjectPresenceStore implements ProjectPresenceStore {
+  constructor(private client: any) {}
+
+  private entriesKey(projectId: string) {
+    return `${KEY_PREFIX}presence:${projectId}`;
+  }
+
+  private statusKey(projectId: string) {
+    return `${KEY_PREFIX}presence-status:${projectId}`;
+  }
+
+  async upsert(projectId: string, entry: Omit<PresenceEntry, 'lastSeen'>) {
+    const key = this.entriesKey(projectId);
+    await this.client.multi()
+      .hSet(key, entry.socketId, JSON.stringify({ ...entry, lastSeen: Date.now() }))
+      .pExpire(key, PRESENCE_TTL_MS)
+      .exec();
+  }
+
+  async remove(projectId: string, socketId: string) {
+    await this.client.hDel(this.entriesKey(projectId), socketId);
+  }
+
+  async entries(projectId: string) {
+    const key = this.entriesKey(projectId);
+    const raw: Record<string, string> = await this.client.hGetAll(key);
+    const cutoff = Date.now() - PRESENCE_TTL_MS;
+
+    const live: PresenceEntry[] = [];
+    const expired: string[] = [];
+    for (const [socketId, value] of Object.entries(raw)) {
+      const entry = JSON.parse(value) as PresenceEntry;
+      if (entry.lastSeen < cutoff) expired.push(socketId);
+      else live.push(entry);
+    }
+
+    if (expired.length > 0) {
+      await this.client.hDel(key, expired);
+    }
+    return live;
+  }
+
+  async swapStatuses(projectId: string, statuses: Record<string, PresenceStatus>) {
+    const key = this.statusKey(projectId);
+    const multi = this.client.multi().hGetAll(key).del(key);
+    if (Object.keys(statuses).length > 0) {
+      multi.hSet(key, statuses).pExpire(key, PRESENCE_TTL_MS);
+    }
+    const [previous] = await multi.exec();
+    return previous as Record<string, PresenceStatus>;
+  }
+}
+
+const memoryStore = new InMemoryProjectPresenceStore();
+let redisStore: RedisProjectPresenceStore | null = null;
+
+function getStore(): ProjectPresenceStore {
+  const client = getClusterRedisClient();
+  if (!client) return memoryStore;
+
+  if (!redisStore) {
+    redisStore = new RedisProjectPresenceStore(client);
+  }
+  return redisStore;
+}
+
+/**
+ * Status of each user with a socket in the project
+ */
+export async function getProjectPresence(projectId: string): Promise<UserPresence[]> {
+  const now = Date.now();
+  const byUser = new Map<string, UserPresence & { lastActivityMs: number }>();
+
+  for (const entry of await getStore().entries(projectId)) {
+    const current = byUser.get(entry.userId);
+    const lastActivityMs = Math.max(current?.lastActivityMs ?? 0, entry.lastActivity);
+    byUser.set(entry.userId, {
+      userId: entry.userId,
+      status: now - lastActivityMs < PRESENCE_IDLE_MS ? 'online' : 'idle',
+      lastActivity: new Date(lastActivityMs).toISOString(),
+      connections: (current?.connections ?? 0) + 1,
+      lastActivityMs
+    });
+  }
+
+  return Array.from(byUser.values()).map(({ lastActivityMs, ...presence }) => presence);
+}
+
+let io: SocketIOServer | null = null;
+
+// Broadcast every status that changed since the last broadcast for the project
+async function syncProjectPresence(projectId: string) {
+  if (!io) return;
+
+  const presence = await getProjectPresence(projectId);
+  const statuses = Object.fromEntries(presence.map(user => [user.userId, user.status]));
+  const previous = await getStore().swapStatuses(projectId, statuses);
+
+  const changed = [
+    ...presence.filter(user => previous[user.userId] !== user.status),
+    ...Object.keys(previous)
+      .filter(userId => !(userId in statuses))
+      .map((userId): UserPresence => ({ userId, status: 'offline', lastActivity: null, connections: 0 }))
+  ];
+
+  for (const user of changed) {
+    io.to(`project:${projectId}`).emit('presence-update', {
+      projectId,
+      ...user,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+function projectIdsOf(socket: Socket): string[] {
+  return Array.from(socket.rooms)
+    .filter(room => room.startsWith('project:'))
+    .map(room => room.slice('project:'.length));
+}
+
+async function recordSocket(socket: Socket, projectId: string) {
+  const userData: SocketUserData = socket.data;
+  await getStore().upsert(projectId, {
+    userId: userData.userId,
+    socketId: socket.id,
+    lastActivity: userData.lastActivity.getTime()
+  });
+}
+
+/**
+ * Record a socket that joined a project room and announce it
+ */
+export async function joinProjectPresence(socket: Socket, projectId: string) {
+  await recordSocket(socket, projectId);
+  await syncProjectPresence(projectId);
+}
+
+/**
+ * Drop a socket that left a project room and announce it
+ */
+export async function leaveProjectPresence(socket: Socket, projectId: string) {
+  await getStore().remove(projectId, socket.id);
+  await syncProjectPresence(projectId);
+}
+
+/**
+ * Record activity on a socket; a user coming back from idle is announced right away
+ */
+export async function markActive(socket: Socket) {
+  const userData: SocketUserData = socket.data;
+  const wasIdle = Date.now() - userData.lastActivity.getTime() >= PRESENCE_IDLE_MS;
+  userData.lastActivity = new Date();
+
+  if (wasIdle) {
+    for (const projectId of projectIdsOf(socket)) {
+      await joinProjectPresence(socket, projectId);
+    }
+  }
+}
+
+// Active typing per socket: scope key -> auto-stop timer
+// Per socket: the running indicator timer and the last accepted typing-start of each scope
+const typingTimers = new Map<string, Map<string, NodeJS.Timeout>>();
+const typingStartedAt = new Map<string, Map<string, number>>();
+// Per socket: when a typing-start last named a task or thread outside its project
+const typingRejectedAt = new Map<string, number>();
+
+function typingScopeKey(data: { projectId: string; taskId?: string; parentId?: string }) {
+  return `${data.projectId}:${data.taskId ?? ''}:${data.parentId ?? ''}`;
+}
+
+function emitTyping(socket: Socket, data: { projectId: string; taskId?: string; parentId?: string }, isTyping: boolean) {
+  const userData: SocketUserData = socket.data;
+  const indicator: TypingIndicator = {
+    userId: userData.userId,
+    projectId: data.projectId,
+    ...(data.taskId ? { taskId: data.taskId } : {}),
+    ...(data.parentId ? { parentId: data.parentId } : {}),
+    isTyping,
+    timestamp: new Date().toISOString()
+  };
+  socket.to(`project:${data.projectId}`).emit('user-typing', indicator);
+}
+
+function stopTyping(socket: Socket, data: { projectId: string; taskId?: string; parentId?: string }) {
+  const key = typingScopeKey(data);
+  const timers = typingTimers.get(socket.id);
+  const timer = timers?.get(key);
+  if (!timer) return;
+
+  clearTimeout(timer);
+  timers!.delete(key);
+  typingStartedAt.get(socket.id)?.delete(key);
+  emitTyping(socket, data, false);
+}
+
+// The task or thread must belong to the project
+async function isValidTypingScope(data: { projectId: string; taskId?: string; parentId?: string }) {
+  if (data.taskId) {
+    const task = await prisma.projectTask.findUnique({ where: { id: data.taskId }, select: { projectId: true } });
+    if (task?.projectId !== data.projectId) return false;
+  }
+  if (data.parentId) {
+    const comment = await prisma.comment.findUnique({ where: { id: data.parentId }, select: { projectId: true } });
+    if (comment?.projectId !== data.projectId) return false;
+  }
+  return true;
+}
+
+/**
+ * Presence and typing handlers for a connected socket
+ */
+export function registerPresenceHandlers(socket: Socket) {
+  // typing-start is accepted at most every TYPING_MIN_INTERVAL_MS per scope and stops by
+  // itself after TYPING_TIMEOUT_MS unless renewed. After an invalid scope, the socket's
+  // typing-start events are ignored for TYPING_MIN_INTERVAL_MS, which bounds scope lookups.
+  socket.on('typing-start', async (data: { projectId: string; taskId?: string; parentId?: string }) => {
+    try {
+      if (!data?.projectId || !socket.rooms.has(`project:${data.projectId}`)) return;
+
+      const key = typingScopeKey(data);
+      const now = Date.now();
+      if (now - (typingRejectedAt.get(socket.id) ?? 0) < TYPING_MIN_INTERVAL_MS) return;
+
+      if (!typingStartedAt.has(socket.id)) {
+        typingStartedAt.set(socket.id, new Map());
+      }
+      const startedAt = typingStartedAt.get(socket.id)!;
+      if (now - (startedAt.get(key) ?? 0) < TYPING_MIN_INTERVAL_MS) return;
+      startedAt.set(key, now);
+
+      if (!(await isValidTypingScope(data))) {
+        startedAt.delete(key);
+        typingRejectedAt.set(socket.id, now);
+        return;
+      }
+
+      await markActive(socket);
+
+      if (!typingTimers.has(socket.id)) {
+        typingTimers.set(socket.id, new Map());
+      }
+      const timers = typingTimers.get(socket.id)!;
+      const wasTyping = timers.has(key);
+      clearTimeout(timers.get(key));
+      timers.set(key, setTimeout(() => stopTyping(socket, data), TYPING_TIMEOUT_MS));
+
+      if (!wasTyping) {
+        emitTyping(socket, data, true);
+      }
+    } catch (error) {
+      console.error('Error handling typing start:', error);
+    }
+  });
+
+  socket.on('typing-stop', (data: { projectId: string; taskId?: string; parentId?: string }) => {
+    if (!data?.projectId) return;
+    stopTyping(socket, data);
+  });
+
+  // Rooms are still listed while disconnecting
+  socket.on('disconnecting', () => {
+    for (const [key, timer] of typingTimers.get(socket.id) ?? []) {
+      clearTimeout(timer);
+      const [projectId, taskId, parentId] = key.split(':');
+      emitTyping(socket, { projectId, taskId: taskId || undefined, parentId: parentId || undefined }, false);
+    }
+    typingTimers.delete(socket.id);
+    typingStartedAt.delete(socket.id);
+    typingRejectedAt.delete(socket.id);
+
+    for (const projectId of projectIdsOf(socket)) {
+      leaveProjectPresence(socket, projectId)
+        .catch(error => console.error(`Failed to clear presence in project ${projectId}:`, error));
+    }
+  });
+}
+
+/**
+ * Refresh this instance's sockets and broadcast idle/offline transitions
+ */
+export function startPresenceSweep(server: SocketIOServer) {
+  io = server;
+
+  return setInterval(async () => {
+    const projectIds = new Set<string>();
+
+    for (const socket of server.sockets.sockets.values()) {
+      for (const projectId of projectIdsOf(socket)) {
+        projectIds.add(projectId);
+        await recordSocket(socket, projectId)
+          .catch(error => console.error(`Failed to refresh presence in project ${projectId}:`, error));
+      }
+    }
+
+    for (const projectId of projectIds) {
+      await syncProjectPresence(projectId)
+        .catch(error => console.error(`Failed to sync presence in project ${projectId}:`, error));
+    }
+  }, PRESENCE_SWEEP_MS);
+}
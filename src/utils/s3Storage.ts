@@ -0,0 +1,173 @@
+import { createHash, createHmac } from "crypto";
+import { Readable } from "stream";
+import type { StorageDriver } from "./storage";
+
+// S3-compatible storage driver
+// Talks to AWS S3, MinIO or any other S3-compatible endpoint with hand-rolled Signature V4,
+// so no SDK is needed for the handful of calls the service makes (PUT, GET, DELETE and
+// presigned GET/PUT URLs). Path-style addressing is the default because MinIO expects it.
+
+export interface S3StorageConfig {
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// RFC 3986 encoding as required by SigV4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function amzDate(date: Date): { timestamp: string; day: string } {
+  const timestamp = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return { timestamp, day: timestamp.slice(0, 8) };
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  private objectUrl(key: string): URL {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const endpoint = new URL(this.config.endpoint ?? `https://s3.${this.config.region}.amazonaws.com`);
+
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${this.config.bucket}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`);
+  }
+
+  private signature(stringToSign: string, day: string): string {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, day);
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, 's3');
+    const signingKey = hmac(serviceKey, 'aws4_request');
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private canonicalQuery(params: URLSearchParams): string {
+    return Array.from(params.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+      .join('&');
+  }
+
+  private stringToSign(method: string, url: URL, headers: Record<string, string>, payloadHash: string, timestamp: string, scope: string) {
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers).sort().map(name => `${name}:${headers[name].trim()}\n`).join('');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      this.canonicalQuery(url.searchParams),
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    return {
+      signedHeaders,
+      stringToSign: ['AWS4-HMAC-SHA256', timestamp, scope, sha256Hex(canonicalRequest)].join('\n')
+    };
+  }
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const url = this.objectUrl(key);
+    const { timestamp, day } = amzDate(new Date());
+    const scope = `${day}/${this.config.region}/s3/aws4_request`;
+    const payloadHash = body ? sha256Hex(body) : sha256Hex('');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': timestamp
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    const { signedHeaders, stringToSign } = this.stringToSign(method, url, headers, payloadHash, timestamp, scope);
+    const authorization = `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${this.signature(stringToSign, day)}`;
+
+    const { host, ...sendHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: { ...sendHeaders, authorization },
+      body: body ? new Uint8Array(body) : undefined
+    });
+  }
+
+  // Headers in signedHeaders must be sent with exactly these values when the URL is used
+  private presign(
+    method: string,
+    key: string,
+    expiresInSeconds: number,
+    extraParams: Record<string, string> = {},
+    signedHeaders: Record<string, string> = {}
+  ): string {
+    const url = this.objectUrl(key);
+    const { timestamp, day } = amzDate(new Date());
+    const scope = `${day}/${this.config.region}/s3/aws4_request`;
+    const headers = { host: url.host, ...signedHeaders };
+
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${this.config.accessKeyId}/${scope}`);
+    url.searchParams.set('X-Amz-Date', timestamp);
+    url.searchParams.set('X-Amz-Expires', String(expiresInSeconds));
+    url.searchParams.set('X-Amz-SignedHeaders', Object.keys(headers).sort().join(';'));
+    for (const [name, value] of Object.entries(extraParams)) {
+      url.searchParams.set(name, value);
+    }
+
+    const { stringToSign } = this.stringToSign(method, url, headers, UNSIGNED_PAYLOAD, timestamp, scope);
+    const query = `${this.canonicalQuery(url.searchParams)}&X-Amz-Signature=${this.signature(stringToSign, day)}`;
+    return `${url.origin}${url.pathname}?${query}`;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT failed with status ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new Error("OBJECT_NOT_FOUND");
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`S3 GET failed with status ${response.status}`);
+    }
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE failed with status ${response.status}`);
+    }
+  }
+
+  async getDownloadUrl(key: string, fileName: string, expiresInSeconds: number): Promise<string> {
+    return this.presign('GET', key, expiresInSeconds, {
+      'response-content-disposition': `attachment; filename*=UTF-8''${encodeRfc3986(fileName)}`
+    });
+  }
+
+  async getUploadUrl(key: string, expiresInSeconds: number, contentLength: number): Promise<string> {
+    // S3 rejects a PUT whose Content-Length differs from the signed one
+    return this.presign('PUT', key, expiresInSeconds, {}, { 'content-length': String(contentLength) });
+  }
+}
@@ -0,0 +1,253 @@
+import { randomUUID } from 'crypto';
+import os from 'os';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { env } from '../config/env';
+
+// Socket.IO across instances
+// With REDIS_URL set, room emits go through the Redis adapter so they reach sockets on every
+// instance, and presence (which user holds which socket) is kept in Redis so connection stats
+// are cluster-wide. Each instance owns one hash of its sockets that expires unless the
+// instance keeps heartbeating, so a crashed instance's sockets drop out on their own.
+// Without Redis the service runs single-instance with presence in process memory.
+
+const KEY_PREFIX = 'ws:';
+const INSTANCES_KEY = `${KEY_PREFIX}instances`;
+const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+const INSTANCE_TTL_SECONDS = 60;
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export interface PresenceStats {
+  totalConnections: number;
+  uniqueUsers: number;
+  instances: number;
+}
+
+export interface PresenceStore {
+  readonly mode: 'redis' | 'single-instance';
+  addSocket(userId: string, socketId: string): Promise<void>;
+  removeSocket(userId: string, socketId: string): Promise<void>;
+  getUserSocketCount(userId: string): Promise<number>;
+  getStats(): Promise<PresenceStats>;
+  close(): Promise<void>;
+}
+
+/**
+ * Presence for a single instance
+ */
+class InMemoryPresenceStore implements PresenceStore {
+  readonly mode = 'single-instance' as const;
+  private connections = new Map<string, Set<string>>(); // userId -> Set of socketIds
+
+  async addSocket(userId: string, socketId: string) {
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Set());
+    }
+    this.connections.get(userId)!.add(socketId);
+  }
+
+  async removeSocket(userId: string, socketId: string) {
+    const sockets = this.connections.get(userId);
+    if (sockets) {
+      sockets.delete(socketId);
+      if (sockets.size === 0) {
+        this.connections.delete(userId);
+      }
+    }
+  }
+
+  async getUserSocketCount(userId: string) {
+    return this.connections.get(userId)?.size ?? 0;
+  }
+
+  async getStats() {
+    let totalConnections = 0;
+    for (const sockets of this.connections.values()) {
+      totalConnections += sockets.size;
+    }
+    return { totalConnections, uniqueUsers: this.connections.size, instances: 1 };
+  }
+
+  async close() {
+    this.connections.clear();
+  }
+}
+
+/**
+ * Presence shared by every instance through Redis
+ */
+class RedisPresenceStore implements PresenceStore {
+  readonly mode = 'redis' as const;
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(private client: any) {
+    this.heartbeat = setInterval(() => {
+      this.touch().catch(error => console.error('WebSocket presence heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private socketsKey(instanceId: string) {
+    return `${KEY_PREFIX}sockets:${instanceId}`;
+  }
+
+  // Keep this instance (and its sockets) alive for another TTL
+  async touch() {
+    await this.client.multi()
+      .zAdd(INSTANCES_KEY, { score: Date.now(), value: INSTANCE_ID })
+      .expire(this.socketsKey(INSTANCE_ID), INSTANCE_TTL_SECONDS)
+      .exec();
+  }
+
+  async addSocket(userId: string, socketId: string) {
+    await this.client.multi()
+      .hSet(this.socketsKey(INSTANCE_ID), socketId, userId)
+      .expire(this.socketsKey(INSTANCE_ID), INSTANCE_TTL_SECONDS)
+      .zAdd(INSTANCES_KEY, { score: Date.now(), value: INSTANCE_ID })
+      .exec();
+  }
+
+  async removeSocket(_userId: string, socketId: string) {
+    await this.client.hDel(this.socketsKey(INSTANCE_ID), socketId);
+  }
+
+  // Instances that heartbeated within the TTL; stale ones are pruned
+  private async liveInstances(): Promise<string[]> {
+    const cutoff = Date.now() - INSTANCE_TTL_SECONDS * 1000;
+    await this.client.zRemRangeByScore(INSTANCES_KEY, 0, cutoff);
+    return this.client.zRangeByScore(INSTANCES_KEY, cutoff, '+inf');
+  }
+
+  // userId of every socket in the cluster
+  private async allSocketUsers(): Promise<{ instances: number; userIds: string[] }> {
+    const instances = await this.liveInstances();
+    if (instances.length === 0) {
+      return { instances: 0, userIds: [] };
+    }
+
+    const multi = this.client.multi();
+    for (const instanceId of instances) {
+      multi.hVals(this.socketsKey(instanceId));
+    }
+    const results: string[][] = await multi.exec();
+
+    return { instances: instances.length, userIds: results.flat() };
+  }
+
+  async getUserSocketCount(userId: string) {
+    const { userIds } = await this.allSocketUsers();
+    return userIds.filter(id => id === userId).length;
+  }
+
+  async getStats() {
+    const { instances, userIds } = await this.allSocketUsers();
+    return {
+      totalConnections: userIds.length,
+      uniqueUsers: new Set(userIds).size,
+      instances
+    };
+  }
+
+  async close() {
+    clearInterval(this.heartbeat);
+    await this.client.multi()
+      .del(this.socketsKey(INSTANCE_ID))
+      .zRem(INSTANCES_KEY, INSTANCE_ID)
+      .exec();
+  }
+}
+
+let presenceStore: PresenceStore = new InMemoryPresenceStore();
+let redisClients: any[] = [];
+let sharedClient: any = null;
+let subscriberClient: any = null;
+
+async function connectRedisClient(name: string) {
+  const { createClient } = await import('redis');
+  let ready = false;
+  const client = createClient({
+    url: env.REDIS_URL,
+    socket: {
+      connectTimeout: 5000,
+      reconnectStrategy: (retries) => {
+        // An unreachable server at startup means single-instance mode, not a stalled boot
+        if (!ready && retries >= 3) {
+          return new Error('Redis unreachable');
+        }
+        return Math.min(retries * 100, 5000);
+      }
+    }
+  });
+
+  client.on('error', (err: any) => {
+    console.error(`WebSocket Redis ${name} client error:`, err);
+  });
+
+  client.on('ready', () => {
+    ready = true;
+    console.log(`WebSocket Redis ${name} client ready`);
+  });
+
+  await client.connect();
+  return client;
+}
+
+/**
+ * Connect the Redis adapter and presence store. Resolves to the adapter to give the
+ * Socket.IO server, or undefined (single-instance mode) when Redis is absent or unreachable.
+ */
+export async function setupSocketCluster(): Promise<ReturnType<typeof createAdapter> | undefined> {
+  if (!env.REDIS_URL) {
+    console.log('REDIS_URL not set - WebSocket running in single-instance mode');
+    return undefined;
+  }
+
+  try {
+    const pubClient = await connectRedisClient('pub');
+    redisClients.push(pubClient);
+    const subClient = await connectRedisClient('sub');
+    redisClients.push(subClient);
+
+    const store = new RedisPresenceStore(pubClient);
+    await store.touch();
+    presenceStore = store;
+    sharedClient = pubClient;
+    subscriberClient = subClient;
+
+    console.log(`✅ WebSocket cluster mode enabled (instance ${INSTANCE_ID})`);
+    return createAdapter(pubClient, subClient, { key: 'socket.io' });
+  } catch (error) {
+    console.warn('Redis not available, WebSocket falling back to single-instance mode:', error);
+    await Promise.all(redisClients.map(client => client.quit().catch(() => undefined)));
+    redisClients = [];
+    return undefined;
+  }
+}
+
+export function getPresenceStore(): PresenceStore {
+  return presenceStore;
+}
+
+/**
+ * Redis client for other cluster-wide WebSocket state, or null in single-instance mode
+ */
+export function getClusterRedisClient(): any | null {
+  return sharedClient;
+}
+
+/**
+ * The adapter's subscriber connection, for other cluster-wide channels, or null in single-instance mode
+ */
+export function getClusterSubscriber(): any | null {
+  return subscriberClient;
+}
+
+/**
+ * Remove this instance's sockets from shared presence and close the Redis clients
+ */
+export async function closeSocketCluster() {
+  await presenceStore.close();
+  await Promise.all(redisClients.map(client => client.quit()));
+  redisClients = [];
+  sharedClient = null;
+  subscriberClient = null;
+}
@@ -0,0 +1,160 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { env } from "../config/env";
+import { detectMimeType, sanitizeFilename } from "../middlewares/fileValidation";
+import { S3StorageDriver } from "./s3Storage";
+
+// Attachment storage
+// Uploaded bytes go through a StorageDriver chosen by STORAGE_DRIVER. Objects are keyed
+// projects/<projectId>/<uploaderId>/<uuid>/<fileName>, so a key handed out for a
+// presigned upload can be tied back to the project and uploader that requested it.
+// Downloads always go through GET /v1/attachments/:id/download, which re-checks access
+// before streaming the file or redirecting to a short-lived presigned URL.
+
+// Bytes kept from the start of a file for magic-byte detection
+const MIME_SNIFF_BYTES = 4100;
+
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  // Drivers that can hand out direct URLs (S3) implement these; others stream through the service
+  getDownloadUrl?(key: string, fileName: string, expiresInSeconds: number): Promise<string>;
+  // The upload must be exactly contentLength bytes
+  getUploadUrl?(key: string, expiresInSeconds: number, contentLength: number): Promise<string>;
+}
+
+export interface FileInspection {
+  size: number;
+  checksum: string;
+  mimeType: string;
+}
+
+class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error("INVALID_STORAGE_KEY");
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new Error("OBJECT_NOT_FOUND");
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Storage factory
+let storageInstance: StorageDriver | null = null;
+
+export function getStorage(): StorageDriver {
+  if (!storageInstance) {
+    if (env.STORAGE_DRIVER === 's3') {
+      storageInstance = new S3StorageDriver({
+        endpoint: env.S3_ENDPOINT,
+        region: env.S3_REGION,
+        bucket: env.S3_BUCKET!,
+        accessKeyId: env.S3_ACCESS_KEY_ID!,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE
+      });
+    } else {
+      storageInstance = new LocalStorageDriver(env.STORAGE_LOCAL_DIR);
+    }
+  }
+  return storageInstance;
+}
+
+/**
+ * Key prefix every object uploaded by a user to a project starts with
+ */
+export function attachmentKeyPrefix(projectId: string, uploaderId: string): string {
+  return `projects/${projectId}/${uploaderId}/`;
+}
+
+/**
+ * New storage key for an upload
+ */
+export function createAttachmentKey(projectId: string, uploaderId: string, fileName: string): string {
+  return `${attachmentKeyPrefix(projectId, uploaderId)}${randomUUID()}/${sanitizeFilename(fileName)}`;
+}
+
+/**
+ * Size, SHA-256 checksum and detected MIME type of an in-memory upload
+ */
+export function inspectFile(body: Buffer, fileName: string): FileInspection {
+  return {
+    size: body.length,
+    checksum: createHash('sha256').update(body).digest('hex'),
+    mimeType: detectMimeType(body.subarray(0, MIME_SNIFF_BYTES), fileName)
+  };
+}
+
+/**
+ * Same as inspectFile, reading an object back from storage (used after presigned uploads)
+ */
+export async function inspectStoredObject(key: string, fileName: string): Promise<FileInspection> {
+  const stream = await getStorage().get(key);
+  const hash = createHash('sha256');
+  const head: Buffer[] = [];
+  let headLength = 0;
+  let size = 0;
+
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    hash.update(buffer);
+    size += buffer.length;
+    if (headLength < MIME_SNIFF_BYTES) {
+      head.push(buffer);
+      headLength += buffer.length;
+    }
+  }
+
+  return {
+    size,
+    checksum: hash.digest('hex'),
+    mimeType: detectMimeType(Buffer.concat(head).subarray(0, MIME_SNIFF_BYTES), fileName)
+  };
+}
+
+/**
+ * Storage reference kept in ProjectAttachment.fileUrl for uploaded files
+ */
+export function storageUri(driver: StorageDriver, key: string): string {
+  return `${driver.name}://${key}`;
+}
+
+/**
+ * Adds the authenticated download path to attachments. Uploaded files are only reachable
+ * through it; link-only attachments keep their external fileUrl.
+ */
+export function withDownloadUrl<T extends { id: string; fileUrl: string; storageKey: string | null }>(attachment: T) {
+  return {
+    ...attachment,
+    downloadUrl: attachment.storageKey ? `/v1/attachments/${attachment.id}/download` : attachment.fileUrl
+  };
+}
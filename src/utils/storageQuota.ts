@@ -0,0 +1,258 @@
+import type { CollegeStorageQuota, Prisma, ProjectType } from "@prisma/client";
+import { prisma } from "../db";
+
+// Storage quotas
+// Every stored file version counts against three limits: its project (by ProjectType, as
+// research projects carry datasets), its uploader and its college. Superseded versions and
+// quarantined files still occupy storage, so they count too; link-only attachments do not.
+// Colleges can override any limit through CollegeStorageQuota; limits are kept in MB.
+
+export const DEFAULT_PROJECT_QUOTA_MB: Record<ProjectType, number> = {
+  PROJECT: 1024,
+  RESEARCH: 5120,
+  PAPER_PUBLISH: 1024,
+  OTHER: 512
+};
+export const DEFAULT_UPLOADER_QUOTA_MB = 2048;
+export const DEFAULT_COLLEGE_QUOTA_MB = 200 * 1024;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Only versions with bytes in storage use quota
+const STORED_FILES: Prisma.ProjectAttachmentVersionWhereInput = { storageKey: { not: null } };
+
+export type StorageQuotaScope = 'PROJECT' | 'UPLOADER' | 'COLLEGE';
+
+export interface StorageLimits {
+  projectBytes: number;
+  uploaderBytes: number;
+  collegeBytes: number;
+}
+
+export class StorageQuotaExceededError extends Error {
+  readonly code = 'STORAGE_QUOTA_EXCEEDED';
+
+  constructor(
+    public scope: StorageQuotaScope,
+    public limitBytes: number,
+    public usedBytes: number,
+    public requestedBytes: number
+  ) {
+    super(`${scope.charAt(0)}${scope.slice(1).toLowerCase()} storage quota exceeded: ${formatMb(usedBytes)} of ${formatMb(limitBytes)} used, upload needs ${formatMb(requestedBytes)}`);
+    this.name = 'StorageQuotaExceededError';
+  }
+
+  get details() {
+    return {
+      scope: this.scope,
+      limitBytes: this.limitBytes,
+      usedBytes: this.usedBytes,
+      requestedBytes: this.requestedBytes
+    };
+  }
+}
+
+function formatMb(bytes: number): string {
+  return `${Math.round((bytes / BYTES_PER_MB) * 10) / 10}MB`;
+}
+
+/**
+ * Effective limits for a project type under a college's quota settings
+ */
+export function resolveStorageLimits(quota: CollegeStorageQuota | null, projectType: ProjectType): StorageLimits {
+  const projectLimits = (quota?.projectLimitsMb ?? {}) as Partial<Record<ProjectType, number>>;
+
+  return {
+    projectBytes: (projectLimits[projectType] ?? DEFAULT_PROJECT_QUOTA_MB[projectType]) * BYTES_PER_MB,
+    uploaderBytes: (quota?.uploaderLimitMb ?? DEFAULT_UPLOADER_QUOTA_MB) * BYTES_PER_MB,
+    collegeBytes: (quota?.collegeLimitMb ?? DEFAULT_COLLEGE_QUOTA_MB) * BYTES_PER_MB
+  };
+}
+
+async function sumStoredBytes(client: Prisma.TransactionClient, where: Prisma.ProjectAttachmentVersionWhereInput): Promise<number> {
+  const result = await client.projectAttachmentVersion.aggregate({
+    _sum: { fileSize: true },
+    where: { ...STORED_FILES, ...where }
+  });
+  return result._sum.fileSize ?? 0;
+}
+
+/**
+ * Serialize quota checks with the inserts that follow them until the transaction ends. One
+ * lock per college: its total covers every project and uploader in it, so narrower locks
+ * would still let concurrent uploads overrun it together.
+ */
+export async function lockStorageQuota(tx: Prisma.TransactionClient, collegeId: string) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`storage-quota:${collegeId}`}))`;
+}
+
+/**
+ * Reject an upload of requestedBytes that would take the project, uploader or college over its limit.
+ * Outside a transaction this is an early check only; the binding one runs in the transaction
+ * that records the file, after lockStorageQuota.
+ */
+export async function assertStorageQuota(
+  project: { id: string; collegeId: string; projectType: ProjectType },
+  uploaderId: string,
+  requestedBytes: number,
+  client: Prisma.TransactionClient = prisma
+) {
+  const [quota, projectBytes, uploaderBytes, collegeBytes] = await Promise.all([
+    client.collegeStorageQuota.findUnique({ where: { collegeId: project.collegeId } }),
+    sumStoredBytes(client, { attachment: { projectId: project.id } }),
+    sumStoredBytes(client, { uploaderId, attachment: { project: { collegeId: project.collegeId } } }),
+    sumStoredBytes(client, { attachment: { project: { collegeId: project.collegeId } } })
+  ]);
+
+  const limits = resolveStorageLimits(quota, project.projectType);
+
+  if (projectBytes + requestedBytes > limits.projectBytes) {
+    throw new StorageQuotaExceededError('PROJECT', limits.projectBytes, projectBytes, requestedBytes);
+  }
+  if (uploaderBytes + requestedBytes > limits.uploaderBytes) {
+    throw new StorageQuotaExceededError('UPLOADER', limits.uploaderBytes, uploaderBytes, requestedBytes);
+  }
+  if (collegeBytes + requestedBytes > limits.collegeBytes) {
+    throw new StorageQuotaExceededError('COLLEGE', limits.collegeBytes, collegeBytes, requestedBytes);
+  }
+}
+
+/**
+ * Stored file versions of a college (all colleges when collegeId is omitted)
+ */
+async function getStoredVersions(collegeId?: string, projectId?: string) {
+  return prisma.projectAttachmentVersion.findMany({
+    where: {
+      ...STORED_FILES,
+      attachment: {
+        ...(projectId ? { projectId } : {}),
+        ...(collegeId ? { project: { collegeId } } : {})
+      }
+    },
+    select: {
+      attachmentId: true,
+      version: true,
+      fileName: true,
+      fileSize: true,
+      uploaderId: true,
+      scanStatus: true,
+      createdAt: true,
+      attachment: {
+        select: {
+          projectId: true,
+          currentVersion: true,
+          project: { select: { title: true, projectType: true, collegeId: true } }
+        }
+      }
+    }
+  });
+}
+
+type StoredVersion = Awaited<ReturnType<typeof getStoredVersions>>[number];
+
+function groupByProject(versions: StoredVersion[]) {
+  const byProject = new Map<string, StoredVersion[]>();
+  for (const version of versions) {
+    const projectId = version.attachment.projectId;
+    byProject.set(projectId, [...(byProject.get(projectId) || []), version]);
+  }
+  return byProject;
+}
+
+function sumFileSizes(versions: StoredVersion[]): number {
+  return versions.reduce((sum, version) => sum + (version.fileSize ?? 0), 0);
+}
+
+/**
+ * Storage usage summary for the admin dashboard
+ */
+export async function getStorageUsageSummary(collegeId?: string, top: number = 5) {
+  const [versions, quota] = await Promise.all([
+    getStoredVersions(collegeId),
+    collegeId ? prisma.collegeStorageQuota.findUnique({ where: { collegeId } }) : Promise.resolve(null)
+  ]);
+
+  const byUploader = new Map<string, number>();
+  for (const version of versions) {
+    byUploader.set(version.uploaderId, (byUploader.get(version.uploaderId) || 0) + (version.fileSize ?? 0));
+  }
+
+  const totalBytes = sumFileSizes(versions);
+  const collegeLimitBytes = collegeId ? resolveStorageLimits(quota, 'PROJECT').collegeBytes : null;
+
+  const projects = Array.from(groupByProject(versions).entries()).map(([projectId, projectVersions]) => {
+    const { title, projectType } = projectVersions[0].attachment.project;
+    const usedBytes = sumFileSizes(projectVersions);
+    const limitBytes = resolveStorageLimits(quota, projectType).projectBytes;
+    return {
+      projectId,
+      title,
+      projectType,
+      usedBytes,
+      limitBytes,
+      percentUsed: Math.round((usedBytes / limitBytes) * 1000) / 10
+    };
+  });
+
+  return {
+    totalBytes,
+    collegeLimitBytes,
+    percentUsed: collegeLimitBytes ? Math.round((totalBytes / collegeLimitBytes) * 1000) / 10 : null,
+    storedFiles: versions.length,
+    quarantinedBytes: sumFileSizes(versions.filter(version => version.scanStatus === 'INFECTED' || version.scanStatus === 'SCAN_FAILED')),
+    supersededBytes: sumFileSizes(versions.filter(version => version.version !== version.attachment.currentVersion)),
+    topProjects: projects.sort((a, b) => b.usedBytes - a.usedBytes).slice(0, top),
+    projectsNearLimit: projects.filter(project => project.percentUsed >= 90).length,
+    topUploaders: Array.from(byUploader.entries())
+      .map(([uploaderId, usedBytes]) => ({ uploaderId, usedBytes }))
+      .sort((a, b) => b.usedBytes - a.usedBytes)
+      .slice(0, top)
+  };
+}
+
+/**
+ * Largest and oldest stored files per project, to help admins decide what to clean up
+ */
+export async function getStorageCleanupReport(collegeId?: string, options: { projectId?: string; limit?: number } = {}) {
+  const limit = options.limit ?? 5;
+  const [versions, quota] = await Promise.all([
+    getStoredVersions(collegeId, options.projectId),
+    collegeId ? prisma.collegeStorageQuota.findUnique({ where: { collegeId } }) : Promise.resolve(null)
+  ]);
+
+  const toFile = (version: StoredVersion) => ({
+    attachmentId: version.attachmentId,
+    version: version.version,
+    fileName: version.fileName,
+    fileSize: version.fileSize,
+    uploaderId: version.uploaderId,
+    scanStatus: version.scanStatus,
+    isCurrent: version.version === version.attachment.currentVersion,
+    createdAt: version.createdAt
+  });
+
+  return Array.from(groupByProject(versions).entries())
+    .map(([projectId, projectVersions]) => {
+      const { title, projectType } = projectVersions[0].attachment.project;
+      const usedBytes = sumFileSizes(projectVersions);
+
+      return {
+        projectId,
+        title,
+        projectType,
+        usedBytes,
+        limitBytes: resolveStorageLimits(quota, projectType).projectBytes,
+        storedFiles: projectVersions.length,
+        reclaimableBytes: sumFileSizes(projectVersions.filter(version => version.version !== version.attachment.currentVersion)),
+        largestFiles: [...projectVersions]
+          .sort((a, b) => (b.fileSize ?? 0) - (a.fileSize ?? 0))
+          .slice(0, limit)
+          .map(toFile),
+        oldestFiles: [...projectVersions]
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .slice(0, limit)
+          .map(toFile)
+      };
+    })
+    .sort((a, b) => b.usedBytes - a.usedBytes);
+}
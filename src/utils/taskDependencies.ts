@@ -0,0 +1,166 @@
+import type { Prisma, TaskStatus } from "@prisma/client";
+
+// Task dependency graph
+// An edge (taskId -> dependsOnId) means the task cannot start until dependsOnId is DONE.
+// Edges are kept acyclic per project; a task is "blocked" while any of its dependencies
+// is still open. The critical path is the longest chain of estimated work that ends in
+// the project's final milestone.
+
+export const DEFAULT_TASK_ESTIMATE_HOURS = 1;
+
+// Statuses that count as having started work
+export const STARTED_TASK_STATUSES: TaskStatus[] = ['IN_PROGRESS', 'DONE'];
+
+export interface DependencyEdge {
+  taskId: string;
+  dependsOnId: string;
+}
+
+interface GraphTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  estimateHours: number | null;
+  milestoneId: string | null;
+}
+
+/**
+ * Whether adding taskId -> dependsOnId closes a loop, i.e. dependsOnId already
+ * (transitively) depends on taskId
+ */
+export function wouldCreateCycle(edges: DependencyEdge[], taskId: string, dependsOnId: string): boolean {
+  if (taskId === dependsOnId) return true;
+
+  const dependenciesOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    dependenciesOf.set(edge.taskId, [...(dependenciesOf.get(edge.taskId) || []), edge.dependsOnId]);
+  }
+
+  const visited = new Set<string>();
+  const stack = [dependsOnId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(dependenciesOf.get(current) || []));
+  }
+
+  return false;
+}
+
+/**
+ * Ids of tasks with at least one dependency that is not DONE
+ */
+export function computeBlockedTaskIds(
+  tasks: { id: string; status: TaskStatus }[],
+  edges: DependencyEdge[]
+): Set<string> {
+  const statusById = new Map(tasks.map(task => [task.id, task.status]));
+
+  return new Set(
+    edges
+      .filter(edge => statusById.get(edge.dependsOnId) !== 'DONE')
+      .map(edge => edge.taskId)
+  );
+}
+
+/**
+ * Dependencies of a task that are still open
+ */
+export async function getOpenBlockers(tx: Prisma.TransactionClient, taskId: string) {
+  const dependencies = await tx.projectTaskDependency.findMany({
+    where: { taskId, dependsOn: { status: { not: 'DONE' } } },
+    include: { dependsOn: { select: { id: true, title: true, status: true } } }
+  });
+
+  return dependencies.map(dependency => dependency.dependsOn);
+}
+
+/**
+ * Serialize dependency changes for a project until the transaction ends, so concurrent
+ * additions can't each pass the cycle check against a graph without the other's edge
+ */
+export async function lockProjectDependencies(tx: Prisma.TransactionClient, projectId: string) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`task-deps:${projectId}`}))`;
+}
+
+/**
+ * Load a project's dependency edges
+ */
+export async function getProjectDependencyEdges(tx: Prisma.TransactionClient, projectId: string): Promise<DependencyEdge[]> {
+  return tx.projectTaskDependency.findMany({
+    where: { projectId },
+    select: { taskId: true, dependsOnId: true }
+  });
+}
+
+/**
+ * Longest chain of estimated work ending in one of the target tasks (all tasks when no
+ * targets are given). Tasks without an estimate count as DEFAULT_TASK_ESTIMATE_HOURS.
+ */
+export function computeCriticalPath(tasks: GraphTask[], edges: DependencyEdge[], targetTaskIds?: Set<string>) {
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const dependenciesOf = new Map<string, string[]>();
+  const dependentsOf = new Map<string, string[]>();
+  const pendingDependencies = new Map(tasks.map(task => [task.id, 0]));
+
+  for (const edge of edges) {
+    if (!taskById.has(edge.taskId) || !taskById.has(edge.dependsOnId)) continue;
+    dependenciesOf.set(edge.taskId, [...(dependenciesOf.get(edge.taskId) || []), edge.dependsOnId]);
+    dependentsOf.set(edge.dependsOnId, [...(dependentsOf.get(edge.dependsOnId) || []), edge.taskId]);
+    pendingDependencies.set(edge.taskId, pendingDependencies.get(edge.taskId)! + 1);
+  }
+
+  const weight = (task: GraphTask) => task.estimateHours ?? DEFAULT_TASK_ESTIMATE_HOURS;
+
+  // Kahn's algorithm: process tasks once all of their dependencies have been scored
+  const queue = tasks.filter(task => pendingDependencies.get(task.id) === 0).map(task => task.id);
+  const chainHours = new Map<string, number>();
+  const previous = new Map<string, string | null>();
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const task = taskById.get(id)!;
+
+    let best: string | null = null;
+    for (const dependencyId of dependenciesOf.get(id) || []) {
+      if (best === null || chainHours.get(dependencyId)! > chainHours.get(best)!) {
+        best = dependencyId;
+      }
+    }
+
+    chainHours.set(id, weight(task) + (best ? chainHours.get(best)! : 0));
+    previous.set(id, best);
+
+    for (const dependentId of dependentsOf.get(id) || []) {
+      const remaining = pendingDependencies.get(dependentId)! - 1;
+      pendingDependencies.set(dependentId, remaining);
+      if (remaining === 0) queue.push(dependentId);
+    }
+  }
+
+  let end: string | null = null;
+  for (const [id, hours] of chainHours) {
+    if (targetTaskIds && !targetTaskIds.has(id)) continue;
+    if (end === null || hours > chainHours.get(end)!) end = id;
+  }
+
+  const path: GraphTask[] = [];
+  for (let id = end; id; id = previous.get(id) ?? null) {
+    path.unshift(taskById.get(id)!);
+  }
+
+  return {
+    path: path.map(task => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      milestoneId: task.milestoneId,
+      estimateHours: task.estimateHours
+    })),
+    totalHours: end ? chainHours.get(end)! : 0,
+    remainingHours: path.filter(task => task.status !== 'DONE').reduce((sum, task) => sum + weight(task), 0)
+  };
+}
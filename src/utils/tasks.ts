@@ -0,0 +1,196 @@
+import type { Prisma, Project, ProjectTask, TaskStatus } from "@prisma/client";
+import { notifyUser } from "./notifications";
+
+// Task board helpers
+// Tasks are ordered by `position` within their status column. Assignees must be project
+// members (author, active collaborators or accepted students) and subtasks are limited to
+// one level below a top-level task in the same project.
+
+/**
+ * Everyone a task can be assigned to
+ */
+export async function getAssignableMemberIds(
+  tx: Prisma.TransactionClient,
+  project: Pick<Project, 'id' | 'authorId'>
+): Promise<Set<string>> {
+  const [collaborators, members] = await Promise.all([
+    tx.projectCollaborator.findMany({
+      where: { projectId: project.id, status: 'ACTIVE' },
+      select: { userId: true }
+    }),
+    tx.appliedProject.findMany({
+      where: { projectId: project.id, status: 'ACCEPTED' },
+      select: { studentId: true }
+    })
+  ]);
+
+  return new Set([
+    project.authorId,
+    ...collaborators.map(c => c.userId),
+    ...members.map(m => m.studentId)
+  ]);
+}
+
+/**
+ * Return the assignee ids that are not project members
+ */
+export async function findInvalidAssignees(
+  tx: Prisma.TransactionClient,
+  project: Pick<Project, 'id' | 'authorId'>,
+  assigneeIds: string[]
+): Promise<string[]> {
+  if (assigneeIds.length === 0) return [];
+
+  const members = await getAssignableMemberIds(tx, project);
+  return assigneeIds.filter(id => !members.has(id));
+}
+
+/**
+ * Normalise assignees from a request body; accepts the legacy single assignedToId
+ */
+export function resolveAssigneeIds(body: { assigneeIds?: string[]; assignedToId?: string | null }): string[] | undefined {
+  if (body.assigneeIds !== undefined) {
+    return Array.from(new Set(body.assigneeIds));
+  }
+  if (body.assignedToId !== undefined) {
+    return body.assignedToId ? [body.assignedToId] : [];
+  }
+  return undefined;
+}
+
+/**
+ * Check a parent task reference; returns an error code or null when valid
+ */
+export async function validateParentTask(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  parentId: string,
+  taskId?: string
+): Promise<'PARENT_NOT_FOUND' | 'PARENT_IS_SUBTASK' | 'TASK_HAS_SUBTASKS' | null> {
+  if (parentId === taskId) return 'PARENT_NOT_FOUND';
+
+  const parent = await tx.projectTask.findFirst({
+    where: { id: parentId, projectId },
+    select: { parentId: true }
+  });
+
+  if (!parent) return 'PARENT_NOT_FOUND';
+  if (parent.parentId) return 'PARENT_IS_SUBTASK';
+
+  // A task that already has subtasks cannot itself become a subtask
+  if (taskId && await tx.projectTask.count({ where: { parentId: taskId } }) > 0) {
+    return 'TASK_HAS_SUBTASKS';
+  }
+
+  return null;
+}
+
+/**
+ * Reserve a slot in a status column, shifting the tasks below it down.
+ * Without a position the slot is at the bottom of the column.
+ */
+export async function reserveTaskPosition(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  status: TaskStatus,
+  position?: number,
+  excludeTaskId?: string
+): Promise<number> {
+  const excluded = excludeTaskId ? { id: { not: excludeTaskId } } : {};
+
+  const columnSize = await tx.projectTask.count({
+    where: { projectId, status, ...excluded }
+  });
+  const target = position === undefined ? columnSize : Math.min(Math.max(position, 0), columnSize);
+
+  await tx.projectTask.updateMany({
+    where: { projectId, status, position: { gte: target }, ...excluded },
+    data: { position: { increment: 1 } }
+  });
+
+  return target;
+}
+
+/**
+ * Move a task to a status column and position (bottom of the column when omitted)
+ */
+export async function moveTask(
+  tx: Prisma.TransactionClient,
+  task: Pick<ProjectTask, 'id' | 'projectId' | 'status' | 'position'>,
+  status: TaskStatus,
+  position?: number
+): Promise<{ status: TaskStatus; position: number }> {
+  if (status === task.status && (position === undefined || position === task.position)) {
+    return { status, position: task.position };
+  }
+
+  // Close the gap in the column the task leaves
+  await tx.projectTask.updateMany({
+    where: { projectId: task.projectId, status: task.status, position: { gt: task.position }, id: { not: task.id } },
+    data: { position: { decrement: 1 } }
+  });
+
+  return { status, position: await reserveTaskPosition(tx, task.projectId, status, position, task.id) };
+}
+
+/**
+ * Close the gap left in a status column by a deleted task
+ */
+export async function compactTaskColumn(
+  tx: Prisma.TransactionClient,
+  task: Pick<ProjectTask, 'projectId' | 'status' | 'position'>
+) {
+  await tx.projectTask.updateMany({
+    where: { projectId: task.projectId, status: task.status, position: { gt: task.position } },
+    data: { position: { decrement: 1 } }
+  });
+}
+
+/**
+ * Fields broadcast in task-created / task-updated events
+ */
+export function toTaskEventPayload(task: ProjectTask, blocked?: boolean) {
+  return {
+    blocked,
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    milestoneId: task.milestoneId,
+    parentId: task.parentId,
+    assignedToId: task.assignedToId,
+    assigneeIds: task.assigneeIds,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    estimateHours: task.estimateHours,
+    labels: task.labels,
+    position: task.position,
+    createdById: task.createdById,
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt
+  };
+}
+
+/**
+ * Notify people newly assigned to a task (not whoever made the change)
+ */
+export async function notifyNewAssignees(
+  task: Pick<ProjectTask, 'id' | 'title' | 'projectId' | 'assigneeIds' | 'dueDate'>,
+  project: Pick<Project, 'title'>,
+  assignedBy: { id: string; name: string },
+  previousAssigneeIds: string[] = []
+) {
+  const recipients = task.assigneeIds.filter(
+    userId => userId !== assignedBy.id && !previousAssigneeIds.includes(userId)
+  );
+
+  await Promise.all(recipients.map(userId => notifyUser(userId, {
+    type: 'task-assigned',
+    projectId: task.projectId,
+    projectTitle: project.title,
+    taskId: task.id,
+    taskTitle: task.title,
+    dueDate: task.dueDate,
+    assignedBy
+  })));
+}
@@ -0,0 +1,370 @@
+import type { ApplicationStatus, AppliedProject, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { InvalidTransitionError, PipelineActor, recordStatusChange, validateTransition } from "./applicationPipeline";
+import { emitApplicationUpdate } from "./enhancedWebSocket";
+import { notifyUser } from "./notifications";
+import { CacheInvalidation } from "./cacheInvalidation";
+import { applyApplicationMembershipChange } from "./projectMembership";
+
+// Project waitlists
+// When a waitlist-enabled project is full, new applications are queued as WAITLISTED
+// with a 1-based waitlistPosition. Whenever a slot frees up the head of the queue is
+// either accepted (AUTO_ACCEPT) or sent an offer that expires after offerWindowHours (OFFER).
+// Outstanding waitlist offers reserve their slot until answered or expired.
+
+const SYSTEM_ACTOR_ID = 'system';
+const OFFER_EXPIRY_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface WaitlistPromotion {
+  application: AppliedProject;
+  projectId: string;
+  authorId: string;
+  collegeId: string;
+}
+
+/**
+ * Serialize slot accounting for a project until the transaction ends, so concurrent
+ * status changes can't count the same free slot or hand out the same queue position.
+ * Take it before changing any application of the project to keep the lock order fixed.
+ */
+export async function lockProjectSlots(tx: Prisma.TransactionClient, projectId: string) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`project-slots:${projectId}`}))`;
+}
+
+/**
+ * Slots taken by accepted members plus unexpired waitlist offers
+ */
+export async function countOccupiedSlots(tx: Prisma.TransactionClient, projectId: string): Promise<number> {
+  await lockProjectSlots(tx, projectId);
+  return tx.appliedProject.count({
+    where: {
+      projectId,
+      OR: [
+        { status: 'ACCEPTED' },
+        { status: 'OFFERED', offerExpiresAt: { gt: new Date() } }
+      ]
+    }
+  });
+}
+
+/**
+ * Capacity check shared by applications and faculty invitations
+ */
+export async function hasOpenSlot(tx: Prisma.TransactionClient, projectId: string, maxStudents: number): Promise<boolean> {
+  return (await countOccupiedSlots(tx, projectId)) < maxStudents;
+}
+
+/**
+ * Position the next queued application will take
+ */
+export async function nextWaitlistPosition(tx: Prisma.TransactionClient, projectId: string): Promise<number> {
+  await lockProjectSlots(tx, projectId);
+  const tail = await tx.appliedProject.aggregate({
+    where: { projectId, status: 'WAITLISTED' },
+    _max: { waitlistPosition: true }
+  });
+  return (tail._max.waitlistPosition ?? 0) + 1;
+}
+
+/**
+ * Close the gap left by an application that left the queue
+ */
+async function compactQueue(tx: Prisma.TransactionClient, projectId: string, removedPosition: number) {
+  await tx.appliedProject.updateMany({
+    where: { projectId, status: 'WAITLISTED', waitlistPosition: { gt: removedPosition } },
+    data: { waitlistPosition: { decrement: 1 } }
+  });
+}
+
+/**
+ * Promote queued applications into any free slots (call inside a transaction)
+ */
+export async function fillOpenSlots(tx: Prisma.TransactionClient, projectId: string): Promise<WaitlistPromotion[]> {
+  await lockProjectSlots(tx, projectId);
+
+  const project = await tx.project.findUnique({
+    where: { id: projectId },
+    select: {
+      authorId: true,
+      collegeId: true,
+      maxStudents: true,
+      waitlistEnabled: true,
+      waitlistPromotion: true,
+      offerWindowHours: true
+    }
+  });
+
+  if (!project || !project.waitlistEnabled) {
+    return [];
+  }
+
+  const occupied = await countOccupiedSlots(tx, projectId);
+  const freeSlots = project.maxStudents - occupied;
+  if (freeSlots <= 0) {
+    return [];
+  }
+
+  const queueHead = await tx.appliedProject.findMany({
+    where: { projectId, status: 'WAITLISTED' },
+    orderBy: [{ waitlistPosition: 'asc' }, { appliedAt: 'asc' }],
+    take: freeSlots
+  });
+
+  const promotions: WaitlistPromotion[] = [];
+
+  for (const queued of queueHead) {
+    const toStatus: ApplicationStatus = project.waitlistPromotion === 'OFFER' ? 'OFFERED' : 'ACCEPTED';
+    const offerExpiresAt = toStatus === 'OFFERED'
+      ? new Date(Date.now() + project.offerWindowHours * 60 * 60 * 1000)
+      : null;
+
+    const application = await tx.appliedProject.update({
+      where: { id: queued.id },
+      data: { status: toStatus, waitlistPosition: null, offerExpiresAt }
+    });
+
+    await recordStatusChange(tx, {
+      applicationId: queued.id,
+      fromStatus: 'WAITLISTED',
+      toStatus,
+      changedById: SYSTEM_ACTOR_ID,
+      changedByRole: 'SYSTEM',
+      reason: toStatus === 'OFFERED' ? 'Promoted from waitlist with a time-limited offer' : 'Promoted from waitlist'
+    });
+
+    promotions.push({ application, projectId, authorId: project.authorId, collegeId: project.collegeId });
+  }
+
+  // Remaining entries move up by the number of promoted applications
+  if (promotions.length > 0) {
+    await tx.appliedProject.updateMany({
+      where: { projectId, status: 'WAITLISTED' },
+      data: { waitlistPosition: { decrement: promotions.length } }
+    });
+  }
+
+  return promotions;
+}
+
+/**
+ * Keep the queue consistent after an application changes status or is deleted
+ * (pass toStatus = null for deletions). Call inside the status-changing transaction.
+ */
+export async function syncWaitlist(
+  tx: Prisma.TransactionClient,
+  change: {
+    projectId: string;
+    applicationId: string;
+    fromStatus: ApplicationStatus;
+    toStatus: ApplicationStatus | null;
+    waitlistPosition: number | null;
+    offerExpiresAt: Date | null;
+  }
+): Promise<WaitlistPromotion[]> {
+  if (change.fromStatus === change.toStatus) {
+    return [];
+  }
+
+  await lockProjectSlots(tx, change.projectId);
+
+  if (change.fromStatus === 'WAITLISTED' && change.waitlistPosition) {
+    if (change.toStatus !== null) {
+      await tx.appliedProject.update({
+        where: { id: change.applicationId },
+        data: { waitlistPosition: null }
+      });
+    }
+    await compactQueue(tx, change.projectId, change.waitlistPosition);
+  }
+
+  if (change.toStatus === 'WAITLISTED') {
+    await tx.appliedProject.update({
+      where: { id: change.applicationId },
+      data: { waitlistPosition: await nextWaitlistPosition(tx, change.projectId) }
+    });
+  }
+
+  if (change.fromStatus === 'OFFERED' && change.offerExpiresAt && change.toStatus !== null) {
+    await tx.appliedProject.update({
+      where: { id: change.applicationId },
+      data: { offerExpiresAt: null }
+    });
+  }
+
+  const heldSlot = change.fromStatus === 'ACCEPTED' ||
+    (change.fromStatus === 'OFFERED' && change.offerExpiresAt !== null);
+  const releasedSlot = heldSlot && change.toStatus !== 'ACCEPTED';
+
+  return releasedSlot ? fillOpenSlots(tx, change.projectId) : [];
+}
+
+/**
+ * Move an application to a new status on behalf of faculty or an admin. The transition is
+ * checked against the application as it is once the slot lock is held: a withdrawal, an
+ * offer expiry or a promotion may have changed it since the caller read it.
+ * Throws InvalidTransitionError, or PROJECT_FULL when accepting into a full project.
+ */
+export async function changeApplicationStatus(
+  tx: Prisma.TransactionClient,
+  change: {
+    applicationId: string;
+    toStatus: ApplicationStatus;
+    changedById: string;
+    changedByRole: PipelineActor;
+    reason?: string;
+  }
+): Promise<{ fromStatus: ApplicationStatus; application: AppliedProject; promotions: WaitlistPromotion[] }> {
+  const { projectId } = await tx.appliedProject.findUniqueOrThrow({
+    where: { id: change.applicationId },
+    select: { projectId: true }
+  });
+  await lockProjectSlots(tx, projectId);
+
+  const current = await tx.appliedProject.findUniqueOrThrow({
+    where: { id: change.applicationId },
+    include: { project: { select: { maxStudents: true, applicationStages: true } } }
+  });
+
+  const transition = validateTransition(current.status, change.toStatus, current.project.applicationStages, change.changedByRole);
+  if (!transition.valid) {
+    throw new InvalidTransitionError(transition.error!, current.status, current.project.applicationStages);
+  }
+
+  // Accepting takes a slot unless a live waitlist offer already holds one; a full
+  // project fills from its waitlist instead
+  const holdsSlot = current.status === 'OFFERED' && !!current.offerExpiresAt && current.offerExpiresAt > new Date();
+  if (change.toStatus === 'ACCEPTED' && !holdsSlot && !(await hasOpenSlot(tx, projectId, current.project.maxStudents))) {
+    throw new Error("PROJECT_FULL");
+  }
+
+  await tx.appliedProject.update({
+    where: { id: change.applicationId },
+    data: { status: change.toStatus }
+  });
+
+  await recordStatusChange(tx, {
+    applicationId: change.applicationId,
+    fromStatus: current.status,
+    toStatus: change.toStatus,
+    changedById: change.changedById,
+    changedByRole: change.changedByRole,
+    reason: change.reason
+  });
+
+  // Keep the waitlist queue in order and refill a slot released by a rejection
+  const promotions = await syncWaitlist(tx, {
+    projectId,
+    applicationId: change.applicationId,
+    fromStatus: current.status,
+    toStatus: change.toStatus,
+    waitlistPosition: current.waitlistPosition,
+    offerExpiresAt: current.offerExpiresAt
+  });
+
+  const application = await tx.appliedProject.findUniqueOrThrow({ where: { id: change.applicationId } });
+  return { fromStatus: current.status, application, promotions };
+}
+
+/**
+ * Notify faculty and students about promotions once the transaction has committed
+ */
+export async function announcePromotions(promotions: WaitlistPromotion[]) {
+  for (const promotion of promotions) {
+    const { application } = promotion;
+
+    await CacheInvalidation.invalidateByEntity('application', application.id, 'update', {
+      projectId: promotion.projectId,
+      studentId: application.studentId,
+      collegeId: promotion.collegeId
+    });
+
+    emitApplicationUpdate(promotion.authorId, {
+      type: 'application-promoted',
+      application,
+      projectId: promotion.projectId,
+      collegeId: promotion.collegeId,
+      timestamp: new Date().toISOString()
+    });
+
+    await notifyUser(application.studentId, {
+      type: application.status === 'OFFERED' ? 'waitlist-offer' : 'waitlist-accepted',
+      projectId: promotion.projectId,
+      applicationId: application.id,
+      offerExpiresAt: application.offerExpiresAt
+    });
+
+    await applyApplicationMembershipChange(promotion.projectId, application.studentId, 'WAITLISTED', application.status);
+  }
+}
+
+/**
+ * Decline waitlist offers whose acceptance window has passed and pass the slot on
+ */
+export async function expireWaitlistOffers(): Promise<number> {
+  const expired = await prisma.appliedProject.findMany({
+    where: { status: 'OFFERED', offerExpiresAt: { lte: new Date() } },
+    select: { id: true, projectId: true }
+  });
+
+  for (const { id, projectId } of expired) {
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        await lockProjectSlots(tx, projectId);
+
+        const claimed = await tx.appliedProject.updateMany({
+          where: { id, status: 'OFFERED', offerExpiresAt: { lte: new Date() } },
+          data: { status: 'OFFER_DECLINED', offerExpiresAt: null }
+        });
+
+        // Already answered by the student
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        await recordStatusChange(tx, {
+          applicationId: id,
+          fromStatus: 'OFFERED',
+          toStatus: 'OFFER_DECLINED',
+          changedById: SYSTEM_ACTOR_ID,
+          changedByRole: 'SYSTEM',
+          reason: 'Waitlist offer expired'
+        });
+
+        const application = await tx.appliedProject.findUniqueOrThrow({
+          where: { id },
+          include: { project: { select: { authorId: true, collegeId: true } } }
+        });
+
+        const promotions = await fillOpenSlots(tx, application.projectId);
+        return { application, promotions };
+      });
+
+      if (result) {
+        const { project, ...application } = result.application;
+        emitApplicationUpdate(project.authorId, {
+          type: 'application-status-changed',
+          application,
+          projectId: application.projectId,
+          collegeId: project.collegeId,
+          timestamp: new Date().toISOString()
+        });
+        await announcePromotions(result.promotions);
+      }
+    } catch (error) {
+      console.error(`Failed to expire waitlist offer ${id}:`, error);
+    }
+  }
+
+  return expired.length;
+}
+
+/**
+ * Periodically expire waitlist offers
+ */
+export function startWaitlistOfferExpiry() {
+  return setInterval(() => {
+    expireWaitlistOffers().catch(error => {
+      console.error('Waitlist offer expiry failed:', error);
+    });
+  }, OFFER_EXPIRY_INTERVAL_MS);
+}